@@ -1,153 +1,643 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AdScript } from './types';
-import { generateAdScript, generateAdVideo } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import { AdScript, AdScriptVariant, BrandKit, BrandKitData, CreativeBrief, InlineImage, PartialAdScript, ProductImageFile, ProductInput, ProductProfile, Project, RefinementMessage, ScriptHistory, ScriptReview, ScriptVersionOrigin, SharedReview, StoryboardFrame } from './types';
+import { analyzeProduct, generateAdScript, generateAdScriptVariants, generateStoryboardFrame, refineAdScript, regenerateScene, reviewCompliance } from './services/geminiService';
+import { VideoJob, buildAdVideoPrompt, getPendingVideoJobs, pollVideoJob, startVideoJob } from './services/videoJobManager';
+import { SceneClips, buildSceneClipPrompt, getSceneClip } from './services/sceneClips';
+import { createProjectId, deleteProject, duplicateProject, getProject, listProjects, renameProject, saveProject } from './services/projectStore';
+import { createId } from './services/localDatabase';
+import { createBrandKitId, deleteBrandKit, listBrandKits, saveBrandKit } from './services/brandKitStore';
+import { downloadBlob, fileToBase64 } from './utils/fileUtils';
+import { AD_DURATIONS, DEFAULT_CREATIVE_BRIEF, MAX_VARIANTS, getFrameAspectRatio } from './utils/creativeBrief';
+import { getTotalDuration } from './utils/sceneTiming';
+import { ImportIssue, formatImportIssue } from './utils/scriptImport';
+import { setStoryboardFrame } from './utils/storyboard';
+import { getRuleSetLabels } from './utils/compliance';
+import { createAdError } from './utils/adErrors';
+import { getSceneContentKey, updateScene } from './utils/scriptEditing';
+import { EMPTY_SCRIPT_HISTORY, closeCurrentVersion, createScriptHistory, getCurrentVersion, recordVersion, redo, restoreVersion, undo } from './utils/scriptHistory';
+import { createReviewPage, getReviewPageFilename } from './utils/reviewPage';
 import ImageUploader from './components/ImageUploader';
+import ProductProfileEditor from './components/ProductProfileEditor';
 import AdDisplay from './components/AdDisplay';
-import Loader from './components/Loader';
-import { SparklesIcon, AlertTriangleIcon, AppLogoIcon } from './components/icons';
+import ScriptStreamPreview from './components/ScriptStreamPreview';
+import ErrorPanel from './components/ErrorPanel';
+import CreativeBriefForm from './components/CreativeBriefForm';
+import BrandKitSelector from './components/BrandKitSelector';
+import VariantComparison from './components/VariantComparison';
+import ProjectSidebar from './components/ProjectSidebar';
+import ScriptImporter from './components/ScriptImporter';
+import VersionHistoryPanel from './components/VersionHistoryPanel';
+import BatchGenerator from './components/BatchGenerator';
+import { SparklesIcon, AppLogoIcon, FolderIcon } from './components/icons';
 
-const LOADING_MESSAGES = [
-  "Warming up the virtual cameras...",
-  "Storyboarding your vision...",
-  "Setting up the digital lighting...",
-  "Directing the AI actors...",
-  "Rendering the first cut...",
-  "Adding special effects and sound...",
-  "Finalizing the masterpiece...",
-  "This can take a few minutes, thanks for your patience!",
-];
+const AUTOSAVE_DELAY_MS = 800;
 
+const toProductImageFile = (file: File): ProductImageFile => ({ id: createId(), file, previewUrl: URL.createObjectURL(file) });
+
+const toInlineImage = async (file: File): Promise<InlineImage> => ({ base64Image: await fileToBase64(file), mimeType: file.type });
 
 const App: React.FC = () => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [productImages, setProductImages] = useState<ProductImageFile[]>([]);
+  const [heroImageId, setHeroImageId] = useState<string | null>(null);
   const [productDescription, setProductDescription] = useState<string>('');
-  const [adScript, setAdScript] = useState<AdScript | null>(null);
+  const [productProfile, setProductProfile] = useState<ProductProfile | null>(null);
+  const [creativeBrief, setCreativeBrief] = useState<CreativeBrief>(DEFAULT_CREATIVE_BRIEF);
+  const [scriptHistory, setScriptHistory] = useState<ScriptHistory>(EMPTY_SCRIPT_HISTORY);
+  // The script on screen is always the current version of the history.
+  const adScript = getCurrentVersion(scriptHistory)?.script ?? null;
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variants, setVariants] = useState<AdScriptVariant[]>([]);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // The script as it streams in, shown until it is complete.
+  const [streamingScript, setStreamingScript] = useState<PartialAdScript | null>(null);
+  const scriptAbortRef = useRef<AbortController | null>(null);
+  const [importWarnings, setImportWarnings] = useState<ImportIssue[]>([]);
+  const [storyboard, setStoryboard] = useState<StoryboardFrame[]>([]);
+  const [reviews, setReviews] = useState<ScriptReview[]>([]);
+  const [sharedReviews, setSharedReviews] = useState<SharedReview[]>([]);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  // The batch view stays mounted once opened, so a running batch and its results survive visits to the editor.
+  const [hasBatch, setHasBatch] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
 
   // Video generation state
   const [isVideoLoading, setIsVideoLoading] = useState<boolean>(false);
-  const [videoLoadingMessage, setVideoLoadingMessage] = useState<string>(LOADING_MESSAGES[0]);
+  const [videoJob, setVideoJob] = useState<VideoJob | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [videoError, setVideoError] = useState<string | null>(null);
-  const loadingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [videoError, setVideoError] = useState<Error | null>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+  const [sceneClips, setSceneClips] = useState<SceneClips>({});
+  const clipAbortRefs = useRef<Map<string, AbortController>>(new Map());
+  const resumeCheckedRef = useRef<boolean>(false);
+
+  // Project history state
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
+  const videoBlobRef = useRef<{ url: string; blob: Blob } | null>(null);
+  const skipNextAutosaveRef = useRef<boolean>(false);
+
 
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Failed to load projects:", err);
+    }
+  }, []);
 
   useEffect(() => {
-    // Cleanup interval on unmount
-    return () => {
-      if(loadingIntervalRef.current) {
-        clearInterval(loadingIntervalRef.current);
-      }
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const refreshBrandKits = useCallback(async () => {
+    try {
+      setBrandKits(await listBrandKits());
+    } catch (err) {
+      console.error("Failed to load brand kits:", err);
     }
   }, []);
 
-  const handleFileSelect = useCallback((file: File) => {
-    setImageFile(file);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string);
+  useEffect(() => {
+    refreshBrandKits();
+  }, [refreshBrandKits]);
+
+  const heroImage = productImages.find(image => image.id === heroImageId) ?? productImages[0] ?? null;
+  const heroImageFile = heroImage?.file ?? null;
+
+  // Blob URLs only live as long as the page, so locally generated videos are saved as bytes.
+  const getVideoBlob = async (url: string | null): Promise<Blob | null> => {
+    if (!url || !url.startsWith('blob:')) return null;
+    if (videoBlobRef.current?.url !== url) {
+      const response = await fetch(url);
+      videoBlobRef.current = { url, blob: await response.blob() };
+    }
+    return videoBlobRef.current.blob;
+  };
+
+  useEffect(() => {
+    if (skipNextAutosaveRef.current) {
+      skipNextAutosaveRef.current = false;
+      return;
+    }
+    // Only sessions that produced something are worth keeping.
+    if (!projectId || (!adScript && variants.length === 0)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const videoBlob = await getVideoBlob(videoUrl);
+        const defaultName = adScript?.title ?? variants[0]?.script.title ?? 'Untitled project';
+        await saveProject(projectId, {
+          productImages: productImages.map(image => ({ blob: image.file, name: image.file.name })),
+          heroImageIndex: heroImage ? productImages.indexOf(heroImage) : 0,
+          productDescription,
+          productProfile,
+          creativeBrief,
+          adScript,
+          scriptHistory,
+          variants,
+          selectedVariantIndex,
+          videoBlob,
+          videoUrl: videoBlob ? null : videoUrl,
+          storyboard,
+          reviews,
+          sharedReviews,
+        }, defaultName);
+        refreshProjects();
+      } catch (err) {
+        console.error("Failed to save project:", err);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, productImages, heroImageId, productDescription, productProfile, creativeBrief, scriptHistory, variants, selectedVariantIndex, videoUrl, storyboard, reviews, sharedReviews]);
+
+  const handleOpenProject = (project: Project) => {
+    handleReset();
+    skipNextAutosaveRef.current = true;
+    setProjectId(project.id);
+    const images = project.productImages.map(image => toProductImageFile(new File([image.blob], image.name, { type: image.blob.type })));
+    replaceProductImages(images);
+    setHeroImageId(images[project.heroImageIndex]?.id ?? images[0]?.id ?? null);
+    setProductDescription(project.productDescription);
+    setProductProfile(project.productProfile);
+    setCreativeBrief(project.creativeBrief);
+    setScriptHistory(project.scriptHistory);
+    setVariants(project.variants);
+    setSelectedVariantIndex(project.selectedVariantIndex);
+    setStoryboard(project.storyboard ?? []);
+    setReviews(project.reviews);
+    setSharedReviews(project.sharedReviews);
+    if (project.videoBlob) {
+      const url = URL.createObjectURL(project.videoBlob);
+      videoBlobRef.current = { url, blob: project.videoBlob };
+      setVideoUrl(url);
+    } else {
+      setVideoUrl(project.videoUrl);
+    }
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    await renameProject(id, name);
+    refreshProjects();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    await duplicateProject(id);
+    refreshProjects();
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id);
+    if (id === projectId) {
+      // Keep working on the open session, but under a new id so it isn't resurrected by autosave.
+      setProjectId(createProjectId());
+    }
+    refreshProjects();
+  };
+
+  // Swaps the image list, releasing the preview URLs of images that are no longer shown.
+  const replaceProductImages = (next: ProductImageFile[]) => {
+    setProductImages(prev => {
+      prev.filter(image => !next.includes(image)).forEach(image => URL.revokeObjectURL(image.previewUrl));
+      return next;
+    });
+  };
+
+  // A new kit is selected straight away; an edited kit replaces the brief's copy if it is the selected one.
+  const handleSaveBrandKit = async (id: string | null, data: BrandKitData): Promise<BrandKit> => {
+    const kit = await saveBrandKit(id ?? createBrandKitId(), data);
+    refreshBrandKits();
+    setCreativeBrief(prev => (!id || prev.brandKit?.id === kit.id ? { ...prev, brandKit: kit } : prev));
+    return kit;
+  };
+
+  const handleDeleteBrandKit = async (id: string) => {
+    await deleteBrandKit(id);
+    refreshBrandKits();
+    setCreativeBrief(prev => (prev.brandKit?.id === id ? { ...prev, brandKit: null } : prev));
+  };
+
+  const handleFilesSelect = (files: File[]) => {
+    const added = files.map(toProductImageFile);
+    if (productImages.length === 0) {
+      handleReset(); // A first photo starts a new ad; further photos are extra angles of the same product.
+      setHeroImageId(added[0].id);
+    }
+    replaceProductImages([...productImages, ...added]);
+  };
+
+  const handleReplaceProductImage = (id: string, file: File) => {
+    replaceProductImages(productImages.map(image => (image.id === id ? { ...toProductImageFile(file), id } : image)));
+  };
+
+  const handleMoveProductImage = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= productImages.length) return;
+    const next = [...productImages];
+    [next[index], next[target]] = [next[target], next[index]];
+    replaceProductImages(next);
+  };
+
+  const handleRemoveProductImage = (id: string) => {
+    const next = productImages.filter(image => image.id !== id);
+    replaceProductImages(next);
+    if (id === heroImageId) setHeroImageId(next[0]?.id ?? null);
+  };
+
+  // The hero goes first: the model treats the first photo as the main shot.
+  const buildProductInput = async (): Promise<ProductInput> => {
+    const ordered = heroImage ? [heroImage, ...productImages.filter(image => image !== heroImage)] : productImages;
+    return {
+      images: await Promise.all(ordered.map(image => toInlineImage(image.file))),
+      description: productDescription,
+      profile: productProfile,
     };
-    reader.readAsDataURL(file);
-    handleReset(); // Reset everything when a new file is selected
-  }, []);
+  };
+
+  const handleAnalyzeProduct = async () => {
+    const { images } = await buildProductInput();
+    setProductProfile(await analyzeProduct(images, productDescription));
+  };
+
+  // Every change to the script goes through here so it becomes a version in the history.
+  const commitScript = (script: AdScript, origin: ScriptVersionOrigin = 'edited', note: string | null = null) => {
+    setScriptHistory(history => recordVersion(history, script, origin, note));
+  };
 
   const handleGenerateScript = async () => {
-    if (!imageFile) {
-      setError('Please upload a product image first.');
+    if (productImages.length === 0) {
+      setError(new Error('Please upload a product image first.'));
       return;
     }
 
+    const controller = new AbortController();
+    scriptAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
-    setAdScript(null);
+    setScriptHistory(closeCurrentVersion);
+    setVariants([]);
+    setSelectedVariantIndex(null);
 
     try {
-      const base64Image = await fileToBase64(imageFile);
-      const mimeType = imageFile.type;
-      const result = await generateAdScript(base64Image, mimeType, productDescription);
-      setAdScript(result);
+      const product = await buildProductInput();
+      if (variantCount > 1) {
+        const results = await generateAdScriptVariants(product, creativeBrief, variantCount, { signal: controller.signal });
+        setVariants(results);
+      } else {
+        const result = await generateAdScript(product, creativeBrief, { signal: controller.signal, onProgress: setStreamingScript });
+        commitScript(result, 'generated');
+      }
     } catch (err) {
+      // A cancelled generation just returns to the form.
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred. Please check the console.');
+      setError(err instanceof Error ? err : new Error('An unknown error occurred. Please check the console.'));
     } finally {
-      setIsLoading(false);
+      if (scriptAbortRef.current === controller) {
+        scriptAbortRef.current = null;
+        setIsLoading(false);
+        setStreamingScript(null);
+      }
     }
   };
 
+  // Keeps every input so the user can adjust the one that caused the failure.
+  const handleEditAfterError = () => {
+    setError(null);
+    document.getElementById('description')?.focus();
+  };
+
+  const handleCancelScript = () => {
+    scriptAbortRef.current?.abort();
+    scriptAbortRef.current = null;
+    setIsLoading(false);
+    setStreamingScript(null);
+  };
+
+  const isScriptOpen = adScript !== null;
+
+  // Ctrl+Z and Ctrl+Shift+Z (Cmd on macOS) step through the versions, except while typing, where they undo text.
+  useEffect(() => {
+    if (!isScriptOpen || isLoading || isBatchOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setScriptHistory(undo);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        setScriptHistory(redo);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isScriptOpen, isLoading, isBatchOpen]);
+
+  const handleImportScript = (script: AdScript, warnings: ImportIssue[]) => {
+    handleReset();
+    setScriptHistory(createScriptHistory(script, 'imported'));
+    setImportWarnings(warnings);
+    // Match the brief to the imported script so the timeline compares against the right slot.
+    const total = getTotalDuration(script.scenes);
+    const closest = AD_DURATIONS.reduce((best, d) => (Math.abs(d - total) < Math.abs(best - total) ? d : best));
+    setCreativeBrief(prev => ({ ...prev, duration: closest }));
+  };
+
+  const handleSelectVariant = (index: number) => {
+    setSelectedVariantIndex(index);
+    commitScript(variants[index].script, 'generated', `Concept: ${variants[index].angle}`);
+    setVideoUrl(null);
+    setVideoError(null);
+  };
+
+  const handleBackToVariants = () => {
+    // Keep any edits made to the chosen variant so they are still there if it is picked again.
+    if (adScript && selectedVariantIndex !== null) {
+      setVariants(prev => prev.map((variant, i) => (i === selectedVariantIndex ? { ...variant, script: adScript } : variant)));
+    }
+    setScriptHistory(closeCurrentVersion);
+    setSelectedVariantIndex(null);
+    setVideoUrl(null);
+    setVideoError(null);
+  };
+
+  const handleRegenerateScene = async (sceneIndex: number) => {
+    if (!adScript || productImages.length === 0) {
+      throw new Error("Cannot regenerate a scene without an ad script and product image.");
+    }
+    const scene = await regenerateScene(adScript, sceneIndex, await buildProductInput(), creativeBrief);
+    // Apply against the latest script in case it was edited while the request was in flight.
+    setScriptHistory(history => {
+      const current = getCurrentVersion(history);
+      return current ? recordVersion(history, updateScene(current.script, sceneIndex, scene), 'generated', `Scene ${sceneIndex + 1} regenerated`) : history;
+    });
+  };
+
+  const handleReviewCompliance = (script: AdScript, ruleSetIds: string[], competitors: string[]) =>
+    reviewCompliance(script, getRuleSetLabels(ruleSetIds), competitors);
+
+  const handleRefineScript = (script: AdScript, history: RefinementMessage[], instruction: string) =>
+    refineAdScript(script, history, instruction, creativeBrief);
+
+  // Downloads a review page for the version on screen.
+  const handleShareForReview = async () => {
+    const current = getCurrentVersion(scriptHistory);
+    if (!current) throw new Error("There is no script to share.");
+    const reviewId = createId();
+    const { page, bundle } = await createReviewPage({
+      reviewId,
+      projectName: projects.find(project => project.id === projectId)?.name ?? current.script.title,
+      versionNumber: current.number,
+      script: current.script,
+      productImage: heroImageFile,
+      storyboard,
+      videoUrl,
+    });
+    downloadBlob(page, getReviewPageFilename(current.script));
+    setSharedReviews(prev => [...prev, { reviewId, versionNumber: current.number, sharedAt: Date.now() }]);
+    return { isVideoOmitted: !!videoUrl && !bundle.videoUrl };
+  };
+
+  const handleGenerateStoryboardFrame = async (sceneIndex: number) => {
+    if (!adScript || !heroImageFile) {
+      throw new Error("Cannot draw a storyboard frame without an ad script and product image.");
+    }
+    const sceneKey = getSceneContentKey(adScript.scenes[sceneIndex]);
+    const hero = await toInlineImage(heroImageFile);
+    const image = await generateStoryboardFrame(adScript, sceneIndex, hero.base64Image, hero.mimeType, creativeBrief);
+    setStoryboard(current => setStoryboardFrame(current, { ...image, sceneKey, createdAt: Date.now() }));
+  };
+
+  const runVideoJob = async (job: VideoJob) => {
+    const controller = new AbortController();
+    videoAbortRef.current = controller;
+    setIsVideoLoading(true);
+    setVideoJob(job);
+
+    const finished = await pollVideoJob(job, { signal: controller.signal, onUpdate: setVideoJob });
+    // A reset or a newer job may have taken over while this one was polling.
+    if (videoAbortRef.current !== controller) return;
+    videoAbortRef.current = null;
+    setIsVideoLoading(false);
+    setVideoJob(null);
+    if (finished.state === 'succeeded' && finished.videoUrl) {
+      setVideoUrl(finished.videoUrl);
+    } else if (finished.state !== 'cancelled') {
+      setVideoError(createAdError(finished.errorCode ?? 'unknown', finished.error ?? 'An unknown error occurred while generating the video.'));
+    }
+  };
+
+  const runSceneClipJob = async (sceneKey: string, job: VideoJob) => {
+    const controller = new AbortController();
+    clipAbortRefs.current.get(sceneKey)?.abort();
+    clipAbortRefs.current.set(sceneKey, controller);
+    setSceneClips(prev => ({ ...prev, [sceneKey]: { state: 'running', job, videoUrl: null, error: null } }));
+
+    const finished = await pollVideoJob(job, {
+      signal: controller.signal,
+      onUpdate: (updated) => setSceneClips(prev => prev[sceneKey] ? { ...prev, [sceneKey]: { ...prev[sceneKey], job: updated } } : prev),
+    });
+    if (clipAbortRefs.current.get(sceneKey) !== controller) return;
+    clipAbortRefs.current.delete(sceneKey);
+    setSceneClips(prev => {
+      const { [sceneKey]: _, ...rest } = prev;
+      if (finished.state === 'cancelled') return rest;
+      return {
+        ...rest,
+        [sceneKey]: finished.state === 'succeeded' && finished.videoUrl
+          ? { state: 'succeeded', job: null, videoUrl: finished.videoUrl, error: null }
+          : { state: 'failed', job: null, videoUrl: null, error: finished.error ?? 'The clip could not be generated.' },
+      };
+    });
+  };
+
+  useEffect(() => {
+    // Pick up renders that were still running when the page was last closed.
+    if (resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+    const pending = getPendingVideoJobs();
+    if (pending.length === 0) return;
+    (async () => {
+      const pendingProjectId = pending.find(job => job.projectId)?.projectId;
+      if (pendingProjectId) {
+        try {
+          const project = await getProject(pendingProjectId);
+          if (project) handleOpenProject(project);
+        } catch (err) {
+          console.error("Failed to reopen the project for the pending video:", err);
+        }
+      }
+      pending.forEach(job => {
+        if (job.sceneKey) {
+          runSceneClipJob(job.sceneKey, job);
+        } else {
+          runVideoJob(job);
+        }
+      });
+    })();
+  }, []);
+
   const handleGenerateVideo = async () => {
-      if (!adScript || !imageFile) {
-        setVideoError("Cannot generate video without an ad script and product image.");
+      if (!adScript || !heroImageFile) {
+        setVideoError(new Error("Cannot generate video without an ad script and product image."));
         return;
       }
       
       setIsVideoLoading(true);
       setVideoError(null);
       setVideoUrl(null);
-      setVideoLoadingMessage(LOADING_MESSAGES[0]);
-
-      // Start cycling through loading messages
-      loadingIntervalRef.current = setInterval(() => {
-        setVideoLoadingMessage(prev => {
-          const currentIndex = LOADING_MESSAGES.indexOf(prev);
-          const nextIndex = (currentIndex + 1) % LOADING_MESSAGES.length;
-          return LOADING_MESSAGES[nextIndex];
-        });
-      }, 5000);
 
+      let job: VideoJob;
       try {
-        const sceneDescriptions = adScript.scenes.map(s => s.action).join('. ');
-        const videoPrompt = `
-          Create a dynamic, visually stunning 30-second commercial video based on this concept.
-          Title: ${adScript.title}
-          Tagline: ${adScript.tagline}
-          Key Visuals: ${sceneDescriptions}
-          The style should be modern, energetic, and cinematic, matching the product in the provided image.
-        `;
-        
-        const base64Image = await fileToBase64(imageFile);
-        const mimeType = imageFile.type;
-        const resultUrl = await generateAdVideo(videoPrompt, base64Image, mimeType);
-        setVideoUrl(resultUrl);
-
+        const hero = await toInlineImage(heroImageFile);
+        job = await startVideoJob(buildAdVideoPrompt(adScript, creativeBrief), hero.base64Image, hero.mimeType, projectId);
       } catch (err) {
           console.error(err);
-          setVideoError(err instanceof Error ? err.message : 'An unknown error occurred while generating the video.');
-      } finally {
+          setVideoError(err instanceof Error ? err : new Error('An unknown error occurred while generating the video.'));
           setIsVideoLoading(false);
-          if(loadingIntervalRef.current) {
-            clearInterval(loadingIntervalRef.current);
-          }
+          return;
       }
+      await runVideoJob(job);
+  };
+
+  const handleCancelVideo = () => {
+    videoAbortRef.current?.abort();
+  };
+
+  const generateSceneClips = async (sceneIndexes: number[]) => {
+    if (!adScript || !heroImageFile) return;
+    const keys = sceneIndexes.map(index => getSceneContentKey(adScript.scenes[index]));
+    setSceneClips(prev => {
+      const next = { ...prev };
+      keys.forEach(key => { next[key] = { state: 'running', job: null, videoUrl: null, error: null }; });
+      return next;
+    });
+
+    let hero: InlineImage;
+    try {
+      hero = await toInlineImage(heroImageFile);
+    } catch (err) {
+      console.error(err);
+      setSceneClips(prev => {
+        const next = { ...prev };
+        keys.forEach(key => { next[key] = { state: 'failed', job: null, videoUrl: null, error: 'Could not read the product image.' }; });
+        return next;
+      });
+      return;
+    }
+
+    // Submit one at a time so a quota error shows up before every scene has been sent.
+    for (const [i, sceneIndex] of sceneIndexes.entries()) {
+      const key = keys[i];
+      try {
+        const job = await startVideoJob(buildSceneClipPrompt(adScript, sceneIndex, creativeBrief), hero.base64Image, hero.mimeType, projectId, key);
+        runSceneClipJob(key, job);
+      } catch (err) {
+        console.error(err);
+        const message = err instanceof Error ? err.message : 'The clip could not be generated.';
+        setSceneClips(prev => ({ ...prev, [key]: { state: 'failed', job: null, videoUrl: null, error: message } }));
+      }
+    }
+  };
+
+  const handleGenerateAllSceneClips = () => {
+    if (!adScript) return;
+    const indexes = adScript.scenes
+      .map((scene, index) => ({ clip: getSceneClip(sceneClips, scene), index }))
+      .filter(({ clip }) => !clip || clip.state === 'failed')
+      .map(({ index }) => index);
+    generateSceneClips(indexes);
+  };
+
+  const handleCancelSceneClips = () => {
+    clipAbortRefs.current.forEach(controller => controller.abort());
+  };
+
+  const handleAssembledVideo = (url: string) => {
+    setVideoUrl(url);
+    setVideoError(null);
   };
 
   const handleReset = () => {
-    // Don't reset image if we are just creating a new ad for the same image
-    //setImageFile(null);
-    //setImagePreview(null);
+    // Don't reset the images or their profile if we are just creating a new ad for the same product
     setProductDescription('');
-    setAdScript(null);
+    setScriptHistory(EMPTY_SCRIPT_HISTORY);
+    setVariants([]);
+    setSelectedVariantIndex(null);
     setError(null);
-    setIsLoading(false);
+    setImportWarnings([]);
+    setStoryboard([]);
+    setReviews([]);
+    setSharedReviews([]);
+    handleCancelScript();
     setVideoUrl(null);
     setVideoError(null);
     setIsVideoLoading(false);
-    if(loadingIntervalRef.current) {
-        clearInterval(loadingIntervalRef.current);
+    setVideoJob(null);
+    if (videoAbortRef.current) {
+      videoAbortRef.current.abort();
+      videoAbortRef.current = null;
     }
+    clipAbortRefs.current.forEach(controller => controller.abort());
+    clipAbortRefs.current.clear();
+    setSceneClips({});
+    // Start a fresh project so the previous session stays in the history.
+    setProjectId(createProjectId());
   }
   
+  const handleOpenBatch = () => {
+    setError(null);
+    setHasBatch(true);
+    setIsBatchOpen(true);
+  };
+
+  // A batch result becomes a project of its own, with the catalog image as its only photo.
+  const handleOpenBatchResult = (imageFile: File, description: string, script: AdScript) => {
+    handleReset();
+    const image = toProductImageFile(imageFile);
+    replaceProductImages([image]);
+    setHeroImageId(image.id);
+    setProductDescription(description);
+    setScriptHistory(createScriptHistory(script, 'generated'));
+    setIsBatchOpen(false);
+  };
+
   const handleHardReset = () => {
       handleReset();
-      setImageFile(null);
-      setImagePreview(null);
+      replaceProductImages([]);
+      setHeroImageId(null);
+      setProductProfile(null);
   }
 
   return (
     <div className="min-h-screen bg-dark-bg text-light-text font-sans p-4 sm:p-6 md:p-8">
       <div className="max-w-4xl mx-auto">
+        <ProjectSidebar
+          isOpen={isSidebarOpen}
+          projects={projects}
+          currentProjectId={projectId}
+          onClose={() => setIsSidebarOpen(false)}
+          onOpen={(id) => {
+            const project = projects.find(p => p.id === id);
+            if (project) handleOpenProject(project);
+          }}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+        />
+        <button
+          onClick={() => setIsSidebarOpen(true)}
+          className="fixed top-4 left-4 z-20 flex items-center gap-2 bg-dark-card border border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text font-semibold py-2 px-3 rounded-lg transition-colors"
+        >
+          <FolderIcon className="h-5 w-5" />
+          <span>Projects</span>
+        </button>
         <header className="text-center mb-10">
           <div className="flex items-center justify-center gap-4 mb-4">
             <AppLogoIcon className="h-12 w-12 text-brand-purple" />
@@ -161,10 +651,32 @@ const App: React.FC = () => {
         </header>
 
         <main className="bg-dark-card rounded-2xl shadow-2xl shadow-black/20 overflow-hidden">
-          {!adScript && !isLoading && (
+          {hasBatch && (
+            <div className={isBatchOpen ? '' : 'hidden'}>
+              <BatchGenerator brief={creativeBrief} onOpenResult={handleOpenBatchResult} onClose={() => setIsBatchOpen(false)} />
+            </div>
+          )}
+
+          {!isBatchOpen && !adScript && variants.length === 0 && !isLoading && (
             <div className="p-8 grid md:grid-cols-2 gap-8">
               <div className="flex flex-col gap-6">
-                <ImageUploader onFileSelect={handleFileSelect} imagePreview={imagePreview} onClear={handleHardReset} />
+                <ImageUploader
+                  images={productImages}
+                  heroImageId={heroImage?.id ?? null}
+                  targetAspect={getFrameAspectRatio(creativeBrief)}
+                  onFilesSelect={handleFilesSelect}
+                  onReplace={handleReplaceProductImage}
+                  onMove={handleMoveProductImage}
+                  onSetHero={setHeroImageId}
+                  onRemove={handleRemoveProductImage}
+                  onClear={handleHardReset}
+                />
+                <ProductProfileEditor
+                  profile={productProfile}
+                  onChange={setProductProfile}
+                  onAnalyze={handleAnalyzeProduct}
+                  disabled={productImages.length === 0}
+                />
               </div>
               <div className="flex flex-col justify-center gap-6">
                  <div>
@@ -178,49 +690,148 @@ const App: React.FC = () => {
                       placeholder="e.g., A sleek, wireless headphone with noise-cancellation and 20-hour battery life."
                       value={productDescription}
                       onChange={(e) => setProductDescription(e.target.value)}
-                      disabled={!imageFile}
+                      disabled={productImages.length === 0}
                     />
                  </div>
+                 <BrandKitSelector
+                   kits={brandKits}
+                   selected={creativeBrief.brandKit}
+                   onSelect={(brandKit) => setCreativeBrief(prev => ({ ...prev, brandKit }))}
+                   onSave={handleSaveBrandKit}
+                   onDelete={handleDeleteBrandKit}
+                   disabled={productImages.length === 0}
+                 />
+                 <CreativeBriefForm brief={creativeBrief} onChange={setCreativeBrief} disabled={productImages.length === 0} />
+                 <div className="flex items-center justify-between gap-4">
+                    <label htmlFor="variant-count" className="text-sm font-medium text-medium-text">
+                      Concepts to compare
+                    </label>
+                    <select
+                      id="variant-count"
+                      className="bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple disabled:opacity-50"
+                      value={variantCount}
+                      onChange={(e) => setVariantCount(Number(e.target.value))}
+                      disabled={productImages.length === 0}
+                    >
+                      {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count === 1 ? '1 (single script)' : count}</option>
+                      ))}
+                    </select>
+                 </div>
                 <button
                   onClick={handleGenerateScript}
-                  disabled={!imageFile || isLoading}
+                  disabled={productImages.length === 0 || isLoading}
                   className="w-full flex items-center justify-center gap-2 bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 shadow-lg shadow-brand-purple/20"
                 >
                   <SparklesIcon className="h-5 w-5" />
                   <span>Generate Script</span>
                 </button>
+                <div className="flex items-center gap-3 text-xs text-medium-text uppercase">
+                  <div className="flex-1 border-t border-dark-border" />
+                  <span>or</span>
+                  <div className="flex-1 border-t border-dark-border" />
+                </div>
+                <ScriptImporter onImport={handleImportScript} />
+                <button onClick={handleOpenBatch} className="w-full flex items-center justify-center gap-2 border border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text font-semibold py-2 px-4 rounded-lg transition-colors duration-200">
+                  <FolderIcon className="h-5 w-5" />
+                  <span>{hasBatch ? 'Back to Batch' : 'Batch Generate from a Catalog CSV'}</span>
+                </button>
               </div>
             </div>
           )}
 
-          {isLoading && (
-            <div className="p-8 min-h-[400px] flex flex-col items-center justify-center">
-              <Loader />
-              <p className="mt-4 text-lg text-medium-text animate-pulse-fast">Generating your masterpiece...</p>
+          {!isBatchOpen && isLoading && (
+            <ScriptStreamPreview partial={streamingScript} targetDuration={creativeBrief.duration} onCancel={handleCancelScript} />
+          )}
+
+          {!isBatchOpen && error && !isLoading && (
+            <div className="m-8">
+              <ErrorPanel
+                error={error}
+                action="Script generation"
+                onRetry={handleGenerateScript}
+                onEdit={handleEditAfterError}
+                editLabel="Edit Description"
+              />
             </div>
           )}
 
-          {error && !isLoading && (
-             <div className="m-8 p-6 bg-red-900/50 border border-red-500 rounded-lg flex flex-col items-center justify-center text-center">
-                <AlertTriangleIcon className="h-10 w-10 text-red-400 mb-4" />
-                <h3 className="text-xl font-semibold text-red-300 mb-2">Oops! Something went wrong.</h3>
-                <p className="text-red-400">{error}</p>
-                 <button onClick={handleHardReset} className="mt-6 bg-brand-purple hover:bg-brand-purple-light text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                    Try Again
-                </button>
+          {!isBatchOpen && !adScript && variants.length > 0 && !isLoading && (
+            <VariantComparison
+              variants={variants}
+              targetDuration={creativeBrief.duration}
+              onSelect={handleSelectVariant}
+              onReset={handleReset}
+            />
+          )}
+
+          {!isBatchOpen && adScript && variants.length > 0 && !isLoading && (
+            <div className="px-4 sm:px-8 pt-4">
+              <button onClick={handleBackToVariants} className="text-sm text-brand-purple-light hover:text-light-text transition-colors">
+                &larr; Back to all {variants.length} concepts
+              </button>
             </div>
           )}
 
-          {adScript && !isLoading && (
+          {!isBatchOpen && adScript && hasBatch && !isLoading && (
+            <div className="px-4 sm:px-8 pt-4">
+              <button onClick={handleOpenBatch} className="text-sm text-brand-purple-light hover:text-light-text transition-colors">
+                &larr; Back to the batch
+              </button>
+            </div>
+          )}
+
+          {!isBatchOpen && adScript && importWarnings.length > 0 && !isLoading && (
+            <div className="mx-4 sm:mx-8 mt-4 p-3 bg-yellow-900/30 border border-yellow-600 rounded-lg text-sm text-yellow-300">
+              <div className="flex items-start justify-between gap-4">
+                <p className="font-semibold">Imported with {importWarnings.length} note{importWarnings.length === 1 ? '' : 's'}:</p>
+                <button onClick={() => setImportWarnings([])} className="text-yellow-400 hover:text-yellow-200" aria-label="Dismiss import notes">&times;</button>
+              </div>
+              <ul className="list-disc list-inside mt-1 space-y-0.5">
+                {importWarnings.map((warning, index) => <li key={index}>{formatImportIssue(warning)}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {!isBatchOpen && adScript && !isLoading && (
+            <VersionHistoryPanel
+              history={scriptHistory}
+              onUndo={() => setScriptHistory(undo)}
+              onRedo={() => setScriptHistory(redo)}
+              onRestore={(index) => setScriptHistory(history => restoreVersion(history, index))}
+            />
+          )}
+
+          {!isBatchOpen && adScript && !isLoading && (
             <AdDisplay 
               adScript={adScript} 
+              targetDuration={creativeBrief.duration}
+              brandKit={creativeBrief.brandKit}
+              onScriptChange={commitScript}
+              onRegenerateScene={handleRegenerateScene}
+              onReviewCompliance={handleReviewCompliance}
+              onRefineScript={handleRefineScript}
               onReset={handleReset} 
-              productImage={imagePreview!} 
+              reviews={reviews}
+              onReviewsChange={setReviews}
+              sharedReviews={sharedReviews}
+              versionNumber={getCurrentVersion(scriptHistory)?.number ?? null}
+              onShareForReview={handleShareForReview}
+              productImage={heroImage?.previewUrl ?? null} 
+              storyboard={storyboard}
+              onGenerateStoryboardFrame={handleGenerateStoryboardFrame}
               onGenerateVideo={handleGenerateVideo}
               isVideoLoading={isVideoLoading}
-              videoLoadingMessage={videoLoadingMessage}
+              videoJob={videoJob}
+              onCancelVideo={handleCancelVideo}
+              sceneClips={sceneClips}
+              onGenerateSceneClips={handleGenerateAllSceneClips}
+              onGenerateSceneClip={(index) => generateSceneClips([index])}
+              onCancelSceneClips={handleCancelSceneClips}
+              onAssembledVideo={handleAssembledVideo}
               videoUrl={videoUrl}
               videoError={videoError}
+              onDismissVideoError={() => setVideoError(null)}
             />
           )}
         </main>
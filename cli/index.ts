@@ -0,0 +1,147 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { loadEnv } from 'vite';
+import type { AdScript, InlineImage, PartialAdScript } from '../types';
+import { generateAdScript, generateAdVideo } from '../services/geminiService';
+import { setAdProvider } from '../services/adProvider';
+import { buildAdVideoPrompt } from '../services/videoJobManager';
+import { configureGeminiApiKey, downloadGeminiVideo } from '../services/providers/geminiProvider';
+import { getErrorCode, toErrorPayload, type AdErrorCode } from '../utils/adErrors';
+import { describeFormat } from '../utils/creativeBrief';
+import { getImageMimeType } from '../utils/imagePreprocessing';
+import { EXPORT_FORMATS, exportScript, toFileSlug } from '../utils/scriptExport';
+import { type CliOptions, USAGE, UsageError, parseCliOptions } from './options';
+
+const USAGE_EXIT_CODE = 2;
+
+// Listed in --help; keep the two in step.
+const EXIT_CODES: Record<AdErrorCode, number> = {
+  unknown: 1,
+  auth: 3,
+  quota: 4,
+  safety: 5,
+  'invalid-response': 6,
+  network: 7,
+  timeout: 8,
+  cancelled: 130,
+};
+
+const readImage = async (path: string): Promise<InlineImage> => {
+  const mimeType = getImageMimeType(path);
+  if (!mimeType) {
+    throw new UsageError(`"${path}" is not a supported image (JPEG, PNG, WebP, GIF, HEIC or TIFF).`);
+  }
+  try {
+    return { base64Image: (await readFile(path)).toString('base64'), mimeType };
+  } catch {
+    throw new UsageError(`Cannot read the image "${path}".`);
+  }
+};
+
+// Prints the title and each scene once, as they stream in.
+const createProgressLogger = (log: (message: string) => void) => {
+  let hasTitle = false;
+  let scenes = 0;
+  return (partial: PartialAdScript) => {
+    if (partial.title && !hasTitle) {
+      hasTitle = true;
+      log(`  "${partial.title}"`);
+    }
+    partial.scenes.slice(scenes).forEach(scene => log(`  Scene ${scene.sceneNumber} (${scene.duration}s): ${scene.setting}`));
+    scenes = Math.max(scenes, partial.scenes.length);
+  };
+};
+
+const writeExports = async (script: AdScript, options: CliOptions, baseName: string): Promise<string[]> =>
+  Promise.all(options.formats.map(async format => {
+    const { extension } = EXPORT_FORMATS.find(entry => entry.format === format)!;
+    const path = join(options.outDir, `${baseName}.${extension}`);
+    await writeFile(path, new Uint8Array(await exportScript(script, format).arrayBuffer()));
+    return path;
+  }));
+
+const renderVideo = async (script: AdScript, images: InlineImage[], options: CliOptions, baseName: string, signal: AbortSignal): Promise<string> => {
+  const [hero] = images;
+  const videoUrl = await generateAdVideo(buildAdVideoPrompt(script, options.brief), hero.base64Image, hero.mimeType, signal);
+  const response = await downloadGeminiVideo(videoUrl);
+  const path = join(options.outDir, `${baseName}.mp4`);
+  await writeFile(path, new Uint8Array(await response.arrayBuffer()));
+  return path;
+};
+
+const run = async (options: CliOptions, signal: AbortSignal): Promise<void> => {
+  const log = (message: string) => {
+    if (!options.quiet) process.stderr.write(`${message}\n`);
+  };
+
+  // Same settings as the dev server: the environment first, then .env.local and .env.
+  const env = loadEnv('production', process.cwd(), '');
+  const useMock = options.mock || (process.env.AD_PROVIDER ?? env.AD_PROVIDER)?.toLowerCase() === 'mock';
+  if (useMock && options.video) {
+    throw new UsageError("--video needs Gemini: the mock provider's placeholder video is recorded in a browser.");
+  }
+  setAdProvider(useMock ? 'mock' : 'gemini');
+  configureGeminiApiKey(process.env.GEMINI_API_KEY ?? env.GEMINI_API_KEY);
+
+  const images = await Promise.all(options.imagePaths.map(readImage));
+  await mkdir(options.outDir, { recursive: true });
+
+  log(`Writing a ${describeFormat(options.brief)} script${useMock ? ' with the mock provider' : ''}...`);
+  const script = await generateAdScript({ images, description: options.description, profile: null }, options.brief, {
+    signal,
+    onProgress: createProgressLogger(log),
+  });
+  const baseName = options.name ?? toFileSlug(script.title);
+  const files = await writeExports(script, options, baseName);
+
+  if (options.video) {
+    log("Rendering the video; this usually takes a few minutes...");
+    files.push(await renderVideo(script, images, options, baseName, signal));
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ title: script.title, tagline: script.tagline, files }, null, 2)}\n`);
+  } else {
+    files.forEach(file => process.stdout.write(`${file}\n`));
+  }
+};
+
+const main = async (): Promise<number> => {
+  let options: CliOptions | null;
+  try {
+    options = await parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+    return USAGE_EXIT_CODE;
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  try {
+    await run(options, controller.signal);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n`);
+      return USAGE_EXIT_CODE;
+    }
+    const code = getErrorCode(error);
+    const payload = toErrorPayload(error, "Script generation failed.");
+    const retryHint = payload.retryAfterSeconds ? ` Retry after ${payload.retryAfterSeconds}s.` : '';
+    process.stderr.write(`Error [${code}]: ${payload.error}${retryHint}\n`);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+    }
+    if (code === 'unknown') console.error(error);
+    return EXIT_CODES[code];
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
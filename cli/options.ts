@@ -0,0 +1,189 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import type { AdDuration, AdPlatform, BrandKit, CreativeBrief } from '../types';
+import { AD_DURATIONS, AD_PLATFORMS, DEFAULT_CREATIVE_BRIEF } from '../utils/creativeBrief';
+import { EXPORT_FORMATS, type ExportFormat } from '../utils/scriptExport';
+import { HttpError, requireBrief, toBrandKit } from '../server/requestValidation';
+
+export interface CliOptions {
+  imagePaths: string[];
+  description: string;
+  brief: CreativeBrief;
+  formats: ExportFormat[];
+  outDir: string;
+  // File name without extension; defaults to the script title.
+  name: string | null;
+  video: boolean;
+  mock: boolean;
+  json: boolean;
+  quiet: boolean;
+}
+
+// Bad arguments; reported with the usage text and exit code 2.
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run cli -- --image <path> [options]
+
+Generates an ad script (and optionally a video) from product photos.
+
+Product:
+  -i, --image <path>         Product photo; repeat for more angles, hero shot first (required)
+  -d, --description <text>   What the product is and what to highlight
+
+Brief (defaults match the app):
+      --brief <file.json>    Creative brief as JSON; the options below override it
+      --duration <seconds>   ${AD_DURATIONS.join(', ')}
+      --platform <name>      ${AD_PLATFORMS.map(p => p.value).join(', ')}
+      --tone <text>          e.g. "Humorous and playful"
+      --audience <text>      Target audience
+      --cta <text>           Call to action
+      --language <name>      Language of the script
+      --brand-kit <file>     Brand kit as JSON (name, voice, mandatoryTagline, disclaimer, bannedWords, colors, logoNotes)
+
+Output:
+  -f, --format <list>        Comma-separated: ${EXPORT_FORMATS.map(f => f.format).join(', ')} (default json)
+  -o, --out <dir>            Output folder (default: current folder)
+      --name <name>          File name without extension (default: from the script title)
+      --video                Also render the commercial as an MP4 (Gemini only; takes minutes)
+
+Other:
+      --mock                 Use the offline mock provider instead of Gemini
+      --json                 Print a JSON summary to stdout instead of the written paths
+  -q, --quiet                No progress messages on stderr
+  -h, --help                 Show this help
+
+GEMINI_API_KEY is read from the environment or .env.local, as for the app.
+Exit codes: 0 success, 2 bad arguments, 3 auth, 4 quota, 5 safety, 6 invalid-response,
+7 network, 8 timeout, 130 cancelled, 1 anything else.`;
+
+const readJsonFile = async (path: string, what: string): Promise<Record<string, unknown>> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    throw new UsageError(`Cannot read the ${what} file "${path}".`);
+  }
+  try {
+    const value = JSON.parse(text);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error();
+    return value;
+  } catch {
+    throw new UsageError(`The ${what} file "${path}" must contain a JSON object.`);
+  }
+};
+
+// Checks a brief or brand kit file with the API server's validation, reporting problems as usage errors.
+const validateFile = <T>(path: string, what: string, validate: () => T): T => {
+  try {
+    return validate();
+  } catch (error) {
+    if (error instanceof HttpError) throw new UsageError(`The ${what} file "${path}" is invalid: ${error.message}`);
+    throw error;
+  }
+};
+
+const parseDuration = (value: string): AdDuration => {
+  const duration = Number(value);
+  if (!AD_DURATIONS.includes(duration as AdDuration)) {
+    throw new UsageError(`--duration must be one of ${AD_DURATIONS.join(', ')}.`);
+  }
+  return duration as AdDuration;
+};
+
+const parsePlatform = (value: string): AdPlatform => {
+  if (!AD_PLATFORMS.some(p => p.value === value)) {
+    throw new UsageError(`--platform must be one of ${AD_PLATFORMS.map(p => p.value).join(', ')}.`);
+  }
+  return value as AdPlatform;
+};
+
+const parseFormats = (value: string): ExportFormat[] => {
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(format => !EXPORT_FORMATS.some(entry => entry.format === format));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new UsageError(`Unknown format "${unknown[0] ?? value}". Use ${EXPORT_FORMATS.map(f => f.format).join(', ')}.`);
+  }
+  return [...new Set(formats)] as ExportFormat[];
+};
+
+const loadBrandKit = async (path: string): Promise<BrandKit> => {
+  const data = await readJsonFile(path, 'brand kit');
+  const brandKit = validateFile(path, 'brand kit', () => toBrandKit(data));
+  if (!brandKit?.name.trim()) {
+    throw new UsageError(`The brand kit in "${path}" needs a name.`);
+  }
+  const now = Date.now();
+  return { ...brandKit, id: `cli-${now}`, createdAt: now, updatedAt: now };
+};
+
+const loadBrief = async (path: string): Promise<CreativeBrief> => {
+  const data = await readJsonFile(path, 'brief');
+  return validateFile(path, 'brief', () => requireBrief({ brief: { ...DEFAULT_CREATIVE_BRIEF, ...data } }));
+};
+
+// Returns null when only --help was asked for.
+export const parseCliOptions = async (argv: string[]): Promise<CliOptions | null> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: false,
+      options: {
+        image: { type: 'string', short: 'i', multiple: true },
+        description: { type: 'string', short: 'd' },
+        brief: { type: 'string' },
+        duration: { type: 'string' },
+        platform: { type: 'string' },
+        tone: { type: 'string' },
+        audience: { type: 'string' },
+        cta: { type: 'string' },
+        language: { type: 'string' },
+        'brand-kit': { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        out: { type: 'string', short: 'o' },
+        name: { type: 'string' },
+        video: { type: 'boolean' },
+        mock: { type: 'boolean' },
+        json: { type: 'boolean' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values } = parsed;
+  if (values.help) return null;
+
+  const imagePaths = values.image ?? [];
+  if (imagePaths.length === 0) {
+    throw new UsageError("At least one --image is required.");
+  }
+
+  const brief: CreativeBrief = values.brief ? await loadBrief(values.brief) : { ...DEFAULT_CREATIVE_BRIEF };
+  if (values.duration) brief.duration = parseDuration(values.duration);
+  if (values.platform) brief.platform = parsePlatform(values.platform);
+  if (values.tone) brief.tone = values.tone;
+  if (values.audience) brief.targetAudience = values.audience;
+  if (values.cta) brief.callToAction = values.cta;
+  if (values.language) brief.language = values.language;
+  if (values['brand-kit']) brief.brandKit = await loadBrandKit(values['brand-kit']);
+
+  return {
+    imagePaths,
+    description: values.description ?? '',
+    brief,
+    formats: values.format ? parseFormats(values.format) : ['json'],
+    outDir: values.out ?? '.',
+    name: values.name ?? null,
+    video: values.video ?? false,
+    mock: values.mock ?? false,
+    json: values.json ?? false,
+    quiet: values.quiet ?? false,
+  };
+};
@@ -1,58 +1,161 @@
-import React, { useState } from 'react';
-import { AdScript } from '../types';
-import { CopyIcon, CheckIcon, RedoIcon, FilmIcon, DownloadIcon, AlertTriangleIcon } from './icons';
-import Loader from './Loader';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AdScript, BrandKit, ComplianceFinding, RefinementMessage, ScriptReview, ScriptRevision, ScriptVersionOrigin, SharedReview, StoryboardFrame } from '../types';
+import { VideoJob } from '../services/videoJobManager';
+import { SceneClips } from '../services/sceneClips';
+import { CopyIcon, CheckIcon, RedoIcon, FilmIcon, DownloadIcon, AlertTriangleIcon, PlusIcon } from './icons';
+import VideoJobProgress from './VideoJobProgress';
+import SceneClipsPanel from './SceneClipsPanel';
+import AudioTrackPanel from './AudioTrackPanel';
+import StoryboardPanel from './StoryboardPanel';
+import CompliancePanel from './CompliancePanel';
+import RefinementPanel from './RefinementPanel';
+import ReviewPanel from './ReviewPanel';
+import ErrorPanel from './ErrorPanel';
+import SceneTimeline from './SceneTimeline';
+import SceneCard from './SceneCard';
+import EditableText from './EditableText';
+import ExportMenu from './ExportMenu';
+import { toPlainText } from '../utils/scriptExport';
+import { getVideoExtension } from '../utils/fileUtils';
+import { createBlankScene, deleteScene, insertScene, moveScene, updateScene } from '../utils/scriptEditing';
+import { checkBrandKit } from '../utils/brandKit';
+import { isFindingCurrent, runComplianceCheck, sortFindings } from '../utils/compliance';
+import { placeReviewComments, setCommentResolved } from '../utils/review';
+import { ComplianceSettings, loadComplianceSettings, saveComplianceSettings } from '../services/complianceSettings';
 
 interface AdDisplayProps {
   adScript: AdScript;
+  targetDuration: number;
+  brandKit: BrandKit | null;
+  // Origin and note describe the new version; plain edits leave them out.
+  onScriptChange: (script: AdScript, origin?: ScriptVersionOrigin, note?: string) => void;
+  onRegenerateScene: (sceneIndex: number) => Promise<void>;
+  onReviewCompliance: (script: AdScript, ruleSetIds: string[], competitors: string[]) => Promise<ComplianceFinding[]>;
+  onRefineScript: (script: AdScript, history: RefinementMessage[], instruction: string) => Promise<ScriptRevision>;
   onReset: () => void;
-  productImage: string;
+  reviews: ScriptReview[];
+  onReviewsChange: (reviews: ScriptReview[]) => void;
+  // Review pages shared from this project, and the version on screen.
+  sharedReviews: SharedReview[];
+  versionNumber: number | null;
+  onShareForReview: () => Promise<{ isVideoOmitted: boolean }>;
+  productImage: string | null;
+  storyboard: StoryboardFrame[];
+  onGenerateStoryboardFrame: (sceneIndex: number) => Promise<void>;
   onGenerateVideo: () => void;
   isVideoLoading: boolean;
-  videoLoadingMessage: string;
+  videoJob: VideoJob | null;
+  onCancelVideo: () => void;
+  sceneClips: SceneClips;
+  onGenerateSceneClips: () => void;
+  onGenerateSceneClip: (sceneIndex: number) => void;
+  onCancelSceneClips: () => void;
+  onAssembledVideo: (videoUrl: string) => void;
   videoUrl: string | null;
-  videoError: string | null;
+  videoError: Error | null;
+  onDismissVideoError: () => void;
 }
 
 const AdDisplay: React.FC<AdDisplayProps> = ({ 
-    adScript, onReset, productImage, onGenerateVideo, isVideoLoading, videoLoadingMessage, videoUrl, videoError 
+    adScript, targetDuration, brandKit, onScriptChange, onRegenerateScene, onReviewCompliance, onRefineScript, onReset, reviews, onReviewsChange, sharedReviews, versionNumber, onShareForReview, productImage, storyboard, onGenerateStoryboardFrame, onGenerateVideo, isVideoLoading, videoJob, onCancelVideo, videoUrl, videoError, onDismissVideoError,
+    sceneClips, onGenerateSceneClips, onGenerateSceneClip, onCancelSceneClips, onAssembledVideo 
 }) => {
   const [copied, setCopied] = useState(false);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [sceneError, setSceneError] = useState<string | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [videoExtension, setVideoExtension] = useState('mp4');
+  const brandIssues = useMemo(() => checkBrandKit(adScript, brandKit), [adScript, brandKit]);
+  const scriptBrandIssues = brandIssues.filter(issue => issue.sceneIndex === null);
+  const [complianceSettings, setComplianceSettings] = useState<ComplianceSettings>(loadComplianceSettings);
+  const [modelFindings, setModelFindings] = useState<ComplianceFinding[]>([]);
+  // Model findings are kept until the flagged words are edited away; rule findings are recomputed on every edit.
+  const complianceFindings = useMemo(() => sortFindings([
+    ...runComplianceCheck(adScript, complianceSettings.ruleSetIds, complianceSettings.competitors),
+    ...modelFindings.filter(finding => isFindingCurrent(finding, adScript)),
+  ]), [adScript, complianceSettings, modelFindings]);
 
-  const formatScriptForCopy = (script: AdScript): string => {
-    let text = `Title: ${script.title}\n`;
-    text += `Tagline: ${script.tagline}\n\n`;
-    text += "--- SCRIPT ---\n\n";
+  // The download is named after the video's actual format, which only the blob knows.
+  useEffect(() => {
+    setVideoExtension('mp4');
+    if (!videoUrl?.startsWith('blob:')) return;
+    let isCurrent = true;
+    fetch(videoUrl)
+      .then(response => response.blob())
+      .then(blob => { if (isCurrent) setVideoExtension(getVideoExtension(blob.type)); })
+      .catch(err => console.error("Failed to read the video's format:", err));
+    return () => { isCurrent = false; };
+  }, [videoUrl]);
 
-    script.scenes.forEach(scene => {
-      text += `SCENE ${scene.sceneNumber}\n`;
-      text += `SETTING: ${scene.setting}\n`;
-      text += `ACTION: ${scene.action}\n`;
-      text += `DIALOGUE: ${scene.dialogue}\n`;
-      text += `SOUND: ${scene.sound}\n\n`;
-    });
+  const reviewComments = useMemo(() => placeReviewComments(reviews, adScript), [reviews, adScript]);
+  const handleResolveComment = (commentId: string, resolved: boolean) => onReviewsChange(setCommentResolved(reviews, commentId, resolved));
 
-    return text;
+  const handleComplianceSettingsChange = (settings: ComplianceSettings) => {
+    setComplianceSettings(settings);
+    saveComplianceSettings(settings);
+  };
+
+  const handleModelReview = async () => {
+    const findings = await onReviewCompliance(adScript, complianceSettings.ruleSetIds, complianceSettings.competitors);
+    setModelFindings(findings);
   };
 
   const handleCopy = () => {
-    const scriptText = formatScriptForCopy(adScript);
+    const scriptText = toPlainText(adScript);
     navigator.clipboard.writeText(scriptText);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
+
+  const handleRegenerateScene = async (index: number) => {
+    setRegeneratingIndex(index);
+    setSceneError(null);
+    try {
+      await onRegenerateScene(index);
+    } catch (err) {
+      console.error(err);
+      setSceneError(err instanceof Error ? err.message : 'Failed to regenerate the scene.');
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
   
   return (
     <div className="p-4 sm:p-8">
       <div className="grid md:grid-cols-2 gap-8 mb-8">
         <div>
-          <img src={productImage} alt="Product" className="rounded-lg shadow-lg w-full h-auto object-contain max-h-80" />
+          {productImage ? (
+            <img src={productImage} alt="Product" className="rounded-lg shadow-lg w-full h-auto object-contain max-h-80" />
+          ) : (
+            <div className="rounded-lg border-2 border-dashed border-dark-border w-full h-60 flex items-center justify-center text-center text-sm text-medium-text p-4">
+              No product image attached. Upload one before importing a script to enable video generation.
+            </div>
+          )}
         </div>
         <div className="flex flex-col justify-center">
             <h2 className="text-3xl font-bold bg-gradient-to-r from-brand-purple-light to-purple-400 text-transparent bg-clip-text">
-                {adScript.title}
+                <EditableText singleLine value={adScript.title} onChange={(title) => onScriptChange({ ...adScript, title })} ariaLabel="title" />
             </h2>
-            <p className="text-xl mt-2 text-medium-text italic">"{adScript.tagline}"</p>
+            <div className="text-xl mt-2 text-medium-text italic">
+                <EditableText singleLine value={adScript.tagline} onChange={(tagline) => onScriptChange({ ...adScript, tagline })} ariaLabel="tagline" />
+            </div>
+            {brandKit && (
+                <p className={`mt-3 text-xs ${brandIssues.length > 0 ? 'text-yellow-300' : 'text-green-400'}`}>
+                    {brandIssues.length > 0
+                      ? `${brandIssues.length} ${brandKit.name} brand rule${brandIssues.length === 1 ? '' : 's'} broken`
+                      : `Follows the ${brandKit.name} brand kit`}
+                </p>
+            )}
+            {scriptBrandIssues.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-yellow-300">
+                    {scriptBrandIssues.map((issue, index) => (
+                      <li key={index} className="flex items-start gap-1">
+                        <AlertTriangleIcon className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        <span>{issue.message}</span>
+                      </li>
+                    ))}
+                </ul>
+            )}
             <div className="flex flex-wrap gap-4 mt-6">
                  <button
                     onClick={handleCopy}
@@ -61,6 +164,7 @@ const AdDisplay: React.FC<AdDisplayProps> = ({
                     {copied ? <CheckIcon className="h-5 w-5 text-green-400" /> : <CopyIcon className="h-5 w-5" />}
                     <span>{copied ? 'Copied!' : 'Copy Script'}</span>
                   </button>
+                  <ExportMenu adScript={adScript} />
                   <button
                     onClick={onGenerateVideo}
                     disabled={isVideoLoading}
@@ -80,31 +184,31 @@ const AdDisplay: React.FC<AdDisplayProps> = ({
         </div>
       </div>
 
+      <div className="my-8">
+        <StoryboardPanel adScript={adScript} frames={storyboard} canGenerate={!!productImage} onGenerateFrame={onGenerateStoryboardFrame} />
+      </div>
+
       {/* Video Section */}
       <div className="my-8">
         {isVideoLoading && (
-            <div className="p-8 min-h-[250px] flex flex-col items-center justify-center bg-gray-900/50 border border-dark-border rounded-lg text-center">
-              <Loader />
-              <p className="mt-4 text-lg text-light-text">{videoLoadingMessage}</p>
-            </div>
+            <VideoJobProgress job={videoJob} onCancel={onCancelVideo} />
         )}
         {videoError && !isVideoLoading && (
-            <div className="p-6 bg-red-900/50 border border-red-500 rounded-lg flex flex-col items-center justify-center text-center">
-                <AlertTriangleIcon className="h-10 w-10 text-red-400 mb-4" />
-                <h3 className="text-xl font-semibold text-red-300 mb-2">Video Generation Failed</h3>
-                <p className="text-red-400">{videoError}</p>
-                 <button onClick={onGenerateVideo} className="mt-6 bg-brand-purple hover:bg-brand-purple-light text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                    Retry Video Generation
-                </button>
-            </div>
+            <ErrorPanel
+              error={videoError}
+              action="Video generation"
+              onRetry={onGenerateVideo}
+              onEdit={onDismissVideoError}
+              editLabel="Back to Script"
+            />
         )}
         {videoUrl && !isVideoLoading && (
              <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
                 <h3 className="text-xl font-bold text-light-text mb-4 text-center">Your Video Ad is Ready!</h3>
-                <video src={videoUrl} controls autoPlay loop className="w-full rounded-lg mb-4" />
+                <video ref={setVideoElement} src={videoUrl} controls autoPlay loop className="w-full rounded-lg mb-4" />
                 <a
                     href={videoUrl}
-                    download={`ad-video-${adScript.title.replace(/\s+/g, '-')}.mp4`}
+                    download={`ad-video-${adScript.title.replace(/\s+/g, '-')}.${videoExtension}`}
                     className="w-full flex items-center justify-center gap-2 bg-brand-purple hover:bg-brand-purple-light text-white font-bold py-3 px-4 rounded-lg transition-colors"
                 >
                     <DownloadIcon className="h-5 w-5" />
@@ -112,33 +216,69 @@ const AdDisplay: React.FC<AdDisplayProps> = ({
                 </a>
             </div>
         )}
+        <SceneClipsPanel
+            adScript={adScript}
+            clips={sceneClips}
+            canGenerate={!!productImage}
+            onGenerateAll={onGenerateSceneClips}
+            onGenerateClip={onGenerateSceneClip}
+            onCancel={onCancelSceneClips}
+            onAssembled={onAssembledVideo}
+        />
+        <AudioTrackPanel adScript={adScript} videoElement={videoUrl && !isVideoLoading ? videoElement : null} />
       </div>
       
       <div className="space-y-6">
         <h3 className="text-2xl font-bold text-center text-light-text border-b border-dark-border pb-2">Commercial Script</h3>
-        {adScript.scenes.map((scene) => (
-          <div key={scene.sceneNumber} className="bg-gray-900/50 p-6 rounded-lg border border-dark-border">
-            <h4 className="text-lg font-bold text-brand-purple-light mb-4">SCENE {scene.sceneNumber}</h4>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4 text-sm">
-                <div>
-                    <strong className="block text-medium-text">Setting:</strong>
-                    <p>{scene.setting}</p>
-                </div>
-                 <div>
-                    <strong className="block text-medium-text">Sound:</strong>
-                    <p>{scene.sound}</p>
-                </div>
-                <div className="sm:col-span-2">
-                    <strong className="block text-medium-text">Action:</strong>
-                    <p>{scene.action}</p>
-                </div>
-                 <div className="sm:col-span-2">
-                    <strong className="block text-medium-text">Dialogue / Voiceover:</strong>
-                    <p className="italic">{scene.dialogue}</p>
-                </div>
-            </div>
-          </div>
+        <RefinementPanel adScript={adScript} onRefine={onRefineScript} onApply={(script, summary) => onScriptChange(script, 'refined', summary)} />
+        <CompliancePanel
+          findings={complianceFindings}
+          settings={complianceSettings}
+          onSettingsChange={handleComplianceSettingsChange}
+          onModelReview={handleModelReview}
+        />
+        <ReviewPanel
+          reviews={reviews}
+          scriptComments={reviewComments.filter(placed => placed.sceneIndex === null)}
+          onReviewsChange={onReviewsChange}
+          sharedReviews={sharedReviews}
+          versionNumber={versionNumber}
+          onShare={onShareForReview}
+        />
+        <SceneTimeline scenes={adScript.scenes} targetDuration={targetDuration} />
+        {sceneError && (
+            <p className="flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                <span>{sceneError}</span>
+            </p>
+        )}
+        {adScript.scenes.map((scene, index) => (
+          <SceneCard
+            key={index}
+            scene={scene}
+            isFirst={index === 0}
+            isLast={index === adScript.scenes.length - 1}
+            brandIssues={brandIssues.filter(issue => issue.sceneIndex === index)}
+            complianceFindings={complianceFindings.filter(finding => finding.sceneIndex === index)}
+            reviewComments={reviewComments.filter(placed => placed.sceneIndex === index)}
+            onResolveComment={handleResolveComment}
+            isRegenerating={regeneratingIndex === index}
+            isBusy={regeneratingIndex !== null}
+            onChange={(updated) => onScriptChange(updateScene(adScript, index, updated))}
+            onMoveUp={() => onScriptChange(moveScene(adScript, index, index - 1))}
+            onMoveDown={() => onScriptChange(moveScene(adScript, index, index + 1))}
+            onDelete={() => onScriptChange(deleteScene(adScript, index))}
+            onRegenerate={() => handleRegenerateScene(index)}
+          />
         ))}
+        <button
+          onClick={() => onScriptChange(insertScene(adScript, createBlankScene()))}
+          disabled={regeneratingIndex !== null}
+          className="w-full flex items-center justify-center gap-2 border-2 border-dashed border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text disabled:opacity-50 disabled:cursor-not-allowed font-semibold py-3 px-4 rounded-lg transition-colors duration-200"
+        >
+          <PlusIcon className="h-5 w-5" />
+          <span>Add Scene</span>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AdScript } from '../types';
+import { AudioPlayback, buildAudioTrack, encodeWav, playAudioTrack, renderAudioTrack } from '../utils/audioTrack';
+import { SPEECH_ENGINES, SpeechEngineId, getSpeechEngine } from '../utils/speechEngines';
+import { getSoundPlaceholder } from '../utils/soundLibrary';
+import { formatTimecode } from '../utils/sceneTiming';
+import { downloadBlob } from '../utils/fileUtils';
+import { toFileSlug } from '../utils/scriptExport';
+import { AlertTriangleIcon, DownloadIcon, MusicIcon, PlayIcon, StopIcon } from './icons';
+
+interface AudioTrackPanelProps {
+  adScript: AdScript;
+  // The video player to play in sync with the preview, when a video has been generated.
+  videoElement: HTMLVideoElement | null;
+}
+
+const AudioTrackPanel: React.FC<AudioTrackPanelProps> = ({ adScript, videoElement }) => {
+  const track = useMemo(() => buildAudioTrack(adScript), [adScript]);
+  const availableEngines = useMemo(() => SPEECH_ENGINES.filter(engine => engine.isAvailable()), []);
+  const [engineId, setEngineId] = useState<SpeechEngineId>(availableEngines[0]?.id ?? 'placeholder');
+  const [withVideo, setWithVideo] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const playbackRef = useRef<AudioPlayback | null>(null);
+  const engine = getSpeechEngine(engineId);
+
+  const stopPreview = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setIsPlaying(false);
+    if (videoElement && withVideo) videoElement.pause();
+  };
+
+  // Stop when the script changes underneath the preview or the panel goes away.
+  useEffect(() => stopPreview, [track]);
+
+  const handlePlay = () => {
+    setError(null);
+    try {
+      if (videoElement && withVideo) {
+        videoElement.loop = false;
+        videoElement.muted = true;
+        videoElement.currentTime = 0;
+        videoElement.play().catch(() => undefined);
+      }
+      playbackRef.current = playAudioTrack(track, engine, () => {
+        playbackRef.current = null;
+        setIsPlaying(false);
+      });
+      setIsPlaying(true);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Audio preview is not supported in this browser.');
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      const buffer = await renderAudioTrack(track, engine);
+      downloadBlob(encodeWav(buffer), `${toFileSlug(adScript.title)}-audio.wav`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to render the audio track.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const narrationByScene = (sceneNumber: number) => track.narration.filter(cue => cue.sceneNumber === sceneNumber);
+  const soundsByScene = (sceneNumber: number) => track.sounds.filter(cue => cue.sceneNumber === sceneNumber);
+
+  return (
+    <div className="mt-6 bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-bold text-light-text">
+            <MusicIcon className="h-5 w-5" />
+            <span>Audio Track</span>
+          </h3>
+          <p className="text-sm text-medium-text">
+            {track.narration.length} VO line{track.narration.length === 1 ? '' : 's'} and {track.sounds.length} sound placeholder{track.sounds.length === 1 ? '' : 's'}, {formatTimecode(track.duration)} total.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={engineId}
+            onChange={(e) => setEngineId(e.target.value as SpeechEngineId)}
+            disabled={isPlaying}
+            aria-label="Voice"
+            className="bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple disabled:opacity-50"
+          >
+            {availableEngines.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+          {videoElement && (
+            <label className="flex items-center gap-2 text-sm text-medium-text">
+              <input type="checkbox" checked={withVideo} onChange={(e) => setWithVideo(e.target.checked)} disabled={isPlaying} />
+              With video
+            </label>
+          )}
+          <button
+            onClick={isPlaying ? stopPreview : handlePlay}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            {isPlaying ? <StopIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+            <span>{isPlaying ? 'Stop' : 'Preview'}</span>
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            <span>{isExporting ? 'Rendering...' : 'Export WAV'}</span>
+          </button>
+        </div>
+      </div>
+
+      {!engine.canRender && (
+        <p className="mb-3 text-xs text-medium-text">
+          Browser voices can be previewed but not recorded, so the exported WAV uses the placeholder voice.
+        </p>
+      )}
+
+      <ul className="space-y-2 text-sm">
+        {adScript.scenes.map(scene => {
+          const narration = narrationByScene(scene.sceneNumber);
+          const sounds = soundsByScene(scene.sceneNumber);
+          return (
+            <li key={scene.sceneNumber} className="p-2 rounded-lg border border-dark-border">
+              <p className="text-xs font-semibold text-medium-text mb-1">
+                Scene {scene.sceneNumber} &middot; {formatTimecode(scene.startTime)}
+              </p>
+              {narration.length === 0 && <p className="text-xs text-medium-text italic">No voiceover</p>}
+              {narration.map((cue, index) => (
+                <p key={index} className={cue.fits ? 'text-light-text' : 'text-yellow-300'}>
+                  <span className="text-medium-text">{formatTimecode(cue.startTime)} VO:</span> {cue.text}
+                  {!cue.fits && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-xs">
+                      <AlertTriangleIcon className="h-3 w-3" />
+                      ~{cue.estimatedDuration}s read, runs past the scene
+                    </span>
+                  )}
+                </p>
+              ))}
+              {sounds.length > 0 && (
+                <p className="mt-1 text-xs text-medium-text">
+                  Sound: {sounds.map(cue => getSoundPlaceholder(cue.placeholderId)?.label).join(', ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AudioTrackPanel;
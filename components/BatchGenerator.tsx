@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AdScript, CreativeBrief, ProductInput } from '../types';
+import { generateAdScript } from '../services/geminiService';
+import { BatchRowStatus, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, QUEUED_STATUS, createBatchArchive, runBatch } from '../services/batchGenerator';
+import { CatalogParseResult, describeCatalogProduct, getImageKey, parseCatalogCsv, toCatalogImageFile } from '../utils/catalog';
+import { readZip } from '../utils/zipArchive';
+import { isImageFile, preprocessImage } from '../utils/imagePreprocessing';
+import { describeFormat } from '../utils/creativeBrief';
+import { downloadBlob, fileToBase64 } from '../utils/fileUtils';
+import { toFileSlug } from '../utils/scriptExport';
+import { AlertTriangleIcon, DownloadIcon, FolderIcon, SparklesIcon, UploadCloudIcon } from './icons';
+
+interface BatchGeneratorProps {
+  brief: CreativeBrief;
+  // Opens one result in the editor as a project of its own.
+  onOpenResult: (imageFile: File, description: string, script: AdScript) => void;
+  onClose: () => void;
+}
+
+const STATE_LABELS: Record<BatchRowStatus['state'], string> = {
+  queued: 'Queued',
+  running: 'Generating...',
+  waiting: 'Waiting to retry',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATE_CLASSES: Record<BatchRowStatus['state'], string> = {
+  queued: 'text-medium-text',
+  running: 'text-brand-purple-light animate-pulse',
+  waiting: 'text-yellow-300',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const buttonClassName = "flex items-center justify-center gap-2 border border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text font-semibold py-2 px-4 rounded-lg transition-colors duration-200 cursor-pointer";
+
+// Lets a file input pick a whole folder; the attribute is missing from React's types.
+const DIRECTORY_PROPS = { webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ brief, onOpenResult, onClose }) => {
+  const [catalog, setCatalog] = useState<CatalogParseResult | null>(null);
+  const [catalogName, setCatalogName] = useState('');
+  const [images, setImages] = useState<Map<string, File>>(new Map());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [statuses, setStatuses] = useState<BatchRowStatus[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Ticks the retry countdowns while the batch runs.
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const rows = catalog?.rows ?? [];
+  const findImage = (index: number) => images.get(getImageKey(rows[index].imageFilename)) ?? null;
+  const missingImages = rows.filter((_, index) => !findImage(index)).length;
+  const count = (state: BatchRowStatus['state']) => statuses.filter(status => status.state === state).length;
+  const rateLimited = statuses.find(status => status.state === 'waiting' && status.errorCode === 'quota');
+
+  const handleCatalogFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoadError(null);
+    try {
+      const result = parseCatalogCsv(await file.text());
+      setCatalog(result);
+      setCatalogName(file.name.replace(/\.[^.]+$/, ''));
+      setStatuses(result.rows.map(() => QUEUED_STATUS));
+    } catch (err) {
+      console.error(err);
+      setLoadError(err instanceof Error ? err.message : 'Failed to read the CSV.');
+    }
+  };
+
+  // Takes loose images, a picked folder or ZIP archives; later files replace earlier ones with the same name.
+  const handleImageFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setLoadError(null);
+    try {
+      const next = new Map(images);
+      for (const file of Array.from(files)) {
+        if (/\.zip$/i.test(file.name) || file.type === 'application/zip') {
+          (await readZip(file)).forEach(entry => {
+            const image = toCatalogImageFile(entry.name, entry.data);
+            if (image) next.set(getImageKey(image.name), image);
+          });
+        } else if (isImageFile(file)) {
+          next.set(getImageKey(file.name), file);
+        }
+      }
+      setImages(next);
+    } catch (err) {
+      console.error(err);
+      setLoadError(err instanceof Error ? err.message : 'Failed to read the images.');
+    }
+  };
+
+  const generate = async (index: number, signal?: AbortSignal): Promise<AdScript> => {
+    const row = rows[index];
+    const file = findImage(index);
+    if (!file) {
+      throw new Error(`No image named "${row.imageFilename}" was added.`);
+    }
+    const processed = await preprocessImage(file);
+    const product: ProductInput = {
+      images: [{ base64Image: await fileToBase64(processed), mimeType: processed.type }],
+      description: describeCatalogProduct(row),
+      profile: null,
+    };
+    return generateAdScript(product, brief, { signal });
+  };
+
+  const run = async (indexes: number[]) => {
+    if (indexes.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(indexes, generate, {
+        concurrency,
+        signal: controller.signal,
+        onUpdate: (index, status) => setStatuses(prev => prev.map((existing, i) => (i === index ? status : existing))),
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => run(rows.map((_, index) => index).filter(index => statuses[index]?.state !== 'succeeded'));
+
+  const handleRetryFailed = () =>
+    run(statuses.map((status, index) => (status.state === 'failed' || status.state === 'cancelled' ? index : -1)).filter(index => index !== -1));
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleExport = () => {
+    const blob = createBatchArchive(rows.map((row, index) => ({ row, status: statuses[index] ?? QUEUED_STATUS })));
+    downloadBlob(blob, `${toFileSlug(catalogName || 'catalog')}-scripts.zip`);
+  };
+
+  const describeStatus = (status: BatchRowStatus): string => {
+    if (status.state === 'waiting' && status.retryAt) {
+      return `${STATE_LABELS.waiting} in ${Math.max(0, Math.ceil((status.retryAt - now) / 1000))}s`;
+    }
+    if (status.state === 'running' && status.attempts > 1) {
+      return `${STATE_LABELS.running} (try ${status.attempts})`;
+    }
+    return STATE_LABELS[status.state];
+  };
+
+  return (
+    <div className="p-4 sm:p-8">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-light-text">Batch Generation</h2>
+          <p className="text-sm text-medium-text mt-1">
+            One script per product, each a {describeFormat(brief)} written with the current creative brief{brief.brandKit ? ` and the ${brief.brandKit.name} brand kit` : ''}.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-sm text-brand-purple-light hover:text-light-text transition-colors">
+          &larr; Back
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className={buttonClassName}>
+            <UploadCloudIcon className="h-5 w-5" />
+            <span>{catalog ? `${catalogName}.csv: ${rows.length} products` : 'Choose Catalog CSV'}</span>
+            <input type="file" accept=".csv,text/csv" className="sr-only" disabled={isRunning} onChange={(e) => { handleCatalogFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+          <p className="mt-1 text-xs text-gray-500">Columns: SKU, name, description, image filename.</p>
+        </div>
+        <div>
+          <div className="flex gap-2">
+            <label className={`${buttonClassName} flex-1`}>
+              <UploadCloudIcon className="h-5 w-5" />
+              <span>Images or ZIP</span>
+              <input type="file" multiple accept="image/*,.heic,.heif,.tif,.tiff,.zip,application/zip" className="sr-only" disabled={isRunning} onChange={(e) => { handleImageFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+            <label className={`${buttonClassName} flex-1`}>
+              <FolderIcon className="h-5 w-5" />
+              <span>Folder</span>
+              <input type="file" {...DIRECTORY_PROPS} className="sr-only" disabled={isRunning} onChange={(e) => { handleImageFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {images.size} image{images.size === 1 ? '' : 's'} added{rows.length > 0 ? `; ${rows.length - missingImages} of ${rows.length} products matched` : ''}.
+          </p>
+        </div>
+      </div>
+
+      {loadError && (
+        <p className="mb-4 flex items-center gap-2 text-sm text-red-400" role="alert">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{loadError}</span>
+        </p>
+      )}
+
+      {catalog && catalog.issues.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-600 rounded-lg text-sm text-yellow-300">
+          <p className="font-semibold">{catalog.issues.length} row{catalog.issues.length === 1 ? '' : 's'} skipped:</p>
+          <ul className="list-disc list-inside mt-1 space-y-0.5 max-h-24 overflow-y-auto">
+            {catalog.issues.map((issue, index) => <li key={index}>Row {issue.rowNumber}: {issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {catalog && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-medium-text">
+              {count('succeeded')} done &middot; {count('failed')} failed &middot; {count('running')} running &middot; {count('queued') + count('waiting')} to go
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="batch-concurrency" className="text-sm text-medium-text">At a time</label>
+              <select
+                id="batch-concurrency"
+                className="bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple disabled:opacity-50"
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+              >
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              {isRunning ? (
+                <button onClick={handleCancel} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                  Cancel
+                </button>
+              ) : (
+                <>
+                  {(count('failed') > 0 || count('cancelled') > 0) && (
+                    <button onClick={handleRetryFailed} className={buttonClassName}>Retry Failed</button>
+                  )}
+                  <button
+                    onClick={handleStart}
+                    disabled={count('succeeded') === rows.length}
+                    className="flex items-center gap-2 bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    <SparklesIcon className="h-4 w-4" />
+                    <span>{count('succeeded') > 0 ? 'Generate Remaining' : `Generate ${rows.length} Scripts`}</span>
+                  </button>
+                </>
+              )}
+              <button onClick={handleExport} disabled={count('succeeded') === 0} className={`${buttonClassName} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                <DownloadIcon className="h-4 w-4" />
+                <span>Export ZIP</span>
+              </button>
+            </div>
+          </div>
+
+          {isRunning && rateLimited && (
+            <p className="mb-3 flex items-center gap-2 text-sm text-yellow-300">
+              <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+              <span>Rate limit reached. Paused until {new Date(rateLimited.retryAt ?? now).toLocaleTimeString()}, then continuing with fewer requests at a time.</span>
+            </p>
+          )}
+
+          <div className="max-h-[32rem] overflow-y-auto border border-dark-border rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="sticky top-0 bg-dark-card text-medium-text">
+                <tr>
+                  <th className="p-2">SKU</th>
+                  <th className="p-2">Product</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const status = statuses[index] ?? QUEUED_STATUS;
+                  const image = findImage(index);
+                  return (
+                    <tr key={row.sku} className="border-t border-dark-border align-top">
+                      <td className="p-2 font-mono text-xs text-light-text">{row.sku}</td>
+                      <td className="p-2">
+                        <p className="text-light-text">{status.script?.title ?? (row.name || row.sku)}</p>
+                        {!image && <p className="text-xs text-yellow-300">Image "{row.imageFilename}" not added</p>}
+                      </td>
+                      <td className="p-2">
+                        <p className={STATE_CLASSES[status.state]}>{describeStatus(status)}</p>
+                        {status.error && status.state !== 'succeeded' && <p className="text-xs text-red-400">{status.error}</p>}
+                      </td>
+                      <td className="p-2 text-right">
+                        {status.script && image && (
+                          <button onClick={() => onOpenResult(image, describeCatalogProduct(row), status.script!)} className="text-xs text-brand-purple-light hover:text-light-text transition-colors">
+                            Open
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchGenerator;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { BrandKit, BrandKitData } from '../types';
+import { EMPTY_BRAND_KIT } from '../utils/brandKit';
+import { AlertTriangleIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+
+interface BrandKitManagerProps {
+  kits: BrandKit[];
+  initialKitId: string | null;
+  onSave: (id: string | null, data: BrandKitData) => Promise<BrandKit>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// List fields are edited as comma-separated text and split on save.
+interface BrandKitForm {
+  name: string;
+  voice: string;
+  mandatoryTagline: string;
+  disclaimer: string;
+  bannedWords: string;
+  colors: string;
+  logoNotes: string;
+}
+
+const toForm = (kit: BrandKitData): BrandKitForm => ({
+  ...kit,
+  bannedWords: kit.bannedWords.join(', '),
+  colors: kit.colors.join(', '),
+});
+
+const splitList = (text: string): string[] => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const fromForm = (form: BrandKitForm): BrandKitData => ({
+  name: form.name.trim(),
+  voice: form.voice.trim(),
+  mandatoryTagline: form.mandatoryTagline.trim(),
+  disclaimer: form.disclaimer.trim(),
+  bannedWords: splitList(form.bannedWords),
+  colors: splitList(form.colors),
+  logoNotes: form.logoNotes.trim(),
+});
+
+const fieldClassName = "w-full bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple transition duration-200 placeholder:text-gray-500";
+const labelClassName = "block text-xs font-medium text-medium-text mb-1";
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, initialKitId, onSave, onDelete, onClose }) => {
+  const initialKit = kits.find(kit => kit.id === initialKitId) ?? null;
+  const [editingId, setEditingId] = useState<string | null>(initialKit?.id ?? null);
+  const [form, setForm] = useState<BrandKitForm>(toForm(initialKit ?? EMPTY_BRAND_KIT));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const edit = (kit: BrandKit | null) => {
+    setEditingId(kit?.id ?? null);
+    setForm(toForm(kit ?? EMPTY_BRAND_KIT));
+    setError(null);
+  };
+
+  const update = (key: keyof BrandKitForm, value: string) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    const data = fromForm(form);
+    if (!data.name) {
+      setError('Give the brand kit a name.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      const saved = await onSave(editingId, data);
+      setEditingId(saved.id);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save the brand kit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (kit: BrandKit) => {
+    if (!window.confirm(`Delete the "${kit.name}" brand kit?`)) return;
+    try {
+      await onDelete(kit.id);
+      if (kit.id === editingId) edit(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete the brand kit.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Brand kits">
+      <div className="bg-dark-card border border-dark-border rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-light-text">Brand Kits</h3>
+          <button onClick={onClose} className="text-medium-text hover:text-light-text" aria-label="Close brand kits">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={() => edit(null)}
+              className={`flex items-center gap-2 text-sm font-semibold py-2 px-3 rounded-lg border border-dashed transition-colors ${editingId === null ? 'border-brand-purple text-light-text' : 'border-dark-border text-medium-text hover:text-light-text'}`}
+            >
+              <PlusIcon className="h-4 w-4" />
+              <span>New brand kit</span>
+            </button>
+            {kits.map(kit => (
+              <div
+                key={kit.id}
+                className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-sm ${kit.id === editingId ? 'bg-brand-purple/20 text-light-text' : 'text-medium-text hover:bg-gray-800'}`}
+              >
+                <button onClick={() => edit(kit)} className="flex-1 text-left truncate">{kit.name}</button>
+                <button onClick={() => handleDelete(kit)} className="text-medium-text hover:text-red-400" aria-label={`Delete ${kit.name}`}>
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label htmlFor="kit-name" className={labelClassName}>Brand Name</label>
+              <input id="kit-name" type="text" className={fieldClassName} value={form.name} onChange={(e) => update('name', e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="kit-voice" className={labelClassName}>Brand Voice</label>
+              <textarea
+                id="kit-voice"
+                rows={2}
+                className={fieldClassName}
+                placeholder="e.g., Confident and warm; plain words, no jargon, never sarcastic"
+                value={form.voice}
+                onChange={(e) => update('voice', e.target.value)}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="kit-tagline" className={labelClassName}>Mandatory Tagline</label>
+              <input id="kit-tagline" type="text" className={fieldClassName} value={form.mandatoryTagline} onChange={(e) => update('mandatoryTagline', e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="kit-disclaimer" className={labelClassName}>Mandatory Disclaimer</label>
+              <textarea id="kit-disclaimer" rows={2} className={fieldClassName} value={form.disclaimer} onChange={(e) => update('disclaimer', e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="kit-banned" className={labelClassName}>Banned Words (comma-separated)</label>
+              <input id="kit-banned" type="text" className={fieldClassName} placeholder="e.g., cheap, guaranteed, miracle" value={form.bannedWords} onChange={(e) => update('bannedWords', e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="kit-colors" className={labelClassName}>Colors (comma-separated)</label>
+              <input id="kit-colors" type="text" className={fieldClassName} placeholder="e.g., #0A2540, coral" value={form.colors} onChange={(e) => update('colors', e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="kit-logo" className={labelClassName}>Logo Notes</label>
+              <input id="kit-logo" type="text" className={fieldClassName} placeholder="e.g., White wordmark, bottom right" value={form.logoNotes} onChange={(e) => update('logoNotes', e.target.value)} />
+            </div>
+
+            {error && (
+              <p className="col-span-2 flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </p>
+            )}
+
+            <div className="col-span-2 flex justify-end gap-2">
+              <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                Done
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Brand Kit'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
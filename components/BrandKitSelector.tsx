@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { BrandKit, BrandKitData } from '../types';
+import BrandKitManager from './BrandKitManager';
+
+interface BrandKitSelectorProps {
+  kits: BrandKit[];
+  selected: BrandKit | null;
+  onSelect: (kit: BrandKit | null) => void;
+  onSave: (id: string | null, data: BrandKitData) => Promise<BrandKit>;
+  onDelete: (id: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+const BrandKitSelector: React.FC<BrandKitSelectorProps> = ({ kits, selected, onSelect, onSave, onDelete, disabled }) => {
+  const [isManaging, setIsManaging] = useState(false);
+
+  return (
+    <div>
+      <label htmlFor="brand-kit" className="block text-sm font-medium text-medium-text mb-2">Brand Kit</label>
+      <div className="flex gap-2">
+        <select
+          id="brand-kit"
+          className="flex-1 bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple disabled:opacity-50"
+          value={selected?.id ?? ''}
+          onChange={(e) => onSelect(kits.find(kit => kit.id === e.target.value) ?? null)}
+          disabled={disabled}
+        >
+          <option value="">No brand kit</option>
+          {kits.map(kit => (
+            <option key={kit.id} value={kit.id}>{kit.name}</option>
+          ))}
+          {/* A kit saved with an opened project may since have been deleted. */}
+          {selected && !kits.some(kit => kit.id === selected.id) && (
+            <option value={selected.id}>{selected.name} (deleted)</option>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsManaging(true)}
+          disabled={disabled}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors"
+        >
+          Manage
+        </button>
+      </div>
+      {isManaging && (
+        <BrandKitManager
+          kits={kits}
+          initialKitId={selected?.id ?? null}
+          onSave={onSave}
+          onDelete={onDelete}
+          onClose={() => setIsManaging(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BrandKitSelector;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ComplianceFinding, ComplianceSeverity } from '../types';
+
+const SEVERITY_STYLES: Record<ComplianceSeverity, string> = {
+  high: 'bg-red-900/60 text-red-300 border-red-600',
+  medium: 'bg-yellow-900/50 text-yellow-300 border-yellow-600',
+  low: 'bg-blue-900/50 text-blue-300 border-blue-600',
+};
+
+interface ComplianceFindingListProps {
+  findings: ComplianceFinding[];
+  // Prefix each finding with where it is; off when the list already sits on its scene.
+  showLocation?: boolean;
+}
+
+const describeLocation = (finding: ComplianceFinding) =>
+  finding.sceneIndex === null ? finding.field : `Scene ${finding.sceneIndex + 1} ${finding.field}`;
+
+const ComplianceFindingList: React.FC<ComplianceFindingListProps> = ({ findings, showLocation }) => (
+  <ul className="space-y-2 text-sm">
+    {findings.map((finding, index) => (
+      <li key={index} className="flex items-start gap-2">
+        <span className={`flex-shrink-0 border rounded px-1.5 py-0.5 text-[10px] font-bold uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+          {finding.severity}
+        </span>
+        <div className="text-light-text">
+          <p>
+            <span className="font-semibold">{finding.category}</span>
+            {showLocation && <span className="text-medium-text"> &middot; {describeLocation(finding)}</span>}
+            {finding.excerpt && <span className="text-medium-text"> &middot; &ldquo;{finding.excerpt}&rdquo;</span>}
+            {finding.source === 'model' && <span className="ml-2 text-xs text-brand-purple-light">model review</span>}
+          </p>
+          <p className="text-medium-text">{finding.message}</p>
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ComplianceFindingList;
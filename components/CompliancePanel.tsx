@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ComplianceFinding } from '../types';
+import { ComplianceSettings } from '../services/complianceSettings';
+import { COMPLIANCE_RULE_SETS } from '../utils/compliance';
+import ComplianceFindingList from './ComplianceFindingList';
+import { AlertTriangleIcon, CheckIcon, SparklesIcon } from './icons';
+
+interface CompliancePanelProps {
+  findings: ComplianceFinding[];
+  settings: ComplianceSettings;
+  onSettingsChange: (settings: ComplianceSettings) => void;
+  onModelReview: () => Promise<void>;
+}
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ findings, settings, onSettingsChange, onModelReview }) => {
+  const [competitorsText, setCompetitorsText] = useState(settings.competitors.join(', '));
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  const toggleRuleSet = (id: string) => {
+    const ruleSetIds = settings.ruleSetIds.includes(id)
+      ? settings.ruleSetIds.filter(existing => existing !== id)
+      : [...settings.ruleSetIds, id];
+    onSettingsChange({ ...settings, ruleSetIds });
+  };
+
+  const handleCompetitorsChange = (text: string) => {
+    setCompetitorsText(text);
+    onSettingsChange({ ...settings, competitors: text.split(',').map(name => name.trim()).filter(Boolean) });
+  };
+
+  const handleModelReview = async () => {
+    setReviewError(null);
+    setIsReviewing(true);
+    try {
+      await onModelReview();
+    } catch (err) {
+      console.error(err);
+      setReviewError(err instanceof Error ? err.message : 'The model review failed.');
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const counts = (['high', 'medium', 'low'] as const).map(severity => ({
+    severity,
+    count: findings.filter(finding => finding.severity === severity).length,
+  })).filter(({ count }) => count > 0);
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-light-text">Compliance Check</h3>
+          <p className="text-sm text-medium-text">
+            {findings.length === 0
+              ? 'No risky claims found by the enabled rules.'
+              : `${findings.length} possible issue${findings.length === 1 ? '' : 's'}: ${counts.map(({ severity, count }) => `${count} ${severity}`).join(', ')}.`}
+          </p>
+        </div>
+        <button
+          onClick={handleModelReview}
+          disabled={isReviewing}
+          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          title="Send the script to the model for a second opinion"
+        >
+          <SparklesIcon className={`h-4 w-4 ${isReviewing ? 'animate-pulse' : ''}`} />
+          <span>{isReviewing ? 'Reviewing...' : 'Model Review'}</span>
+        </button>
+      </div>
+
+      <details className="mb-3 text-sm">
+        <summary className="cursor-pointer text-medium-text hover:text-light-text">Rule sets and competitors</summary>
+        <div className="mt-3 grid sm:grid-cols-2 gap-4">
+          {(['market', 'category'] as const).map(kind => (
+            <fieldset key={kind}>
+              <legend className="text-xs font-medium text-medium-text mb-1">{kind === 'market' ? 'Markets' : 'Categories'}</legend>
+              {COMPLIANCE_RULE_SETS.filter(set => set.kind === kind).map(set => (
+                <label key={set.id} className="flex items-center gap-2 text-light-text">
+                  <input type="checkbox" checked={settings.ruleSetIds.includes(set.id)} onChange={() => toggleRuleSet(set.id)} />
+                  <span>{set.label}</span>
+                </label>
+              ))}
+            </fieldset>
+          ))}
+          <div className="sm:col-span-2">
+            <label htmlFor="compliance-competitors" className="block text-xs font-medium text-medium-text mb-1">Competitor names (comma-separated)</label>
+            <input
+              id="compliance-competitors"
+              type="text"
+              className="w-full bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple"
+              value={competitorsText}
+              onChange={(e) => handleCompetitorsChange(e.target.value)}
+            />
+          </div>
+        </div>
+      </details>
+
+      {reviewError && (
+        <p className="mb-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{reviewError}</span>
+        </p>
+      )}
+
+      {findings.length > 0 ? (
+        <ComplianceFindingList findings={findings} showLocation />
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-green-400">
+          <CheckIcon className="h-4 w-4" />
+          <span>Nothing flagged.</span>
+        </p>
+      )}
+      <p className="mt-3 text-xs text-medium-text">These checks are a first pass, not legal advice.</p>
+    </div>
+  );
+};
+
+export default CompliancePanel;
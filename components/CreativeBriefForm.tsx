@@ -0,0 +1,100 @@
+import React from 'react';
+import { AdDuration, AdPlatform, CreativeBrief } from '../types';
+import { AD_DURATIONS, AD_LANGUAGES, AD_PLATFORMS, AD_TONES } from '../utils/creativeBrief';
+
+interface CreativeBriefFormProps {
+  brief: CreativeBrief;
+  onChange: (brief: CreativeBrief) => void;
+  disabled?: boolean;
+}
+
+const fieldClassName = "w-full bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple transition duration-200 placeholder:text-gray-500 disabled:opacity-50";
+const labelClassName = "block text-xs font-medium text-medium-text mb-1";
+
+const CreativeBriefForm: React.FC<CreativeBriefFormProps> = ({ brief, onChange, disabled }) => {
+  const update = <K extends keyof CreativeBrief>(key: K, value: CreativeBrief[K]) => {
+    onChange({ ...brief, [key]: value });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="grid grid-cols-2 gap-3">
+      <legend className="block text-sm font-medium text-medium-text mb-2">Creative Brief</legend>
+      <div>
+        <label htmlFor="brief-duration" className={labelClassName}>Duration</label>
+        <select
+          id="brief-duration"
+          className={fieldClassName}
+          value={brief.duration}
+          onChange={(e) => update('duration', Number(e.target.value) as AdDuration)}
+        >
+          {AD_DURATIONS.map(duration => (
+            <option key={duration} value={duration}>{duration} seconds</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="brief-platform" className={labelClassName}>Platform</label>
+        <select
+          id="brief-platform"
+          className={fieldClassName}
+          value={brief.platform}
+          onChange={(e) => update('platform', e.target.value as AdPlatform)}
+        >
+          {AD_PLATFORMS.map(platform => (
+            <option key={platform.value} value={platform.value}>{platform.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="brief-tone" className={labelClassName}>Tone</label>
+        <select
+          id="brief-tone"
+          className={fieldClassName}
+          value={brief.tone}
+          onChange={(e) => update('tone', e.target.value)}
+        >
+          {AD_TONES.map(tone => (
+            <option key={tone} value={tone}>{tone}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="brief-language" className={labelClassName}>Language</label>
+        <select
+          id="brief-language"
+          className={fieldClassName}
+          value={brief.language}
+          onChange={(e) => update('language', e.target.value)}
+        >
+          {AD_LANGUAGES.map(language => (
+            <option key={language} value={language}>{language}</option>
+          ))}
+        </select>
+      </div>
+      <div className="col-span-2">
+        <label htmlFor="brief-audience" className={labelClassName}>Target Audience</label>
+        <input
+          id="brief-audience"
+          type="text"
+          className={fieldClassName}
+          placeholder="e.g., Busy young professionals who commute daily"
+          value={brief.targetAudience}
+          onChange={(e) => update('targetAudience', e.target.value)}
+        />
+      </div>
+      <div className="col-span-2">
+        <label htmlFor="brief-cta" className={labelClassName}>Call to Action</label>
+        <input
+          id="brief-cta"
+          type="text"
+          className={fieldClassName}
+          placeholder="e.g., Shop now at example.com"
+          value={brief.callToAction}
+          onChange={(e) => update('callToAction', e.target.value)}
+        />
+      </div>
+    </fieldset>
+  );
+};
+
+export default CreativeBriefForm;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Renders a single-line input instead of a textarea.
+  singleLine?: boolean;
+  className?: string;
+  placeholder?: string;
+  ariaLabel: string;
+}
+
+/**
+ * Displays text that turns into an input when clicked. Enter (or Ctrl+Enter for multi-line)
+ * or blurring commits the edit; Escape cancels it.
+ */
+const EditableText: React.FC<EditableTextProps> = ({ value, onChange, singleLine, className = '', placeholder = 'Click to edit', ariaLabel }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(value);
+  }, [value, isEditing]);
+
+  useEffect(() => {
+    if (isEditing) inputRef.current?.focus();
+  }, [isEditing]);
+
+  const commit = () => {
+    setIsEditing(false);
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== value) onChange(trimmed);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setDraft(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      cancel();
+    } else if (e.key === 'Enter' && (singleLine || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  if (isEditing) {
+    const inputClassName = `w-full bg-gray-900 text-light-text border border-brand-purple rounded p-1 focus:outline-none focus:ring-2 focus:ring-brand-purple ${className}`;
+    return singleLine ? (
+      <input
+        ref={inputRef}
+        aria-label={ariaLabel}
+        className={inputClassName}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+      />
+    ) : (
+      <textarea
+        ref={inputRef}
+        aria-label={ariaLabel}
+        rows={3}
+        className={inputClassName}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+      />
+    );
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label={`Edit ${ariaLabel}`}
+      title="Click to edit"
+      className={`block cursor-text rounded hover:bg-white/5 hover:outline hover:outline-1 hover:outline-dark-border ${className}`}
+      onClick={() => setIsEditing(true)}
+      onKeyDown={(e) => { if (e.key === 'Enter') setIsEditing(true); }}
+    >
+      {value || <span className="text-gray-500">{placeholder}</span>}
+    </span>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { AdErrorCode, getErrorCode, AdServiceError } from '../utils/adErrors';
+import { AlertTriangleIcon } from './icons';
+
+interface ErrorPanelProps {
+  error: Error;
+  // What failed, e.g. "Script generation"; used in the heading of errors without a more specific one.
+  action: string;
+  onRetry: () => void;
+  // Back to editing with everything kept, e.g. to change the description after a safety block.
+  onEdit: () => void;
+  editLabel: string;
+}
+
+const TITLES: Record<AdErrorCode, string | null> = {
+  auth: 'API key problem',
+  quota: 'Rate limit reached',
+  safety: 'Blocked by safety filters',
+  'invalid-response': 'The model returned an unusable answer',
+  network: 'Connection problem',
+  timeout: 'The request timed out',
+  cancelled: null,
+  unknown: null,
+};
+
+const HINTS: Record<AdErrorCode, string> = {
+  auth: 'Check that GEMINI_API_KEY in .env.local is a valid Gemini API key, then restart the server and try again.',
+  quota: 'Too many requests were made in a short time, or the quota for your plan is used up.',
+  safety: 'Nothing will change by retrying the same input. Edit the product description or brief to avoid the blocked content, then generate again.',
+  'invalid-response': 'This happens now and then. Trying again usually works.',
+  network: 'Check your internet connection and that the AI Ad Studio server is still running.',
+  timeout: 'The model is slow right now. Try again; a shorter commercial or fewer variants can help.',
+  cancelled: '',
+  unknown: 'Your inputs are kept, so you can try again or change them first.',
+};
+
+// Counts down from the retry-after the API sent, so the user knows when a retry can succeed.
+const useCountdown = (error: Error): number => {
+  const [remaining, setRemaining] = useState(0);
+  useEffect(() => {
+    const seconds = error instanceof AdServiceError ? error.retryAfterSeconds : null;
+    if (!seconds) {
+      setRemaining(0);
+      return;
+    }
+    const deadline = Date.now() + seconds * 1000;
+    const tick = () => setRemaining(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [error]);
+  return remaining;
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, action, onRetry, onEdit, editLabel }) => {
+  const code = getErrorCode(error);
+  const remaining = useCountdown(error);
+  const isSafety = code === 'safety';
+
+  const primaryClassName = "bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors";
+  const secondaryClassName = "border border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text font-semibold py-2 px-4 rounded-lg transition-colors";
+
+  return (
+    <div className="p-6 bg-red-900/50 border border-red-500 rounded-lg flex flex-col items-center justify-center text-center" role="alert">
+      <AlertTriangleIcon className="h-10 w-10 text-red-400 mb-4" />
+      <h3 className="text-xl font-semibold text-red-300 mb-2">{TITLES[code] ?? `${action} failed`}</h3>
+      <p className="text-red-400">{error.message}</p>
+      <p className="mt-2 text-sm text-red-300/80 max-w-lg">
+        {code === 'quota' && remaining > 0 ? `Wait ${remaining} second${remaining === 1 ? '' : 's'} before trying again.` : HINTS[code]}
+      </p>
+      <div className="mt-6 flex flex-wrap justify-center gap-3">
+        {isSafety ? (
+          <button onClick={onEdit} className={primaryClassName}>{editLabel}</button>
+        ) : (
+          <>
+            <button onClick={onRetry} disabled={remaining > 0} className={primaryClassName}>
+              {remaining > 0 ? `Try Again in ${remaining}s` : 'Try Again'}
+            </button>
+            <button onClick={onEdit} className={secondaryClassName}>{editLabel}</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AdScript } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportScript, getExportFilename, getPdfUnavailableReason } from '../utils/scriptExport';
+import { downloadBlob } from '../utils/fileUtils';
+import { AlertTriangleIcon, DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+  adScript: AdScript;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ adScript }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pdfUnavailableReason = useMemo(() => getPdfUnavailableReason(adScript), [adScript]);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen && !error) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setError(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, error]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      downloadBlob(exportScript(adScript, format), getExportFilename(adScript, format));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to export the script.');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => {
+          setIsOpen(open => !open);
+          setError(null);
+        }}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+      >
+        <DownloadIcon className="h-5 w-5" />
+        <span>Export</span>
+      </button>
+      {isOpen && (
+        <ul role="menu" className="absolute z-10 mt-2 w-52 bg-dark-card border border-dark-border rounded-lg shadow-xl py-1">
+          {EXPORT_FORMATS.map(({ format, label }) => {
+            const unavailableReason = format === 'pdf' ? pdfUnavailableReason : null;
+            return (
+              <li key={format} role="none">
+                <button
+                  role="menuitem"
+                  onClick={() => handleExport(format)}
+                  disabled={!!unavailableReason}
+                  title={unavailableReason ?? undefined}
+                  className="w-full text-left px-4 py-2 text-sm text-light-text hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                >
+                  {label}
+                  {unavailableReason && <span className="block text-xs text-medium-text">Not available for non-Latin text</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && (
+        <p role="alert" className="absolute z-10 mt-2 w-72 flex items-start gap-2 bg-dark-card border border-red-600 rounded-lg shadow-xl p-3 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
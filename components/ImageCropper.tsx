@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { CROP_ASPECTS, CropAspect, CropRect, fitCropRect } from '../utils/imagePreprocessing';
+import { AlertTriangleIcon, XIcon } from './icons';
+
+interface ImageCropperProps {
+  imageUrl: string;
+  // Preselected to match the ad's video format.
+  defaultAspect: CropAspect;
+  onApply: (crop: CropRect) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ imageUrl, defaultAspect, onApply, onCancel }) => {
+  const [aspect, setAspect] = useState<CropAspect>(defaultAspect);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: 0.5, y: 0.5 });
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; centerX: number; centerY: number } | null>(null);
+
+  const ratio = CROP_ASPECTS.find(option => option.value === aspect)!.ratio;
+  const crop = size ? fitCropRect(size.width, size.height, ratio, zoom, center.x, center.y) : null;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    // Start from the clamped centre so dragging away from an edge responds immediately.
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, centerX: crop.x + crop.width / 2, centerY: crop.y + crop.height / 2 };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+    setCenter({
+      x: drag.centerX + (event.clientX - drag.pointerX) / bounds.width,
+      y: drag.centerY + (event.clientY - drag.pointerY) / bounds.height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (dragRef.current && crop) {
+      setCenter({ x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 });
+    }
+    dragRef.current = null;
+  };
+
+  const handleApply = async () => {
+    if (!crop) return;
+    setError(null);
+    setIsApplying(true);
+    try {
+      await onApply(crop);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to crop the image.');
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Crop image">
+      <div className="bg-dark-card border border-dark-border rounded-2xl shadow-2xl w-full max-w-2xl p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-light-text">Crop Image</h3>
+          <button onClick={onCancel} className="text-medium-text hover:text-light-text" aria-label="Close cropper">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {CROP_ASPECTS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setAspect(option.value)}
+              className={`text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors ${aspect === option.value ? 'bg-brand-purple text-white' : 'bg-gray-700 text-medium-text hover:text-light-text'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-center bg-black/40 rounded-lg">
+          <div ref={frameRef} className="relative select-none touch-none">
+            <img
+              src={imageUrl}
+              alt="Image to crop"
+              className="block max-h-[50vh] max-w-full"
+              draggable={false}
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {crop && (
+              <div
+                className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            )}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 text-sm text-medium-text">
+          <span>Zoom</span>
+          <input type="range" min={0.3} max={1} step={0.01} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="flex-1" />
+        </label>
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-400">
+            <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!crop || isApplying}
+            className="bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+          >
+            {isApplying ? 'Cropping...' : 'Apply Crop'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -1,27 +1,95 @@
-
 import React, { useState, useCallback, DragEvent } from 'react';
-import { UploadCloudIcon, XIcon } from './icons';
+import { ProductImageFile } from '../types';
+import { CropAspect, CropRect, MAX_IMAGE_BYTES, formatBytes, isImageFile, preprocessImage } from '../utils/imagePreprocessing';
+import ImageCropper from './ImageCropper';
+import { AlertTriangleIcon, ArrowLeftIcon, ArrowRightIcon, CropIcon, PlusIcon, StarIcon, UploadCloudIcon, XIcon } from './icons';
+
+// Enough for a few angles plus packaging without making every request huge.
+export const MAX_PRODUCT_IMAGES = 6;
 
 interface ImageUploaderProps {
-  onFileSelect: (file: File) => void;
-  imagePreview: string | null;
+  images: ProductImageFile[];
+  heroImageId: string | null;
+  // The ad's video format, preselected in the cropper.
+  targetAspect: CropAspect;
+  // Receives images that have already been resized, converted and stripped of metadata.
+  onFilesSelect: (files: File[]) => void;
+  onReplace: (id: string, file: File) => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onSetHero: (id: string) => void;
+  onRemove: (id: string) => void;
   onClear: () => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onFileSelect, imagePreview, onClear }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({
+  images, heroImageId, targetAspect, onFilesSelect, onReplace, onMove, onSetHero, onRemove, onClear,
+}) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const remaining = MAX_PRODUCT_IMAGES - images.length;
+
+  const handleFileChange = async (files: FileList | null) => {
+    if (!files || files.length === 0 || isProcessing) return;
+    const selected = Array.from(files);
+    const problems: string[] = [];
+    selected.filter(file => !isImageFile(file)).forEach(file => problems.push(`${file.name}: not an image file.`));
+    const accepted = selected.filter(isImageFile);
+    if (accepted.length > remaining) {
+      problems.push(`Only ${MAX_PRODUCT_IMAGES} product images are allowed; ${accepted.length - remaining} were not added.`);
+    }
 
-  const handleFileChange = (files: FileList | null) => {
-    if (files && files[0]) {
-      const file = files[0];
-      if (file.type.startsWith('image/')) {
-        onFileSelect(file);
+    setErrors(problems);
+    setIsProcessing(true);
+    const results = await Promise.allSettled(accepted.slice(0, Math.max(remaining, 0)).map(file => preprocessImage(file)));
+    setIsProcessing(false);
+
+    const processed: File[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        processed.push(result.value);
       } else {
-        alert('Please upload an image file.');
+        console.error(result.reason);
+        const message = result.reason instanceof Error ? result.reason.message : 'The image could not be processed.';
+        problems.push(`${accepted[index].name}: ${message}`);
       }
+    });
+    setErrors([...problems]);
+    if (processed.length > 0) {
+      onFilesSelect(processed);
     }
   };
 
+  const cropping = images.find(image => image.id === croppingId) ?? null;
+
+  const handleApplyCrop = async (crop: CropRect) => {
+    if (!cropping) return;
+    onReplace(cropping.id, await preprocessImage(cropping.file, { crop }));
+    setCroppingId(null);
+  };
+
+  const errorList = errors.length > 0 && (
+    <ul className="flex flex-col gap-1 text-sm text-red-400" role="alert">
+      {errors.map((message, index) => (
+        <li key={index} className="flex items-start gap-2">
+          <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const cropper = cropping && (
+    <ImageCropper
+      key={cropping.id}
+      imageUrl={cropping.previewUrl}
+      defaultAspect={targetAspect}
+      onApply={handleApplyCrop}
+      onCancel={() => setCroppingId(null)}
+    />
+  );
+
   const onDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragging(true);
@@ -32,54 +100,146 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onFileSelect, imagePrevie
     setIsDragging(false);
   }, []);
 
-  const onDrop = useCallback((event: DragEvent<HTMLDivElement>) => {
+  const onDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragging(false);
     handleFileChange(event.dataTransfer.files);
-  }, [onFileSelect]);
-  
+  };
+
   const handleClear = (e: React.MouseEvent<HTMLButtonElement>) => {
     e.stopPropagation();
     onClear();
   };
 
+  const hero = images.find(image => image.id === heroImageId) ?? images[0];
 
-  if (imagePreview) {
+  if (hero) {
     return (
-      <div className="relative w-full aspect-video rounded-lg overflow-hidden group">
-        <img src={imagePreview} alt="Product Preview" className="w-full h-full object-cover" />
-        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
-          <button
-            onClick={handleClear}
-            className="bg-red-600 hover:bg-red-700 text-white rounded-full p-3 transition-transform transform hover:scale-110"
-            aria-label="Remove image"
-          >
-            <XIcon className="h-6 w-6" />
-          </button>
+      <div onDragOver={onDragOver} onDragLeave={onDragLeave} onDrop={onDrop} className="flex flex-col gap-3">
+        {cropper}
+        <div className={`relative w-full aspect-video rounded-lg overflow-hidden group ${isDragging ? 'ring-2 ring-brand-purple' : ''}`}>
+          <img src={hero.previewUrl} alt="Hero product shot" className="w-full h-full object-cover" />
+          <span className="absolute top-2 left-2 flex items-center gap-1 bg-black/60 text-xs font-semibold text-yellow-300 rounded px-2 py-1">
+            <StarIcon className="h-3 w-3" />
+            Hero shot
+          </span>
+          <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+            <button
+              onClick={handleClear}
+              className="bg-red-600 hover:bg-red-700 text-white rounded-full p-3 transition-transform transform hover:scale-110"
+              aria-label="Remove all images"
+            >
+              <XIcon className="h-6 w-6" />
+            </button>
+          </div>
         </div>
+
+        <ul className="grid grid-cols-3 gap-2">
+          {images.map((image, index) => {
+            const isHero = image.id === hero.id;
+            return (
+              <li key={image.id} className={`relative aspect-square rounded-md overflow-hidden border-2 ${isHero ? 'border-yellow-400' : 'border-dark-border'}`}>
+                <img src={image.previewUrl} alt={`Product image ${index + 1}`} className="w-full h-full object-cover" />
+                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between bg-black/70 px-1 py-0.5">
+                  <button
+                    onClick={() => onMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-medium-text hover:text-light-text disabled:opacity-30"
+                    aria-label={`Move image ${index + 1} earlier`}
+                  >
+                    <ArrowLeftIcon className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => onSetHero(image.id)}
+                    disabled={isHero}
+                    className={`p-1 ${isHero ? 'text-yellow-300' : 'text-medium-text hover:text-yellow-300'}`}
+                    aria-label={isHero ? `Image ${index + 1} is the hero shot` : `Use image ${index + 1} as the hero shot`}
+                    title={isHero ? 'Hero shot' : 'Use as hero shot'}
+                  >
+                    <StarIcon className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => setCroppingId(image.id)}
+                    className="p-1 text-medium-text hover:text-light-text"
+                    aria-label={`Crop image ${index + 1}`}
+                    title="Crop"
+                  >
+                    <CropIcon className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => onRemove(image.id)}
+                    className="p-1 text-medium-text hover:text-red-400"
+                    aria-label={`Remove image ${index + 1}`}
+                  >
+                    <XIcon className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => onMove(index, 1)}
+                    disabled={index === images.length - 1}
+                    className="p-1 text-medium-text hover:text-light-text disabled:opacity-30"
+                    aria-label={`Move image ${index + 1} later`}
+                  >
+                    <ArrowRightIcon className="h-3 w-3" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+          {remaining > 0 && (
+            <li className="relative aspect-square rounded-md border-2 border-dashed border-dark-border hover:border-brand-purple-light flex flex-col items-center justify-center text-medium-text transition-colors">
+              <input
+                type="file"
+                accept="image/*,.heic,.heif,.tif,.tiff"
+                multiple
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                onChange={(e) => {
+                  handleFileChange(e.target.files);
+                  e.target.value = '';
+                }}
+                aria-label="Add product images"
+              />
+              <PlusIcon className={`h-6 w-6 ${isProcessing ? 'animate-pulse' : ''}`} />
+              <span className="text-xs mt-1">{isProcessing ? 'Processing...' : 'Add angle'}</span>
+            </li>
+          )}
+        </ul>
+        {errorList}
+        <p className="text-xs text-medium-text">
+          Every photo is sent with script requests. The hero shot is the reference for storyboards and video.
+        </p>
       </div>
     );
   }
 
   return (
-    <div
-      onDragOver={onDragOver}
-      onDragLeave={onDragLeave}
-      onDrop={onDrop}
-      className={`relative w-full aspect-video border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-center p-4 transition-all duration-300 cursor-pointer
-        ${isDragging ? 'border-brand-purple bg-brand-purple/10' : 'border-dark-border hover:border-brand-purple-light'}`}
-    >
-      <input
-        type="file"
-        accept="image/*"
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-        onChange={(e) => handleFileChange(e.target.files)}
-      />
-      <UploadCloudIcon className={`h-12 w-12 mb-3 transition-colors ${isDragging ? 'text-brand-purple' : 'text-medium-text'}`} />
-      <p className="font-semibold text-light-text">
-        <span className="text-brand-purple-light">Click to upload</span> or drag and drop
-      </p>
-      <p className="text-xs text-medium-text mt-1">PNG, JPG, WEBP, etc.</p>
+    <div className="flex flex-col gap-3">
+      <div
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        onDrop={onDrop}
+        className={`relative w-full aspect-video border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-center p-4 transition-all duration-300 cursor-pointer
+          ${isDragging ? 'border-brand-purple bg-brand-purple/10' : 'border-dark-border hover:border-brand-purple-light'}`}
+      >
+        <input
+          type="file"
+          accept="image/*,.heic,.heif,.tif,.tiff"
+          multiple
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          onChange={(e) => {
+            handleFileChange(e.target.files);
+            e.target.value = '';
+          }}
+          disabled={isProcessing}
+        />
+        <UploadCloudIcon className={`h-12 w-12 mb-3 transition-colors ${isDragging || isProcessing ? 'text-brand-purple' : 'text-medium-text'} ${isProcessing ? 'animate-pulse' : ''}`} />
+        <p className="font-semibold text-light-text">
+          {isProcessing ? 'Preparing images...' : <><span className="text-brand-purple-light">Click to upload</span> or drag and drop</>}
+        </p>
+        <p className="text-xs text-medium-text mt-1">
+          Up to {MAX_PRODUCT_IMAGES} photos: JPG, PNG, WEBP, GIF, HEIC or TIFF. Large photos are resized to fit {formatBytes(MAX_IMAGE_BYTES)}.
+        </p>
+      </div>
+      {errorList}
     </div>
   );
 };
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProductProfile } from '../types';
+import { EMPTY_PRODUCT_PROFILE } from '../utils/productProfile';
+import { AlertTriangleIcon, RefreshIcon, SparklesIcon } from './icons';
+
+type TextField = 'productName' | 'category' | 'brand';
+type ListField = 'colors' | 'keyFeatures' | 'visibleText';
+
+// Colors fit on one line; features and printed text often contain commas, so they go one per line.
+const LIST_SEPARATORS: Record<ListField, { split: RegExp; join: string }> = {
+  colors: { split: /,/, join: ', ' },
+  keyFeatures: { split: /\n/, join: '\n' },
+  visibleText: { split: /\n/, join: '\n' },
+};
+
+const toDrafts = (profile: ProductProfile | null): Record<ListField, string> => {
+  const source = profile ?? EMPTY_PRODUCT_PROFILE;
+  return {
+    colors: source.colors.join(LIST_SEPARATORS.colors.join),
+    keyFeatures: source.keyFeatures.join(LIST_SEPARATORS.keyFeatures.join),
+    visibleText: source.visibleText.join(LIST_SEPARATORS.visibleText.join),
+  };
+};
+
+const parseList = (text: string, field: ListField): string[] =>
+  text.split(LIST_SEPARATORS[field].split).map(item => item.trim()).filter(Boolean);
+
+interface ProductProfileEditorProps {
+  profile: ProductProfile | null;
+  onChange: (profile: ProductProfile) => void;
+  onAnalyze: () => Promise<void>;
+  disabled?: boolean;
+}
+
+const fieldClassName = "w-full bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple transition duration-200 placeholder:text-gray-500 disabled:opacity-50";
+const labelClassName = "block text-xs font-medium text-medium-text mb-1";
+
+const ProductProfileEditor: React.FC<ProductProfileEditorProps> = ({ profile, onChange, onAnalyze, disabled }) => {
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // List fields are edited as raw text so separators can be typed; the parsed lists go to onChange.
+  const [drafts, setDrafts] = useState(() => toDrafts(profile));
+  const lastEmittedRef = useRef<ProductProfile | null>(profile);
+
+  useEffect(() => {
+    // Only a profile from outside (a new analysis, an opened project) replaces what is being typed.
+    if (profile !== lastEmittedRef.current) {
+      lastEmittedRef.current = profile;
+      setDrafts(toDrafts(profile));
+    }
+  }, [profile]);
+
+  const emit = (next: ProductProfile) => {
+    lastEmittedRef.current = next;
+    onChange(next);
+  };
+
+  const updateText = (field: TextField, value: string) => {
+    emit({ ...(profile ?? EMPTY_PRODUCT_PROFILE), [field]: value });
+  };
+
+  const updateList = (field: ListField, text: string) => {
+    setDrafts(prev => ({ ...prev, [field]: text }));
+    emit({ ...(profile ?? EMPTY_PRODUCT_PROFILE), [field]: parseList(text, field) });
+  };
+
+  const handleAnalyze = async () => {
+    setError(null);
+    setIsAnalyzing(true);
+    try {
+      await onAnalyze();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to analyze the product.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <legend className="text-sm font-medium text-medium-text">Product Profile</legend>
+        <button
+          type="button"
+          onClick={handleAnalyze}
+          disabled={disabled || isAnalyzing}
+          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors duration-200"
+        >
+          {profile ? <RefreshIcon className={`h-4 w-4 ${isAnalyzing ? 'animate-spin' : ''}`} /> : <SparklesIcon className="h-4 w-4" />}
+          <span>{isAnalyzing ? 'Analyzing...' : profile ? 'Re-analyze' : 'Analyze Product'}</span>
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+
+      {profile ? (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <label htmlFor="profile-name" className={labelClassName}>Product Name</label>
+            <input id="profile-name" type="text" className={fieldClassName} value={profile.productName} onChange={(e) => updateText('productName', e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="profile-brand" className={labelClassName}>Brand</label>
+            <input id="profile-brand" type="text" className={fieldClassName} value={profile.brand} onChange={(e) => updateText('brand', e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="profile-category" className={labelClassName}>Category</label>
+            <input id="profile-category" type="text" className={fieldClassName} value={profile.category} onChange={(e) => updateText('category', e.target.value)} />
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="profile-colors" className={labelClassName}>Colors (comma-separated)</label>
+            <input id="profile-colors" type="text" className={fieldClassName} value={drafts.colors} onChange={(e) => updateList('colors', e.target.value)} />
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="profile-features" className={labelClassName}>Key Features (one per line)</label>
+            <textarea id="profile-features" rows={3} className={fieldClassName} value={drafts.keyFeatures} onChange={(e) => updateList('keyFeatures', e.target.value)} />
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="profile-text" className={labelClassName}>Visible Text / Branding (one per line)</label>
+            <textarea id="profile-text" rows={2} className={fieldClassName} value={drafts.visibleText} onChange={(e) => updateList('visibleText', e.target.value)} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-medium-text">
+          Optional: let the model read the photos first, then correct anything it got wrong. The reviewed profile is used in every script prompt.
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default ProductProfileEditor;
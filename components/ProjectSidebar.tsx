@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Project } from '../types';
+import { matchesProjectSearch } from '../services/projectStore';
+import EditableText from './EditableText';
+import { CopyIcon, SearchIcon, TrashIcon, XIcon } from './icons';
+
+interface ProjectSidebarProps {
+  isOpen: boolean;
+  projects: Project[];
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
+  isOpen, projects, currentProjectId, onClose, onOpen, onRename, onDuplicate, onDelete
+}) => {
+  const [query, setQuery] = useState('');
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(project => {
+      const hero = project.productImages[project.heroImageIndex] ?? project.productImages[0];
+      if (hero) urls[project.id] = URL.createObjectURL(hero.blob);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const filtered = useMemo(() => projects.filter(project => matchesProjectSearch(project, query)), [projects, query]);
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 z-30" onClick={onClose} aria-hidden="true" />}
+      <aside
+        className={`fixed top-0 left-0 h-full w-80 max-w-full bg-dark-card border-r border-dark-border z-40 flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+        aria-label="Projects"
+        aria-hidden={!isOpen}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dark-border">
+          <h2 className="text-lg font-bold text-light-text">Projects</h2>
+          <button onClick={onClose} className="p-1 rounded text-medium-text hover:text-light-text" aria-label="Close projects">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-4">
+          <div className="relative">
+            <SearchIcon className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-medium-text" />
+            <input
+              type="search"
+              placeholder="Search projects"
+              className="w-full bg-gray-900/50 border border-dark-border rounded-lg py-2 pl-9 pr-3 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+        </div>
+        <ul className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+          {filtered.length === 0 && (
+            <li className="text-sm text-medium-text text-center py-8">
+              {projects.length === 0 ? 'No saved projects yet.' : 'No projects match your search.'}
+            </li>
+          )}
+          {filtered.map(project => (
+            <li
+              key={project.id}
+              className={`group rounded-lg border p-2 flex gap-3 ${project.id === currentProjectId ? 'border-brand-purple bg-brand-purple/10' : 'border-dark-border hover:border-brand-purple-light'}`}
+            >
+              <button onClick={() => onOpen(project.id)} className="flex-shrink-0" aria-label={`Open ${project.name}`}>
+                {thumbnails[project.id]
+                  ? <img src={thumbnails[project.id]} alt="" className="h-14 w-14 rounded object-cover" />
+                  : <div className="h-14 w-14 rounded bg-gray-800" />}
+              </button>
+              <div className="flex-1 min-w-0 text-sm">
+                <EditableText singleLine value={project.name} onChange={(name) => onRename(project.id, name)} ariaLabel="project name" className="font-semibold text-light-text truncate" />
+                <button onClick={() => onOpen(project.id)} className="block text-left w-full">
+                  <p className="text-xs text-medium-text truncate">{project.adScript?.title ?? 'No script yet'}</p>
+                  <p className="text-xs text-gray-500">{formatDate(project.updatedAt)}</p>
+                </button>
+              </div>
+              <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button onClick={() => onDuplicate(project.id)} className="p-1 rounded text-medium-text hover:text-light-text" aria-label={`Duplicate ${project.name}`} title="Duplicate">
+                  <CopyIcon className="h-4 w-4" />
+                </button>
+                <button onClick={() => handleDelete(project)} className="p-1 rounded text-medium-text hover:text-red-400" aria-label={`Delete ${project.name}`} title="Delete">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </>
+  );
+};
+
+export default ProjectSidebar;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { AdScript, RefinementMessage, ScriptRevision } from '../types';
+import { ScriptChange, applyScriptChanges, describeChange, diffScripts } from '../utils/scriptDiff';
+import ScriptChangeText from './ScriptChangeText';
+import { AlertTriangleIcon, SparklesIcon } from './icons';
+
+interface RefinementPanelProps {
+  adScript: AdScript;
+  onRefine: (script: AdScript, history: RefinementMessage[], instruction: string) => Promise<ScriptRevision>;
+  // Gets the model's summary of the revision along with the accepted result.
+  onApply: (script: AdScript, summary: string) => void;
+}
+
+// A revision waiting for the user to accept or reject its changes.
+interface PendingRevision {
+  // The script the instruction was applied to.
+  base: AdScript;
+  revision: ScriptRevision;
+  changes: ScriptChange[];
+  accepted: Set<string>;
+}
+
+const SUGGESTIONS = ['Make scene 3 funnier', 'Cut to 15 seconds', 'Add a price callout'];
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ adScript, onRefine, onApply }) => {
+  const [messages, setMessages] = useState<RefinementMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingRevision | null>(null);
+  // Edits made to the script after the revision arrived would be lost by applying it.
+  const isStale = pending !== null && pending.base !== adScript;
+
+  const send = async (instruction: string) => {
+    const text = instruction.trim();
+    if (!text || isSending) return;
+    setError(null);
+    setIsSending(true);
+    setPending(null);
+    try {
+      const revision = await onRefine(adScript, messages, text);
+      const changes = diffScripts(adScript, revision.script);
+      setMessages(prev => [...prev, { role: 'user', text }, { role: 'model', text: changes.length > 0 ? revision.summary : 'No changes were needed.' }]);
+      setDraft('');
+      if (changes.length > 0) {
+        setPending({ base: adScript, revision, changes, accepted: new Set(changes.map(change => change.id)) });
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to revise the script.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setPending(prev => {
+      if (!prev) return prev;
+      const accepted = new Set(prev.accepted);
+      if (accepted.has(id)) accepted.delete(id);
+      else accepted.add(id);
+      return { ...prev, accepted };
+    });
+  };
+
+  const apply = () => {
+    if (!pending || isStale) return;
+    onApply(applyScriptChanges(pending.base, pending.revision.script, pending.changes, pending.accepted), pending.revision.summary);
+    setPending(null);
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <h3 className="text-lg font-bold text-light-text mb-3">Refine the Script</h3>
+
+      {messages.length > 0 && (
+        <ol className="mb-3 space-y-2 max-h-64 overflow-y-auto text-sm">
+          {messages.map((message, index) => (
+            <li key={index} className={`rounded-lg px-3 py-2 ${message.role === 'user' ? 'bg-brand-purple/20 text-light-text ml-8' : 'bg-gray-800 text-medium-text mr-8'}`}>
+              {message.text}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pending && (
+        <div className="mb-3 p-3 rounded-lg border border-dark-border bg-gray-800/60">
+          <p className="text-sm font-semibold text-light-text mb-2">
+            {pending.changes.length} change{pending.changes.length === 1 ? '' : 's'} proposed &middot; untick any you don't want
+          </p>
+          <ul className="space-y-2 text-sm">
+            {pending.changes.map(change => (
+              <li key={change.id}>
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input type="checkbox" className="mt-1" checked={pending.accepted.has(change.id)} onChange={() => toggle(change.id)} />
+                  <div>
+                    <p className="font-semibold text-medium-text capitalize">{describeChange(change)}</p>
+                    <ScriptChangeText change={change} />
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ul>
+          {isStale && (
+            <p className="mt-2 flex items-center gap-2 text-xs text-yellow-300">
+              <AlertTriangleIcon className="h-3 w-3 flex-shrink-0" />
+              <span>The script was edited after this revision was made. Ask again to revise the current version.</span>
+            </p>
+          )}
+          <div className="mt-3 flex justify-end gap-2">
+            <button onClick={() => setPending(null)} className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors">
+              Reject All
+            </button>
+            <button
+              onClick={apply}
+              disabled={isStale || pending.accepted.size === 0}
+              className="bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+              Apply {pending.accepted.size} of {pending.changes.length}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+      >
+        <input
+          type="text"
+          aria-label="Refinement instruction"
+          className="flex-1 bg-gray-900/50 border border-dark-border rounded-lg p-2 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple placeholder:text-gray-500 disabled:opacity-50"
+          placeholder='e.g., "Make scene 3 funnier"'
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={isSending}
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="flex items-center gap-2 bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          <SparklesIcon className={`h-4 w-4 ${isSending ? 'animate-pulse' : ''}`} />
+          <span>{isSending ? 'Revising...' : 'Send'}</span>
+        </button>
+      </form>
+      {messages.length === 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => setDraft(suggestion)}
+              disabled={isSending}
+              className="text-xs text-medium-text hover:text-light-text border border-dark-border hover:border-brand-purple-light rounded-full px-3 py-1 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { PlacedReviewComment, REVIEW_FIELD_LABELS, describeCommentLocation } from '../utils/review';
+import { CheckIcon, MessageIcon } from './icons';
+
+interface ReviewCommentListProps {
+  comments: PlacedReviewComment[];
+  onResolve: (commentId: string, resolved: boolean) => void;
+  // Prefix each comment with its scene; off when the list already sits on its scene.
+  showLocation?: boolean;
+}
+
+const ReviewCommentList: React.FC<ReviewCommentListProps> = ({ comments, onResolve, showLocation }) => (
+  <ul className="space-y-2 text-sm">
+    {comments.map(placed => (
+      <li key={placed.comment.id} className={`flex items-start gap-2 ${placed.comment.resolved ? 'opacity-50' : ''}`}>
+        <MessageIcon className="h-4 w-4 mt-0.5 flex-shrink-0 text-brand-purple-light" />
+        <div className="flex-1 text-light-text">
+          <p>
+            <span className="font-semibold">{placed.reviewer}</span>
+            <span className="text-medium-text"> &middot; {showLocation ? describeCommentLocation(placed) : REVIEW_FIELD_LABELS[placed.comment.field]}</span>
+            {placed.isOutdated && <span className="ml-2 text-xs text-yellow-300">edited since</span>}
+          </p>
+          <p className="whitespace-pre-wrap">{placed.comment.text}</p>
+          {placed.isOutdated && placed.comment.quotedText && (
+            <p className="text-xs text-medium-text">Was: &ldquo;{placed.comment.quotedText}&rdquo;</p>
+          )}
+        </div>
+        <button
+          onClick={() => onResolve(placed.comment.id, !placed.comment.resolved)}
+          className="flex items-center gap-1 text-xs text-medium-text hover:text-light-text transition-colors"
+          title={placed.comment.resolved ? 'Mark as open again' : 'Mark as dealt with'}
+        >
+          <CheckIcon className="h-3 w-3" />
+          <span>{placed.comment.resolved ? 'Reopen' : 'Resolve'}</span>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ReviewCommentList;
@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { ReviewDecision, ScriptReview, SharedReview } from '../types';
+import { PlacedReviewComment, REVIEW_DECISION_LABELS, getOverallDecision, mergeReview, parseReviewFeedback, removeReview, setCommentResolved } from '../utils/review';
+import ReviewCommentList from './ReviewCommentList';
+import { AlertTriangleIcon, ShareIcon, TrashIcon, UploadCloudIcon } from './icons';
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  approved: 'bg-green-900/50 text-green-300 border-green-600',
+  'changes-requested': 'bg-yellow-900/50 text-yellow-300 border-yellow-600',
+};
+
+interface ReviewPanelProps {
+  reviews: ScriptReview[];
+  // Comments on the title and tagline, and on scenes that were deleted since.
+  scriptComments: PlacedReviewComment[];
+  onReviewsChange: (reviews: ScriptReview[]) => void;
+  // Pages shared from this project; feedback on any other page is turned away.
+  sharedReviews: SharedReview[];
+  // The version on screen; the overall verdict only counts feedback on it.
+  versionNumber: number | null;
+  // Downloads a review page; resolves to whether the video was too large to include.
+  onShare: () => Promise<{ isVideoOmitted: boolean }>;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const DecisionBadge: React.FC<{ decision: ReviewDecision | null }> = ({ decision }) => (
+  <span className={`flex-shrink-0 border rounded px-1.5 py-0.5 text-[10px] font-bold uppercase ${decision ? DECISION_STYLES[decision] : 'text-medium-text border-dark-border'}`}>
+    {decision ? REVIEW_DECISION_LABELS[decision] : 'Comments only'}
+  </span>
+);
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ reviews, scriptComments, onReviewsChange, sharedReviews, versionNumber, onShare }) => {
+  const [isSharing, setIsSharing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const overall = getOverallDecision(reviews, versionNumber);
+  const openCount = reviews.reduce((count, review) => count + review.comments.filter(comment => !comment.resolved).length, 0);
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    setNotice(null);
+    setErrors([]);
+    setWarnings([]);
+    try {
+      const { isVideoOmitted } = await onShare();
+      setNotice(isVideoOmitted
+        ? 'Review page downloaded without the video, which is too large to embed. Send the video separately.'
+        : 'Review page downloaded. Send it to your reviewers, then import the feedback files they send back.');
+    } catch (err) {
+      console.error(err);
+      setErrors([err instanceof Error ? err.message : 'Failed to create the review page.']);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setNotice(null);
+    let next = reviews;
+    const failures: string[] = [];
+    const stale: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const review = parseReviewFeedback(await file.text(), sharedReviews);
+        if (review.versionNumber !== versionNumber) {
+          stale.push(`${file.name}: ${review.reviewer} reviewed v${review.versionNumber}, not the version on screen. Check their comments against the current script.`);
+        }
+        next = mergeReview(next, review);
+      } catch (err) {
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read the file.'}`);
+      }
+    }
+    setErrors(failures);
+    setWarnings(stale);
+    onReviewsChange(next);
+    // Allow the same file to be picked again, e.g. after a reviewer sends an updated copy.
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-bold text-light-text">
+            <span>Review</span>
+            {overall && <DecisionBadge decision={overall} />}
+          </h3>
+          <p className="text-sm text-medium-text">
+            {reviews.length === 0
+              ? 'Share a read-only review page, then import the feedback reviewers send back.'
+              : `${openCount} open comment${openCount === 1 ? '' : 's'} from ${reviews.length} review${reviews.length === 1 ? '' : 's'}.`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleShare}
+            disabled={isSharing}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+            title="Download a page with this version of the script that reviewers can open in any browser"
+          >
+            <ShareIcon className={`h-4 w-4 ${isSharing ? 'animate-pulse' : ''}`} />
+            <span>{isSharing ? 'Preparing...' : 'Share for Review'}</span>
+          </button>
+          <label className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 cursor-pointer">
+            <UploadCloudIcon className="h-4 w-4" />
+            <span>Import Feedback</span>
+            <input ref={inputRef} type="file" accept=".json,application/json" multiple className="sr-only" onChange={(e) => handleImport(e.target.files)} />
+          </label>
+        </div>
+      </div>
+
+      {notice && <p className="mt-3 text-sm text-green-400">{notice}</p>}
+      {errors.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-sm text-red-400" role="alert">
+          {errors.map((error, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-sm text-yellow-300">
+          {warnings.map((warning, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{warning}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {reviews.map(review => (
+            <li key={`${review.reviewId}-${review.reviewer}`} className="flex items-center gap-2">
+              <DecisionBadge decision={review.decision} />
+              <span className="font-semibold text-light-text">{review.reviewer}</span>
+              <span className="text-medium-text">
+                {review.versionNumber ? `on v${review.versionNumber} ` : ''}&middot; {formatDate(review.submittedAt)} &middot; {review.comments.length} comment{review.comments.length === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => onReviewsChange(removeReview(reviews, review))}
+                className="ml-auto p-1 rounded text-medium-text hover:text-red-400 transition-colors"
+                aria-label={`Remove the feedback from ${review.reviewer}`}
+                title="Remove this feedback"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {scriptComments.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-dark-border">
+          <ReviewCommentList
+            comments={scriptComments}
+            showLocation
+            onResolve={(id, resolved) => onReviewsChange(setCommentResolved(reviews, id, resolved))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
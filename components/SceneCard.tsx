@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ComplianceFinding, Scene } from '../types';
+import { formatTimecode } from '../utils/sceneTiming';
+import { BrandIssue } from '../utils/brandKit';
+import { PlacedReviewComment } from '../utils/review';
+import EditableText from './EditableText';
+import ComplianceFindingList from './ComplianceFindingList';
+import ReviewCommentList from './ReviewCommentList';
+import { AlertTriangleIcon, ArrowDownIcon, ArrowUpIcon, RefreshIcon, TrashIcon } from './icons';
+
+interface SceneCardProps {
+  scene: Scene;
+  isFirst: boolean;
+  isLast: boolean;
+  // Brand kit rules this scene breaks.
+  brandIssues: BrandIssue[];
+  // Compliance findings in this scene's action or dialogue.
+  complianceFindings: ComplianceFinding[];
+  // Reviewer comments on this scene's fields.
+  reviewComments: PlacedReviewComment[];
+  onResolveComment: (commentId: string, resolved: boolean) => void;
+  isRegenerating: boolean;
+  // True while any scene is regenerating; structural changes would shift the scene being replaced.
+  isBusy: boolean;
+  onChange: (scene: Scene) => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onDelete: () => void;
+  onRegenerate: () => void;
+}
+
+const toolbarButtonClassName = "p-1.5 rounded text-medium-text hover:text-light-text hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+const SceneCard: React.FC<SceneCardProps> = ({
+  scene, isFirst, isLast, brandIssues, complianceFindings, reviewComments, onResolveComment, isRegenerating, isBusy, onChange, onMoveUp, onMoveDown, onDelete, onRegenerate
+}) => {
+  // What is typed in the duration field while it has focus; it may be empty or invalid mid-edit.
+  const [durationDraft, setDurationDraft] = useState<string | null>(null);
+
+  const update = <K extends keyof Scene>(key: K, value: Scene[K]) => {
+    onChange({ ...scene, [key]: value });
+  };
+
+  // Valid durations apply as they are typed; leaving the field drops whatever was invalid.
+  const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDurationDraft(e.target.value);
+    const duration = Number(e.target.value);
+    if (e.target.value.trim() && Number.isFinite(duration) && duration > 0 && duration !== scene.duration) {
+      update('duration', duration);
+    }
+  };
+
+  const handleDurationKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  const borderClassName = complianceFindings.some(finding => finding.severity === 'high')
+    ? 'border-red-600'
+    : brandIssues.length > 0 || complianceFindings.length > 0 ? 'border-yellow-600' : 'border-dark-border';
+
+  return (
+    <div className={`bg-gray-900/50 p-6 rounded-lg border transition-opacity ${borderClassName} ${isRegenerating ? 'opacity-50 animate-pulse' : ''}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-baseline gap-3">
+          <h4 className="text-lg font-bold text-brand-purple-light">SCENE {scene.sceneNumber}</h4>
+          <span className="text-sm text-medium-text font-mono">
+            {formatTimecode(scene.startTime)} – {formatTimecode(scene.startTime + scene.duration)}
+          </span>
+          <label className="flex items-center gap-1 text-sm text-medium-text">
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              aria-label={`Scene ${scene.sceneNumber} duration in seconds`}
+              className="w-16 bg-gray-900 border border-dark-border rounded px-1 text-light-text"
+              value={durationDraft ?? scene.duration}
+              onChange={handleDurationChange}
+              onBlur={() => setDurationDraft(null)}
+              onKeyDown={handleDurationKeyDown}
+            />
+            s
+          </label>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onMoveUp} disabled={isFirst || isBusy} className={toolbarButtonClassName} aria-label="Move scene up" title="Move up">
+            <ArrowUpIcon className="h-4 w-4" />
+          </button>
+          <button onClick={onMoveDown} disabled={isLast || isBusy} className={toolbarButtonClassName} aria-label="Move scene down" title="Move down">
+            <ArrowDownIcon className="h-4 w-4" />
+          </button>
+          <button onClick={onRegenerate} disabled={isBusy} className={toolbarButtonClassName} aria-label="Regenerate this scene" title="Regenerate this scene">
+            <RefreshIcon className={`h-4 w-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onDelete} disabled={isBusy} className={`${toolbarButtonClassName} hover:text-red-400`} aria-label="Delete scene" title="Delete scene">
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {brandIssues.length > 0 && (
+        <ul className="mb-4 p-3 bg-yellow-900/30 border border-yellow-600 rounded-lg text-sm text-yellow-300 space-y-1">
+          {brandIssues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {complianceFindings.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-800/60 border border-dark-border rounded-lg">
+          <ComplianceFindingList findings={complianceFindings} />
+        </div>
+      )}
+      {reviewComments.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-800/60 border border-brand-purple/60 rounded-lg">
+          <ReviewCommentList comments={reviewComments} onResolve={onResolveComment} />
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4 text-sm">
+          <div>
+              <strong className="block text-medium-text">Setting:</strong>
+              <EditableText value={scene.setting} onChange={(value) => update('setting', value)} ariaLabel="setting" />
+          </div>
+           <div>
+              <strong className="block text-medium-text">Sound:</strong>
+              <EditableText value={scene.sound} onChange={(value) => update('sound', value)} ariaLabel="sound" />
+          </div>
+          <div className="sm:col-span-2">
+              <strong className="block text-medium-text">Action:</strong>
+              <EditableText value={scene.action} onChange={(value) => update('action', value)} ariaLabel="action" />
+          </div>
+           <div className="sm:col-span-2">
+              <strong className="block text-medium-text">Dialogue / Voiceover:</strong>
+              <EditableText value={scene.dialogue} onChange={(value) => update('dialogue', value)} ariaLabel="dialogue" className="italic" />
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneCard;
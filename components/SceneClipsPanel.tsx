@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AdScript } from '../types';
+import { SceneClips, areSceneClipsComplete, getSceneClip } from '../services/sceneClips';
+import { assembleVideo } from '../utils/videoAssembly';
+import { AlertTriangleIcon, FilmIcon, RefreshIcon } from './icons';
+
+interface SceneClipsPanelProps {
+  adScript: AdScript;
+  clips: SceneClips;
+  // False when there is no product image to render from.
+  canGenerate: boolean;
+  onGenerateAll: () => void;
+  onGenerateClip: (sceneIndex: number) => void;
+  onCancel: () => void;
+  onAssembled: (videoUrl: string) => void;
+}
+
+const SceneClipsPanel: React.FC<SceneClipsPanelProps> = ({ adScript, clips, canGenerate, onGenerateAll, onGenerateClip, onCancel, onAssembled }) => {
+  const [includeTitleCard, setIncludeTitleCard] = useState(true);
+  const [includeTaglineCard, setIncludeTaglineCard] = useState(true);
+  const [assemblyProgress, setAssemblyProgress] = useState<number | null>(null);
+  const [assemblyError, setAssemblyError] = useState<string | null>(null);
+
+  const sceneClips = adScript.scenes.map(scene => getSceneClip(clips, scene));
+  const runningCount = sceneClips.filter(clip => clip?.state === 'running').length;
+  const pendingCount = sceneClips.filter(clip => !clip || clip.state === 'failed').length;
+  const isComplete = areSceneClipsComplete(clips, adScript.scenes);
+  const isAssembling = assemblyProgress !== null;
+
+  const handleAssemble = async () => {
+    setAssemblyError(null);
+    setAssemblyProgress(0);
+    try {
+      const blob = await assembleVideo({
+        clipUrls: sceneClips.map(clip => clip!.videoUrl!),
+        intro: includeTitleCard ? { heading: adScript.title } : null,
+        outro: includeTaglineCard ? { heading: adScript.tagline, subheading: adScript.title } : null,
+        onProgress: setAssemblyProgress,
+      });
+      onAssembled(URL.createObjectURL(blob));
+    } catch (err) {
+      console.error(err);
+      setAssemblyError(err instanceof Error ? err.message : 'Failed to assemble the video.');
+    } finally {
+      setAssemblyProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-light-text">Scene-by-Scene Video</h3>
+          <p className="text-sm text-medium-text">Render one clip per scene, then stitch them together in scene order.</p>
+        </div>
+        <div className="flex gap-2">
+          {runningCount > 0 && (
+            <button
+              onClick={onCancel}
+              className="border border-dark-border hover:border-red-500 text-medium-text hover:text-red-300 font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={onGenerateAll}
+            disabled={!canGenerate || pendingCount === 0 || isAssembling}
+            className="flex items-center gap-2 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <FilmIcon className="h-5 w-5" />
+            <span>{pendingCount === adScript.scenes.length ? 'Generate Scene Clips' : `Generate ${pendingCount} Remaining`}</span>
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {adScript.scenes.map((scene, index) => {
+          const clip = sceneClips[index];
+          return (
+            <li key={index} className="flex items-center gap-3 p-2 rounded-lg border border-dark-border">
+              <div className="w-28 aspect-video flex-shrink-0 rounded bg-black/40 overflow-hidden flex items-center justify-center text-xs text-medium-text">
+                {clip?.state === 'succeeded' && clip.videoUrl ? (
+                  <video src={clip.videoUrl} muted loop autoPlay playsInline className="w-full h-full object-cover" />
+                ) : (
+                  <span>Scene {scene.sceneNumber}</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-light-text truncate">Scene {scene.sceneNumber}: {scene.setting}</p>
+                {!clip && <p className="text-xs text-medium-text">Not generated</p>}
+                {clip?.state === 'running' && (
+                  <p className="text-xs text-brand-purple-light animate-pulse-fast">
+                    {clip.job ? `Rendering... checked ${clip.job.pollCount} time${clip.job.pollCount === 1 ? '' : 's'}` : 'Submitting...'}
+                  </p>
+                )}
+                {clip?.state === 'succeeded' && <p className="text-xs text-green-400">Ready</p>}
+                {clip?.state === 'failed' && (
+                  <p className="flex items-center gap-1 text-xs text-red-400">
+                    <AlertTriangleIcon className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{clip.error}</span>
+                  </p>
+                )}
+              </div>
+              {(!clip || clip.state !== 'running') && (
+                <button
+                  onClick={() => onGenerateClip(index)}
+                  disabled={!canGenerate || isAssembling}
+                  className="flex items-center gap-1 text-sm text-medium-text hover:text-light-text disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`${clip ? 'Regenerate' : 'Generate'} clip for scene ${scene.sceneNumber}`}
+                >
+                  <RefreshIcon className="h-4 w-4" />
+                  <span>{!clip ? 'Generate' : clip.state === 'failed' ? 'Retry' : 'Redo'}</span>
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-medium-text">
+          <input type="checkbox" checked={includeTitleCard} onChange={(e) => setIncludeTitleCard(e.target.checked)} disabled={isAssembling} />
+          Title card
+        </label>
+        <label className="flex items-center gap-2 text-sm text-medium-text">
+          <input type="checkbox" checked={includeTaglineCard} onChange={(e) => setIncludeTaglineCard(e.target.checked)} disabled={isAssembling} />
+          Tagline card
+        </label>
+        <button
+          onClick={handleAssemble}
+          disabled={!isComplete || isAssembling}
+          className="ml-auto bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          {isAssembling ? `Assembling... ${Math.round((assemblyProgress ?? 0) * 100)}%` : 'Assemble Video'}
+        </button>
+      </div>
+      {isAssembling && (
+        <p className="mt-2 text-xs text-medium-text">Assembly plays the clips in real time. Keep this tab visible until it finishes.</p>
+      )}
+      {assemblyError && (
+        <p className="mt-2 flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{assemblyError}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SceneClipsPanel;
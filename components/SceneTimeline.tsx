@@ -0,0 +1,61 @@
+import React from 'react';
+import { Scene } from '../types';
+import { checkSceneTiming, formatTimecode } from '../utils/sceneTiming';
+import { AlertTriangleIcon } from './icons';
+
+interface SceneTimelineProps {
+  scenes: Scene[];
+  targetDuration: number;
+}
+
+const SCENE_COLORS = ['bg-brand-purple', 'bg-purple-500', 'bg-indigo-500', 'bg-violet-600'];
+
+const SceneTimeline: React.FC<SceneTimelineProps> = ({ scenes, targetDuration }) => {
+  const timing = checkSceneTiming({ title: '', tagline: '', scenes }, targetDuration);
+  // Scale to whichever is longer so an overrun is visible past the target marker.
+  const scaleDuration = Math.max(timing.totalDuration, targetDuration) || 1;
+  const overrun = timing.difference > 0 && !timing.fits;
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <h4 className="font-bold text-light-text">Timeline</h4>
+        <span className={timing.fits ? 'text-medium-text' : overrun ? 'text-red-400' : 'text-yellow-400'}>
+          {formatTimecode(timing.totalDuration)} / {formatTimecode(targetDuration)}
+        </span>
+      </div>
+      <div className="relative h-12 bg-gray-800 rounded overflow-hidden flex">
+        {scenes.map((scene, index) => (
+          <div
+            key={scene.sceneNumber}
+            className={`${SCENE_COLORS[index % SCENE_COLORS.length]} h-full border-r border-dark-bg flex flex-col items-center justify-center text-xs text-white overflow-hidden`}
+            style={{ width: `${(scene.duration / scaleDuration) * 100}%` }}
+            title={`Scene ${scene.sceneNumber}: ${formatTimecode(scene.startTime)} – ${formatTimecode(scene.startTime + scene.duration)}`}
+          >
+            <span className="font-bold">{scene.sceneNumber}</span>
+            <span className="opacity-75">{scene.duration}s</span>
+          </div>
+        ))}
+        {overrun && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-red-400"
+            style={{ left: `${(targetDuration / scaleDuration) * 100}%` }}
+            aria-label="Target length"
+          />
+        )}
+      </div>
+      {!timing.fits && (
+        <p className={`flex items-center gap-2 mt-3 text-sm ${overrun ? 'text-red-400' : 'text-yellow-400'}`}>
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {overrun
+              ? `This script runs ${timing.difference}s over its ${targetDuration}s slot.`
+              : `This script is ${-timing.difference}s short of its ${targetDuration}s slot.`}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SceneTimeline;
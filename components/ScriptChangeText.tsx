@@ -0,0 +1,20 @@
+import React from 'react';
+import { ScriptChange } from '../utils/scriptDiff';
+
+// The old and new text of a change: struck through in red, then in green.
+const ScriptChangeText: React.FC<{ change: ScriptChange }> = ({ change }) => {
+  if (change.kind === 'add') {
+    return <p className="text-green-300">{change.scene.setting} &mdash; {change.scene.action} <span className="text-medium-text">({change.scene.duration}s)</span></p>;
+  }
+  if (change.kind === 'remove') {
+    return <p className="text-red-300 line-through">{change.scene.setting} &mdash; {change.scene.action}</p>;
+  }
+  return (
+    <>
+      <p className="text-red-300 line-through">{change.before}</p>
+      <p className="text-green-300">{change.after}</p>
+    </>
+  );
+};
+
+export default ScriptChangeText;
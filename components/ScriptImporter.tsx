@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { AdScript } from '../types';
+import { IMPORT_ACCEPT, ImportIssue, ScriptImportError, formatImportIssue, importScript } from '../utils/scriptImport';
+import { AlertTriangleIcon, UploadCloudIcon } from './icons';
+
+interface ScriptImporterProps {
+  onImport: (script: AdScript, warnings: ImportIssue[]) => void;
+}
+
+const ScriptImporter: React.FC<ScriptImporterProps> = ({ onImport }) => {
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setIssues([]);
+    try {
+      const result = importScript(await file.text(), file.name);
+      onImport(result.script, result.warnings);
+    } catch (err) {
+      console.error(err);
+      setIssues(err instanceof ScriptImportError
+        ? err.issues
+        : [{ line: null, message: err instanceof Error ? err.message : 'Failed to read the file.' }]);
+    } finally {
+      // Allow the same file to be picked again after fixing it.
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <label className="w-full flex items-center justify-center gap-2 border border-dark-border hover:border-brand-purple-light text-medium-text hover:text-light-text font-semibold py-2 px-4 rounded-lg transition-colors duration-200 cursor-pointer">
+        <UploadCloudIcon className="h-5 w-5" />
+        <span>Import Script (JSON or Fountain)</span>
+        <input ref={inputRef} type="file" accept={IMPORT_ACCEPT} className="sr-only" onChange={(e) => handleFileChange(e.target.files)} />
+      </label>
+      {issues.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/50 border border-red-500 rounded-lg text-sm" role="alert">
+          <p className="flex items-center gap-2 font-semibold text-red-300 mb-1">
+            <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+            <span>Could not import {fileName}</span>
+          </p>
+          <ul className="list-disc list-inside text-red-400 space-y-0.5">
+            {issues.map((issue, index) => (
+              <li key={index}>{formatImportIssue(issue)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptImporter;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PartialAdScript } from '../types';
+import { formatTimecode } from '../utils/sceneTiming';
+import SceneTimeline from './SceneTimeline';
+import Loader from './Loader';
+
+interface ScriptStreamPreviewProps {
+  // null until the first part of the script has arrived.
+  partial: PartialAdScript | null;
+  targetDuration: number;
+  onCancel: () => void;
+}
+
+const cancelButtonClassName = "border border-dark-border hover:border-red-500 text-medium-text hover:text-red-300 font-semibold py-2 px-4 rounded-lg transition-colors";
+
+// Read-only view of a script while it streams in; it becomes the editable AdDisplay once complete.
+const ScriptStreamPreview: React.FC<ScriptStreamPreviewProps> = ({ partial, targetDuration, onCancel }) => {
+  if (!partial || !partial.title) {
+    return (
+      <div className="p-8 min-h-[400px] flex flex-col items-center justify-center">
+        <Loader />
+        <p className="mt-4 text-lg text-medium-text animate-pulse-fast">Generating your masterpiece...</p>
+        <button onClick={onCancel} className={`mt-6 ${cancelButtonClassName}`}>Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-8 space-y-6" aria-live="polite" aria-busy="true">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-brand-purple-light to-purple-400 text-transparent bg-clip-text">{partial.title}</h2>
+          {partial.tagline
+            ? <p className="text-xl mt-2 text-medium-text italic">{partial.tagline}</p>
+            : <div className="mt-3 h-5 w-64 rounded bg-gray-800 animate-pulse" />}
+        </div>
+        <button onClick={onCancel} className={cancelButtonClassName}>Cancel</button>
+      </div>
+
+      {partial.scenes.length > 0 && <SceneTimeline scenes={partial.scenes} targetDuration={targetDuration} />}
+
+      {partial.scenes.map(scene => (
+        <div key={scene.sceneNumber} className="bg-gray-900/50 p-6 rounded-lg border border-dark-border">
+          <div className="flex items-baseline gap-3 mb-4">
+            <h4 className="text-lg font-bold text-brand-purple-light">SCENE {scene.sceneNumber}</h4>
+            <span className="text-sm text-medium-text font-mono">
+              {formatTimecode(scene.startTime)} – {formatTimecode(scene.startTime + scene.duration)}
+            </span>
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4 text-sm">
+            {(['setting', 'action', 'dialogue', 'sound'] as const).map(field => (
+              <div key={field}>
+                <dt className="font-bold text-medium-text capitalize">{field}:</dt>
+                <dd className="text-light-text whitespace-pre-wrap">{scene[field]}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-3 p-6 rounded-lg border-2 border-dashed border-dark-border text-medium-text animate-pulse">
+        <span>Writing scene {partial.scenes.length + 1}...</span>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptStreamPreview;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { AdScript, StoryboardFrame } from '../types';
+import { getStoryboardFrame, toContactSheetPng, toImageDataUrl, toStoryboardPdf } from '../utils/storyboard';
+import { getSceneContentKey } from '../utils/scriptEditing';
+import { formatTimecode } from '../utils/sceneTiming';
+import { downloadBlob } from '../utils/fileUtils';
+import { getPdfUnavailableReason, toFileSlug } from '../utils/scriptExport';
+import { AlertTriangleIcon, DownloadIcon, RefreshIcon, SparklesIcon } from './icons';
+
+interface StoryboardPanelProps {
+  adScript: AdScript;
+  frames: StoryboardFrame[];
+  // False when there is no product image to use as reference.
+  canGenerate: boolean;
+  onGenerateFrame: (sceneIndex: number) => Promise<void>;
+}
+
+const StoryboardPanel: React.FC<StoryboardPanelProps> = ({ adScript, frames, canGenerate, onGenerateFrame }) => {
+  const [generatingKeys, setGeneratingKeys] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const pdfUnavailableReason = useMemo(() => getPdfUnavailableReason(adScript), [adScript]);
+
+  const missingIndexes = adScript.scenes
+    .map((scene, index) => (getStoryboardFrame(frames, scene) ? -1 : index))
+    .filter(index => index >= 0);
+
+  const generateFrame = async (index: number) => {
+    const key = getSceneContentKey(adScript.scenes[index]);
+    setGeneratingKeys(prev => new Set(prev).add(key));
+    setErrors(({ [key]: _, ...rest }) => rest);
+    try {
+      await onGenerateFrame(index);
+    } catch (err) {
+      console.error(err);
+      setErrors(prev => ({ ...prev, [key]: err instanceof Error ? err.message : 'Failed to generate the frame.' }));
+    } finally {
+      setGeneratingKeys(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  // One frame at a time keeps image-generation quota use predictable.
+  const handleGenerateAll = async () => {
+    setIsGeneratingAll(true);
+    for (const index of missingIndexes) {
+      await generateFrame(index);
+    }
+    setIsGeneratingAll(false);
+  };
+
+  const handleExport = async (format: 'pdf' | 'png') => {
+    setExportError(null);
+    setIsExporting(true);
+    try {
+      const blob = format === 'pdf' ? await toStoryboardPdf(adScript, frames) : await toContactSheetPng(adScript, frames);
+      downloadBlob(blob, `${toFileSlug(adScript.title)}-storyboard.${format}`);
+    } catch (err) {
+      console.error(err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export the storyboard.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const hasFrames = missingIndexes.length < adScript.scenes.length;
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-light-text">Storyboard</h3>
+          <p className="text-sm text-medium-text">One still per scene, for sign-off before spending video quota.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleGenerateAll}
+            disabled={!canGenerate || isGeneratingAll || missingIndexes.length === 0}
+            className="flex items-center gap-2 bg-brand-purple hover:bg-brand-purple-light disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <SparklesIcon className="h-5 w-5" />
+            <span>
+              {isGeneratingAll ? 'Drawing...' : missingIndexes.length === adScript.scenes.length ? 'Generate Storyboard' : `Generate ${missingIndexes.length} Missing`}
+            </span>
+          </button>
+          <button
+            onClick={() => handleExport('pdf')}
+            disabled={!hasFrames || isExporting || !!pdfUnavailableReason}
+            title={pdfUnavailableReason ?? undefined}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            <span>PDF</span>
+          </button>
+          <button
+            onClick={() => handleExport('png')}
+            disabled={!hasFrames || isExporting}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            <span>Contact Sheet</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {adScript.scenes.map((scene, index) => {
+          const key = getSceneContentKey(scene);
+          const frame = getStoryboardFrame(frames, scene);
+          const isGenerating = generatingKeys.has(key);
+          const error = errors[key];
+          return (
+            <figure key={index} className="flex flex-col">
+              <div className="relative aspect-video rounded-lg overflow-hidden bg-black/40 border border-dark-border flex items-center justify-center">
+                {frame ? (
+                  <img src={toImageDataUrl(frame)} alt={`Storyboard frame for scene ${scene.sceneNumber}`} className={`w-full h-full object-contain ${isGenerating ? 'opacity-40' : ''}`} />
+                ) : (
+                  <span className="text-xs text-medium-text">{isGenerating ? 'Drawing...' : 'No frame yet'}</span>
+                )}
+                <button
+                  onClick={() => generateFrame(index)}
+                  disabled={!canGenerate || isGenerating}
+                  className="absolute top-2 right-2 p-1.5 rounded-md bg-black/60 text-medium-text hover:text-light-text disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`${frame ? 'Regenerate' : 'Generate'} frame for scene ${scene.sceneNumber}`}
+                  title={frame ? 'Regenerate frame' : 'Generate frame'}
+                >
+                  <RefreshIcon className={`h-4 w-4 ${isGenerating ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              <figcaption className="mt-2 text-xs">
+                <span className="font-semibold text-brand-purple-light">Scene {scene.sceneNumber}</span>
+                <span className="text-medium-text"> &middot; {formatTimecode(scene.startTime)}</span>
+                <p className="text-medium-text line-clamp-2">{scene.action}</p>
+                {error && (
+                  <p className="mt-1 flex items-center gap-1 text-red-400">
+                    <AlertTriangleIcon className="h-3 w-3 flex-shrink-0" />
+                    <span>{error}</span>
+                  </p>
+                )}
+              </figcaption>
+            </figure>
+          );
+        })}
+      </div>
+
+      {exportError && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertTriangleIcon className="h-4 w-4 flex-shrink-0" />
+          <span>{exportError}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { AdScriptVariant } from '../types';
+import SceneTimeline from './SceneTimeline';
+import { CheckIcon, RedoIcon } from './icons';
+
+interface VariantComparisonProps {
+  variants: AdScriptVariant[];
+  targetDuration: number;
+  onSelect: (index: number) => void;
+  onReset: () => void;
+}
+
+type ViewMode = 'columns' | 'tabs';
+
+const VariantSummary: React.FC<{ variant: AdScriptVariant; targetDuration: number; onSelect: () => void; expanded: boolean }> = ({
+  variant, targetDuration, onSelect, expanded
+}) => (
+  <div className="flex flex-col gap-4 bg-gray-900/50 p-4 rounded-lg border border-dark-border">
+    <div>
+      <span className="text-xs uppercase tracking-wide text-medium-text">{variant.angle}</span>
+      <h3 className="text-xl font-bold bg-gradient-to-r from-brand-purple-light to-purple-400 text-transparent bg-clip-text">
+        {variant.script.title}
+      </h3>
+      <p className="text-medium-text italic">"{variant.script.tagline}"</p>
+    </div>
+    <SceneTimeline scenes={variant.script.scenes} targetDuration={targetDuration} />
+    <ol className="space-y-3 text-sm flex-1">
+      {variant.script.scenes.map(scene => (
+        <li key={scene.sceneNumber}>
+          <strong className="text-brand-purple-light">Scene {scene.sceneNumber}:</strong> {scene.action}
+          {expanded && (
+            <div className="mt-1 text-medium-text">
+              <p><span className="font-semibold">Setting:</span> {scene.setting}</p>
+              <p className="italic"><span className="font-semibold not-italic">Dialogue:</span> {scene.dialogue}</p>
+              <p><span className="font-semibold">Sound:</span> {scene.sound}</p>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+    <button
+      onClick={onSelect}
+      className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+    >
+      <CheckIcon className="h-5 w-5" />
+      <span>Use This Script</span>
+    </button>
+  </div>
+);
+
+const VariantComparison: React.FC<VariantComparisonProps> = ({ variants, targetDuration, onSelect, onReset }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('columns');
+  const [activeTab, setActiveTab] = useState(0);
+
+  const viewButtonClassName = (mode: ViewMode) =>
+    `px-3 py-1 rounded-md text-sm font-semibold transition-colors ${viewMode === mode ? 'bg-brand-purple text-white' : 'text-medium-text hover:text-light-text'}`;
+
+  return (
+    <div className="p-4 sm:p-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-light-text">Compare {variants.length} Concepts</h2>
+        <div className="flex items-center gap-4">
+          <div className="flex bg-gray-900/50 border border-dark-border rounded-lg p-1">
+            <button className={viewButtonClassName('columns')} onClick={() => setViewMode('columns')}>Side by side</button>
+            <button className={viewButtonClassName('tabs')} onClick={() => setViewMode('tabs')}>Tabs</button>
+          </div>
+          <button
+            onClick={onReset}
+            className="flex items-center gap-2 bg-brand-purple hover:bg-brand-purple-light text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            <RedoIcon className="h-5 w-5" />
+            <span>New Script</span>
+          </button>
+        </div>
+      </div>
+
+      {viewMode === 'columns' ? (
+        <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(220px, 1fr))`, overflowX: 'auto' }}>
+          {variants.map((variant, index) => (
+            <VariantSummary key={index} variant={variant} targetDuration={targetDuration} onSelect={() => onSelect(index)} expanded={false} />
+          ))}
+        </div>
+      ) : (
+        <div>
+          <div role="tablist" className="flex gap-2 border-b border-dark-border mb-4 overflow-x-auto">
+            {variants.map((variant, index) => (
+              <button
+                key={index}
+                role="tab"
+                aria-selected={activeTab === index}
+                onClick={() => setActiveTab(index)}
+                className={`px-4 py-2 text-sm font-semibold whitespace-nowrap border-b-2 transition-colors ${activeTab === index ? 'border-brand-purple-light text-light-text' : 'border-transparent text-medium-text hover:text-light-text'}`}
+              >
+                {variant.angle}
+              </button>
+            ))}
+          </div>
+          <VariantSummary variant={variants[activeTab]} targetDuration={targetDuration} onSelect={() => onSelect(activeTab)} expanded />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantComparison;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { ScriptHistory } from '../types';
+import { ORIGIN_LABELS, canRedo, canUndo } from '../utils/scriptHistory';
+import { describeChange, diffScripts } from '../utils/scriptDiff';
+import ScriptChangeText from './ScriptChangeText';
+import { HistoryIcon, RedoIcon, UndoIcon } from './icons';
+
+interface VersionHistoryPanelProps {
+  history: ScriptHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (index: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ history, onUndo, onRedo, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Null compares the current version with the one before it.
+  const [comparison, setComparison] = useState<{ from: number; to: number } | null>(null);
+  const { versions, currentIndex } = history;
+  const to = comparison?.to ?? currentIndex ?? versions.length - 1;
+  const from = comparison?.from ?? Math.max(0, to - 1);
+  const changes = useMemo(
+    () => (versions[from] && versions[to] ? diffScripts(versions[from].script, versions[to].script) : []),
+    [versions, from, to],
+  );
+
+  if (versions.length === 0) return null;
+  const current = currentIndex !== null ? versions[currentIndex] : null;
+
+  const buttonClassName = "flex items-center gap-1 text-sm text-medium-text hover:text-light-text disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+  const selectClassName = "bg-gray-900/50 border border-dark-border rounded-lg p-1 text-sm focus:ring-2 focus:ring-brand-purple focus:border-brand-purple";
+
+  const renderOption = (index: number) => (
+    <option key={index} value={index}>
+      v{versions[index].number} &middot; {ORIGIN_LABELS[versions[index].origin]}{index === currentIndex ? ' (current)' : ''}
+    </option>
+  );
+
+  return (
+    <div className="mx-4 sm:mx-8 mt-4 p-3 border border-dark-border rounded-lg bg-gray-900/30">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-medium-text">
+          {current ? (
+            <>Version {current.number} of {versions.length} &middot; {ORIGIN_LABELS[current.origin]}{current.note ? `: ${current.note}` : ''}</>
+          ) : (
+            <>{versions.length} version{versions.length === 1 ? '' : 's'}</>
+          )}
+        </p>
+        <div className="flex items-center gap-4">
+          <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClassName} title="Undo (Ctrl+Z)">
+            <UndoIcon className="h-4 w-4" />
+            <span>Undo</span>
+          </button>
+          <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClassName} title="Redo (Ctrl+Shift+Z)">
+            <RedoIcon className="h-4 w-4" />
+            <span>Redo</span>
+          </button>
+          <button onClick={() => setIsOpen(open => !open)} className={buttonClassName} aria-expanded={isOpen}>
+            <HistoryIcon className="h-4 w-4" />
+            <span>{isOpen ? 'Hide History' : 'History'}</span>
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 grid md:grid-cols-2 gap-4">
+          {/* Newest first. */}
+          <ol className="space-y-1 max-h-80 overflow-y-auto text-sm">
+            {versions.map((_, i) => versions.length - 1 - i).map(index => {
+              const version = versions[index];
+              return (
+                <li key={version.number} className={`flex items-start justify-between gap-2 p-2 rounded-lg ${index === currentIndex ? 'bg-brand-purple/20' : 'bg-gray-800/60'}`}>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-light-text">v{version.number} &middot; {ORIGIN_LABELS[version.origin]}</p>
+                    {version.note && <p className="text-xs text-medium-text truncate" title={version.note}>{version.note}</p>}
+                    <p className="text-xs text-gray-500">{formatTime(version.createdAt)}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                    {index === currentIndex ? (
+                      <span className="text-xs text-brand-purple-light">Current</span>
+                    ) : (
+                      <button onClick={() => onRestore(index)} className="text-xs text-brand-purple-light hover:text-light-text transition-colors">
+                        Restore
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setComparison({ from: index, to: currentIndex ?? versions.length - 1 })}
+                      className="text-xs text-medium-text hover:text-light-text transition-colors"
+                    >
+                      Compare
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          <div>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-medium-text mb-2">
+              <span>Compare</span>
+              <select aria-label="Older version" className={selectClassName} value={from} onChange={(e) => setComparison({ from: Number(e.target.value), to })}>
+                {versions.map((_, index) => renderOption(index))}
+              </select>
+              <span>with</span>
+              <select aria-label="Newer version" className={selectClassName} value={to} onChange={(e) => setComparison({ from, to: Number(e.target.value) })}>
+                {versions.map((_, index) => renderOption(index))}
+              </select>
+            </div>
+            {changes.length === 0 ? (
+              <p className="text-sm text-medium-text">No differences.</p>
+            ) : (
+              <ul className="space-y-2 text-sm max-h-72 overflow-y-auto">
+                {changes.map(change => (
+                  <li key={change.id}>
+                    <p className="font-semibold text-medium-text capitalize">{describeChange(change)}</p>
+                    <ScriptChangeText change={change} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { VideoJob } from '../services/videoJobManager';
+import { formatTimecode } from '../utils/sceneTiming';
+import Loader from './Loader';
+
+interface VideoJobProgressProps {
+  // Null while the job is still being submitted to the provider.
+  job: VideoJob | null;
+  onCancel: () => void;
+}
+
+const VideoJobProgress: React.FC<VideoJobProgressProps> = ({ job, onCancel }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsedSeconds = job ? Math.max(0, Math.floor((now - job.startedAt) / 1000)) : 0;
+  const nextCheckSeconds = job?.nextPollAt ? Math.max(0, Math.ceil((job.nextPollAt - now) / 1000)) : null;
+
+  let status = 'Submitting your video request...';
+  if (job) {
+    status = nextCheckSeconds === 0 ? 'Checking render status...' : 'Rendering your video...';
+  }
+
+  return (
+    <div className="p-8 min-h-[250px] flex flex-col items-center justify-center bg-gray-900/50 border border-dark-border rounded-lg text-center">
+      <Loader />
+      <p className="mt-4 text-lg text-light-text">{status}</p>
+      {job && (
+        <p className="mt-2 text-sm text-medium-text" aria-live="polite">
+          Elapsed {formatTimecode(elapsedSeconds)}
+          {' · '}
+          {job.pollCount === 0 ? 'Not checked yet' : `Checked ${job.pollCount} time${job.pollCount === 1 ? '' : 's'}`}
+          {nextCheckSeconds !== null && nextCheckSeconds > 0 && ` · Next check in ${nextCheckSeconds}s`}
+        </p>
+      )}
+      {job?.error && (
+        <p className="mt-2 text-sm text-yellow-300">The last check failed ({job.error}); checking again.</p>
+      )}
+      <p className="mt-1 text-xs text-medium-text">Rendering usually takes a few minutes. You can close this tab and the job will resume when you return.</p>
+      <button
+        onClick={onCancel}
+        disabled={!job}
+        className="mt-6 border border-dark-border hover:border-red-500 text-medium-text hover:text-red-300 font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default VideoJobProgress;
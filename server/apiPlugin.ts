@@ -0,0 +1,191 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { Connect, Plugin } from 'vite';
+import type { CreativeBrief, ProductInput } from '../types';
+import { getErrorCode, getHttpStatus, toErrorPayload } from '../utils/adErrors';
+import { configureGeminiApiKey, downloadGeminiVideo, geminiProvider } from '../services/providers/geminiProvider';
+import {
+  HttpError, type RequestBody, isRecord, optionalHistory, optionalString, optionalStringList, requireBrief, requireImage,
+  requireImages, requireProduct, requireSceneIndex, requireScript, requireString, requireVariantCount,
+} from './requestValidation';
+
+// Product images arrive base64-encoded inside the JSON body, several per request.
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+const readJsonBody = async (req: IncomingMessage): Promise<RequestBody> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "The request is too large.");
+    }
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    body = null;
+  }
+  if (!isRecord(body)) {
+    throw new HttpError(400, "The request body must be a JSON object.");
+  }
+  return body;
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(payload));
+};
+
+/**
+ * Streams a script as newline-delimited JSON: a `partial` line each time more of it is complete,
+ * then a final `script` or `error` line. Generation stops if the page disconnects, e.g. on cancel.
+ */
+const streamScript = async (res: ServerResponse, product: ProductInput, brief: CreativeBrief) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-store');
+  const writeLine = (payload: unknown) => res.write(`${JSON.stringify(payload)}\n`);
+
+  try {
+    const script = await geminiProvider.generateAdScript(product, brief, {
+      signal: controller.signal,
+      onProgress: partial => writeLine({ partial }),
+    });
+    writeLine({ script });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error("Streaming script generation failed:", error);
+    writeLine(toErrorPayload(error, 'An unexpected server error occurred.'));
+  }
+  res.end();
+};
+
+const requireJobId = (url: URL): string => {
+  const jobId = url.searchParams.get('job');
+  if (!jobId) {
+    throw new HttpError(400, "Missing the 'job' query parameter.");
+  }
+  return jobId;
+};
+
+// Streams the MP4 through the server so the browser never sees the keyed download link.
+const streamVideo = async (jobId: string, res: ServerResponse) => {
+  const status = await geminiProvider.getVideoJobStatus(jobId);
+  if (!status.done || !status.videoUrl) {
+    throw new HttpError(409, "The video is not ready yet.");
+  }
+  const upstream = await downloadGeminiVideo(status.videoUrl);
+  res.statusCode = 200;
+  res.setHeader('Content-Type', upstream.headers.get('content-type') ?? 'video/mp4');
+  res.setHeader('Cache-Control', 'no-store');
+  const length = upstream.headers.get('content-length');
+  if (length) res.setHeader('Content-Length', length);
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    Readable.fromWeb(upstream.body as WebReadableStream).on('error', reject).pipe(res).on('finish', resolve).on('error', reject);
+  });
+};
+
+const handleApiRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname}`;
+
+  switch (route) {
+    case 'POST /api/products/analyze': {
+      const body = await readJsonBody(req);
+      return sendJson(res, 200, await geminiProvider.analyzeProduct(requireImages(body.images), optionalString(body, 'description')));
+    }
+    case 'POST /api/scripts': {
+      const body = await readJsonBody(req);
+      return streamScript(res, requireProduct(body), requireBrief(body));
+    }
+    case 'POST /api/scripts/variants': {
+      const body = await readJsonBody(req);
+      return sendJson(res, 200, await geminiProvider.generateAdScriptVariants(requireProduct(body), requireBrief(body), requireVariantCount(body)));
+    }
+    case 'POST /api/scenes/regenerate': {
+      const body = await readJsonBody(req);
+      const script = requireScript(body);
+      return sendJson(res, 200, await geminiProvider.regenerateScene(script, requireSceneIndex(body, script), requireProduct(body), requireBrief(body)));
+    }
+    case 'POST /api/scripts/refine': {
+      const body = await readJsonBody(req);
+      return sendJson(res, 200, await geminiProvider.refineAdScript(requireScript(body), optionalHistory(body), requireString(body, 'instruction'), requireBrief(body)));
+    }
+    case 'POST /api/compliance/review': {
+      const body = await readJsonBody(req);
+      return sendJson(res, 200, await geminiProvider.reviewCompliance(requireScript(body), optionalStringList(body, 'markets'), optionalStringList(body, 'competitors')));
+    }
+    case 'POST /api/storyboard/frames': {
+      const body = await readJsonBody(req);
+      const script = requireScript(body);
+      const { base64Image, mimeType } = requireImage(body);
+      return sendJson(res, 200, await geminiProvider.generateStoryboardFrame(script, requireSceneIndex(body, script), base64Image, mimeType, requireBrief(body)));
+    }
+    case 'POST /api/videos': {
+      const body = await readJsonBody(req);
+      const { base64Image, mimeType } = requireImage(body);
+      return sendJson(res, 200, { jobId: await geminiProvider.startVideoJob(requireString(body, 'prompt'), base64Image, mimeType) });
+    }
+    case 'GET /api/videos/status': {
+      const jobId = requireJobId(url);
+      const status = await geminiProvider.getVideoJobStatus(jobId);
+      // Swap the keyed upstream link for this server's download route.
+      return sendJson(res, 200, status.done ? { done: true, videoUrl: `/api/videos/download?job=${encodeURIComponent(jobId)}` } : { done: false });
+    }
+    case 'GET /api/videos/download':
+      return streamVideo(requireJobId(url), res);
+    default:
+      throw new HttpError(404, `No API route for ${route}.`);
+  }
+};
+
+const createApiMiddleware = (): Connect.NextHandleFunction => (req, res, next) => {
+  if (!req.url?.startsWith('/api/')) {
+    next();
+    return;
+  }
+  handleApiRequest(req, res).catch(error => {
+    if (!(error instanceof HttpError)) {
+      console.error(`API request ${req.method} ${req.url} failed:`, error);
+    }
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    const payload = toErrorPayload(error, 'An unexpected server error occurred.');
+    if (payload.retryAfterSeconds) {
+      res.setHeader('Retry-After', String(payload.retryAfterSeconds));
+    }
+    sendJson(res, error instanceof HttpError ? error.status : getHttpStatus(getErrorCode(error)), payload);
+  });
+};
+
+/**
+ * Serves the /api routes from the Vite dev and preview servers. The Gemini key is only handed
+ * to the provider here, in Node, and is never compiled into the client bundle.
+ */
+export const adStudioApiPlugin = (apiKey: string | undefined): Plugin => ({
+  name: 'ai-ad-studio-api',
+  configureServer(server) {
+    configureGeminiApiKey(apiKey);
+    server.middlewares.use(createApiMiddleware());
+  },
+  configurePreviewServer(server) {
+    configureGeminiApiKey(apiKey);
+    server.middlewares.use(createApiMiddleware());
+  },
+});
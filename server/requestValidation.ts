@@ -0,0 +1,148 @@
+import type { AdScript, BrandKit, CreativeBrief, InlineImage, ProductInput, RefinementMessage } from '../types';
+import { formatIssues, validateAdScript } from '../utils/adScriptValidator';
+import { AD_DURATIONS, AD_PLATFORMS, MAX_VARIANTS } from '../utils/creativeBrief';
+import { normalizeProductProfile } from '../utils/productProfile';
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export type RequestBody = Record<string, unknown>;
+
+const badRequest = (message: string) => new HttpError(400, message);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const requireString = (body: RequestBody, key: string): string => {
+  const value = body[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw badRequest(`The request must include '${key}' as a non-empty string.`);
+  }
+  return value;
+};
+
+export const optionalString = (body: RequestBody, key: string): string => {
+  const value = body[key] ?? '';
+  if (typeof value !== 'string') throw badRequest(`'${key}' must be a string.`);
+  return value;
+};
+
+export const optionalStringList = (body: RequestBody, key: string): string[] => {
+  const value = body[key] ?? [];
+  if (!isStringList(value)) throw badRequest(`'${key}' must be a list of strings.`);
+  return value;
+};
+
+const toInlineImage = (value: unknown): InlineImage | null =>
+  isRecord(value) && typeof value.base64Image === 'string' && value.base64Image && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/')
+    ? { base64Image: value.base64Image, mimeType: value.mimeType }
+    : null;
+
+// The `base64Image` and `mimeType` fields of a reference-image request.
+export const requireImage = (body: RequestBody): InlineImage => {
+  const image = toInlineImage(body);
+  if (!image) throw badRequest("The request must include a base64Image and an image mimeType.");
+  return image;
+};
+
+export const requireImages = (value: unknown): InlineImage[] => {
+  const images = Array.isArray(value) ? value.map(toInlineImage) : [];
+  if (images.length === 0 || images.some(image => !image)) {
+    throw badRequest("The request must include at least one product image, each with base64Image and an image mimeType.");
+  }
+  return images as InlineImage[];
+};
+
+export const requireProduct = (body: RequestBody): ProductInput => {
+  const product = body.product;
+  if (!isRecord(product)) {
+    throw badRequest("The request must include a product.");
+  }
+  return {
+    images: requireImages(product.images),
+    description: optionalString(product, 'description'),
+    profile: product.profile == null ? null : normalizeProductProfile(product.profile),
+  };
+};
+
+export const toBrandKit = (value: unknown): BrandKit | null => {
+  if (value == null) return null;
+  if (!isRecord(value) || typeof value.name !== 'string') {
+    throw badRequest("'brief.brandKit' must be a brand kit with a name.");
+  }
+  return {
+    id: typeof value.id === 'string' ? value.id : '',
+    name: value.name,
+    voice: optionalString(value, 'voice'),
+    mandatoryTagline: optionalString(value, 'mandatoryTagline'),
+    disclaimer: optionalString(value, 'disclaimer'),
+    bannedWords: optionalStringList(value, 'bannedWords'),
+    colors: optionalStringList(value, 'colors'),
+    logoNotes: optionalString(value, 'logoNotes'),
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : 0,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : 0,
+  };
+};
+
+export const requireBrief = (body: RequestBody): CreativeBrief => {
+  const brief = body.brief;
+  if (!isRecord(brief)) {
+    throw badRequest("The request must include a creative brief.");
+  }
+  const duration = AD_DURATIONS.find(value => value === brief.duration);
+  if (!duration) {
+    throw badRequest(`'brief.duration' must be one of ${AD_DURATIONS.join(', ')}.`);
+  }
+  const platform = AD_PLATFORMS.find(({ value }) => value === brief.platform)?.value;
+  if (!platform) {
+    throw badRequest(`'brief.platform' must be one of ${AD_PLATFORMS.map(({ value }) => value).join(', ')}.`);
+  }
+  return {
+    duration,
+    platform,
+    tone: optionalString(brief, 'tone'),
+    language: requireString(brief, 'language'),
+    targetAudience: optionalString(brief, 'targetAudience'),
+    callToAction: optionalString(brief, 'callToAction'),
+    brandKit: toBrandKit(brief.brandKit),
+  };
+};
+
+export const requireScript = (body: RequestBody): AdScript => {
+  const { script, issues } = validateAdScript(body.script);
+  if (!script) throw badRequest(`The script is invalid: ${formatIssues(issues)}`);
+  return script;
+};
+
+export const requireSceneIndex = (body: RequestBody, script: AdScript): number => {
+  const { sceneIndex } = body;
+  if (typeof sceneIndex !== 'number' || !Number.isInteger(sceneIndex) || sceneIndex < 0 || sceneIndex >= script.scenes.length) {
+    throw badRequest(`'sceneIndex' must be a whole number from 0 to ${script.scenes.length - 1}.`);
+  }
+  return sceneIndex;
+};
+
+export const requireVariantCount = (body: RequestBody): number => {
+  const { count } = body;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) {
+    throw badRequest(`'count' must be a whole number from 1 to ${MAX_VARIANTS}.`);
+  }
+  return count;
+};
+
+export const optionalHistory = (body: RequestBody): RefinementMessage[] => {
+  const history = body.history ?? [];
+  const isMessage = (value: unknown): value is RefinementMessage =>
+    isRecord(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+  if (!Array.isArray(history) || !history.every(isMessage)) {
+    throw badRequest("'history' must be a list of { role, text } messages.");
+  }
+  return history.map(({ role, text }) => ({ role, text }));
+};
@@ -0,0 +1,84 @@
+import type { AdScript, AdScriptVariant, ComplianceFinding, CreativeBrief, InlineImage, PartialAdScript, ProductInput, ProductProfile, RefinementMessage, Scene, ScriptRevision } from '../types';
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { proxyProvider } from './providers/proxyProvider';
+
+// 'gemini' calls the API directly and needs the key, so it only runs server-side; the browser
+// reaches Gemini through 'proxy'.
+export type AdProviderName = 'gemini' | 'proxy' | 'mock';
+
+export interface VideoJobStatus {
+  done: boolean;
+  // Set once the job is done. For the gemini provider the link still needs the API key
+  // (see downloadGeminiVideo); the other providers return a URL the page can play.
+  videoUrl?: string;
+}
+
+export interface ScriptGenerationOptions {
+  // Called with the parts of the script received in full so far, each time more of it arrives.
+  onProgress?: (partial: PartialAdScript) => void;
+  // Aborting cancels the generation; the call then rejects with a CancelledError.
+  signal?: AbortSignal;
+}
+
+export const SCRIPT_CANCELLED_MESSAGE = "Script generation was cancelled.";
+
+/**
+ * A backend capable of producing ad scripts and videos.
+ * The app only talks to the active provider through `services/geminiService.ts`.
+ */
+export interface AdProvider {
+  readonly name: AdProviderName;
+  // Extracts a structured profile (category, colors, features, visible text) from the product shots.
+  analyzeProduct(images: InlineImage[], description: string): Promise<ProductProfile>;
+  generateAdScript(product: ProductInput, brief: CreativeBrief, options?: ScriptGenerationOptions): Promise<AdScript>;
+  // Produces up to `count` scripts, each exploring a different creative angle.
+  generateAdScriptVariants(product: ProductInput, brief: CreativeBrief, count: number, options?: Pick<ScriptGenerationOptions, 'signal'>): Promise<AdScriptVariant[]>;
+  // Produces a replacement for `script.scenes[sceneIndex]`, using the rest of the script as context.
+  regenerateScene(script: AdScript, sceneIndex: number, product: ProductInput, brief: CreativeBrief): Promise<Scene>;
+  // Revises the script following `instruction`, with the earlier turns of the conversation as context.
+  refineAdScript(script: AdScript, history: RefinementMessage[], instruction: string, brief: CreativeBrief): Promise<ScriptRevision>;
+  // A second opinion on the local compliance rules: risky claims for the given markets and categories.
+  reviewCompliance(script: AdScript, markets: string[], competitors: string[]): Promise<ComplianceFinding[]>;
+  // Draws a storyboard still for `script.scenes[sceneIndex]`, using the product image as reference.
+  generateStoryboardFrame(script: AdScript, sceneIndex: number, base64Image: string, mimeType: string, brief: CreativeBrief): Promise<InlineImage>;
+  // Starts a long-running video render and returns an id that can be polled, even after a reload.
+  startVideoJob(prompt: string, base64Image: string, mimeType: string): Promise<string>;
+  // Throws if the job failed.
+  getVideoJobStatus(jobId: string): Promise<VideoJobStatus>;
+}
+
+const providers: Record<AdProviderName, AdProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+const isBrowser = typeof window !== 'undefined';
+
+const resolveConfiguredProvider = (): AdProvider => {
+  const configured = (process.env.AD_PROVIDER || 'gemini').toLowerCase();
+  // The key never reaches the browser, so the page always goes through the local server for Gemini.
+  if (configured === 'gemini' && isBrowser) {
+    return providers.proxy;
+  }
+  if (configured in providers) {
+    return providers[configured as AdProviderName];
+  }
+  console.warn(`Unknown AD_PROVIDER "${configured}", falling back to gemini.`);
+  return isBrowser ? providers.proxy : providers.gemini;
+};
+
+let activeProvider: AdProvider | null = null;
+
+export const getAdProvider = (): AdProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to force the mock backend in tests or demos.
+export const setAdProvider = (name: AdProviderName): void => {
+  activeProvider = providers[name];
+};
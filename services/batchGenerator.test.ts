@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { AdScript } from '../types';
+import { AuthError, QuotaError } from '../utils/adErrors';
+import { type BatchRowStatus, runBatch } from './batchGenerator';
+
+const script: AdScript = { title: 'Test', tagline: 'Tagline', scenes: [] };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const run = async (indexes: number[], generate: (index: number) => Promise<AdScript>, concurrency: number) => {
+  const statuses = new Map<number, BatchRowStatus>();
+  await runBatch(indexes, generate, {
+    concurrency,
+    policy: { initialDelayMs: 10, maxDelayMs: 10 },
+    onUpdate: (index, status) => statuses.set(index, status),
+  });
+  return statuses;
+};
+
+describe('runBatch', () => {
+  it('generates every row', async () => {
+    const statuses = await run([0, 1, 2], async () => script, 2);
+    expect([...statuses.values()].map(status => status.state)).toEqual(['succeeded', 'succeeded', 'succeeded']);
+  });
+
+  it('fails a row without retrying errors that will not go away', async () => {
+    let calls = 0;
+    const statuses = await run([0], async () => {
+      calls++;
+      throw new AuthError();
+    }, 1);
+    expect(statuses.get(0)).toMatchObject({ state: 'failed', attempts: 1, errorCode: 'auth' });
+    expect(calls).toBe(1);
+  });
+
+  it('retries a rate-limited row after the other workers have finished', async () => {
+    let row1Calls = 0;
+    const statuses = await run([0, 1], async index => {
+      if (index === 0) return script;
+      row1Calls++;
+      // Fail only once row 0 is done, so its worker has already left on an empty queue.
+      await delay(20);
+      if (row1Calls === 1) throw new QuotaError('Slow down.', 0.1);
+      return script;
+    }, 2);
+    expect(statuses.get(0)?.state).toBe('succeeded');
+    expect(statuses.get(1)).toMatchObject({ state: 'succeeded', attempts: 2 });
+  });
+});
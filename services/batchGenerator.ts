@@ -0,0 +1,159 @@
+import type { AdScript } from '../types';
+import { getErrorCode, type AdErrorCode } from '../utils/adErrors';
+import { type RetryPolicy, getRetryDelay, isRetryable, sleep } from '../utils/retry';
+import type { CatalogRow } from '../utils/catalog';
+import { formatCsv } from '../utils/csv';
+import { getTotalDuration } from '../utils/sceneTiming';
+import { toCsv, toFileSlug, toJson } from '../utils/scriptExport';
+import { createZip, type ZipEntry } from '../utils/zipArchive';
+
+export type BatchRowState = 'queued' | 'running' | 'waiting' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface BatchRowStatus {
+  state: BatchRowState;
+  // Tries so far in the current run.
+  attempts: number;
+  script: AdScript | null;
+  error: string | null;
+  errorCode: AdErrorCode | null;
+  // When a waiting row will be tried again.
+  retryAt: number | null;
+}
+
+export const QUEUED_STATUS: BatchRowStatus = { state: 'queued', attempts: 0, script: null, error: null, errorCode: null, retryAt: null };
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Slower than the per-request policy: by the time a row fails here, the server has already retried it.
+export const BATCH_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 5000,
+  maxDelayMs: 60000,
+  backoffFactor: 2,
+  // A longer rate-limit wait fails the row instead of stalling the whole batch.
+  maxRetryAfterMs: 5 * 60 * 1000,
+};
+
+export interface BatchParams {
+  concurrency: number;
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  onUpdate: (index: number, status: BatchRowStatus) => void;
+}
+
+/**
+ * Generates a script for each of `indexes`, at most `concurrency` at a time. Failures that can go
+ * away on their own are retried with backoff. A rate limit pauses every worker until the wait the
+ * API asked for is over, and lowers the concurrency by one for the rest of the run.
+ */
+export const runBatch = async (
+  indexes: number[],
+  generate: (index: number, signal?: AbortSignal) => Promise<AdScript>,
+  { concurrency, policy, signal, onUpdate }: BatchParams,
+): Promise<void> => {
+  const settings = { ...BATCH_RETRY_POLICY, ...policy };
+  const statuses = new Map<number, BatchRowStatus>();
+  const update = (index: number, changes: Partial<BatchRowStatus>) => {
+    const status = { ...(statuses.get(index) ?? QUEUED_STATUS), ...changes };
+    statuses.set(index, status);
+    onUpdate(index, status);
+  };
+  indexes.forEach(index => update(index, QUEUED_STATUS));
+
+  const queue = [...indexes];
+  let limit = Math.max(1, concurrency);
+  let pausedUntil = 0;
+
+  const work = async (slot: number) => {
+    while (slot < limit && queue.length > 0 && !signal?.aborted) {
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause, signal);
+        continue;
+      }
+
+      const index = queue.shift()!;
+      const attempts = statuses.get(index)!.attempts + 1;
+      update(index, { state: 'running', attempts, error: null, errorCode: null, retryAt: null });
+      try {
+        const script = await generate(index, signal);
+        update(index, { state: 'succeeded', script });
+        continue;
+      } catch (error) {
+        if (signal?.aborted) {
+          update(index, { state: 'cancelled' });
+          return;
+        }
+        const message = error instanceof Error ? error.message : 'Failed to generate the script.';
+        const errorCode = getErrorCode(error);
+        const delayMs = isRetryable(error) && attempts < settings.maxAttempts ? getRetryDelay(error, attempts - 1, settings) : null;
+        if (delayMs === null) {
+          update(index, { state: 'failed', error: message, errorCode });
+          continue;
+        }
+        const retryAt = Date.now() + delayMs;
+        update(index, { state: 'waiting', error: message, errorCode, retryAt });
+        if (errorCode === 'quota') {
+          pausedUntil = Math.max(pausedUntil, retryAt);
+          limit = Math.max(1, limit - 1);
+        } else if (!(await sleep(delayMs, signal))) {
+          update(index, { state: 'cancelled' });
+          return;
+        }
+        queue.unshift(index);
+      }
+    }
+  };
+
+  // A worker above a lowered limit hands its row back and stops; when the others have already
+  // run out of work, nobody would pick that row up, so the pool is started again until it is empty.
+  do {
+    await Promise.all(Array.from({ length: limit }, (_, slot) => work(slot)));
+  } while (queue.length > 0 && !signal?.aborted);
+  // Whatever had not started when the batch was cancelled.
+  queue.forEach(index => update(index, { state: 'cancelled', retryAt: null }));
+};
+
+export interface BatchResult {
+  row: CatalogRow;
+  status: BatchRowStatus;
+}
+
+export const SUMMARY_COLUMNS = ['SKU', 'Name', 'Status', 'Attempts', 'Title', 'Tagline', 'Duration (s)', 'Error'];
+
+/**
+ * Packs a batch into one ZIP: a JSON and a CSV file per generated script under scripts/, every
+ * script in scripts.json, and summary.csv with one line per product, including the failed ones.
+ */
+export const createBatchArchive = (results: BatchResult[]): Blob => {
+  const entries: ZipEntry[] = [];
+  const usedSlugs = new Set<string>();
+  const succeeded = results.filter(({ status }) => status.script);
+
+  succeeded.forEach(({ row, status }) => {
+    const base = toFileSlug(row.sku);
+    let slug = base;
+    for (let n = 2; usedSlugs.has(slug); n++) slug = `${base}-${n}`;
+    usedSlugs.add(slug);
+    entries.push({ name: `scripts/${slug}.json`, data: toJson(status.script!) });
+    entries.push({ name: `scripts/${slug}.csv`, data: toCsv(status.script!) });
+  });
+
+  const all = succeeded.map(({ row, status }) => ({ sku: row.sku, name: row.name, script: status.script }));
+  entries.push({ name: 'scripts.json', data: JSON.stringify(all, null, 2) });
+
+  const summary = results.map(({ row, status }) => [
+    row.sku,
+    row.name,
+    status.state,
+    status.attempts,
+    status.script?.title ?? '',
+    status.script?.tagline ?? '',
+    status.script ? getTotalDuration(status.script.scenes) : '',
+    status.error ?? '',
+  ]);
+  entries.push({ name: 'summary.csv', data: formatCsv([SUMMARY_COLUMNS, ...summary]) });
+
+  return createZip(entries);
+};
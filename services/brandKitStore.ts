@@ -0,0 +1,21 @@
+import type { BrandKit, BrandKitData } from '../types';
+import { STORES, createId, deleteRecord, getAllRecords, getRecord, putRecord } from './localDatabase';
+
+export const createBrandKitId = createId;
+
+// Alphabetical, since kits are picked by brand name.
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await getAllRecords<BrandKit>(STORES.brandKits);
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Creates or updates a kit, keeping the creation time of an existing one.
+export const saveBrandKit = async (id: string, data: BrandKitData): Promise<BrandKit> => {
+  const existing = await getRecord<BrandKit>(STORES.brandKits, id);
+  const now = Date.now();
+  const kit: BrandKit = { ...data, id, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  await putRecord(STORES.brandKits, kit);
+  return kit;
+};
+
+export const deleteBrandKit = (id: string): Promise<void> => deleteRecord(STORES.brandKits, id);
@@ -0,0 +1,29 @@
+import { DEFAULT_RULE_SET_IDS } from '../utils/compliance';
+
+export interface ComplianceSettings {
+  ruleSetIds: string[];
+  competitors: string[];
+}
+
+const STORAGE_KEY = 'ai-ad-studio.complianceSettings';
+
+// Settings are per browser rather than per project: an agency usually works under the same rules.
+export const loadComplianceSettings = (): ComplianceSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      ruleSetIds: Array.isArray(stored?.ruleSetIds) ? stored.ruleSetIds : DEFAULT_RULE_SET_IDS,
+      competitors: Array.isArray(stored?.competitors) ? stored.competitors : [],
+    };
+  } catch {
+    return { ruleSetIds: DEFAULT_RULE_SET_IDS, competitors: [] };
+  }
+};
+
+export const saveComplianceSettings = (settings: ComplianceSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save the compliance settings:", error);
+  }
+};
@@ -0,0 +1,70 @@
+const DB_NAME = 'ai-ad-studio';
+const DB_VERSION = 2;
+
+// Every object store the app uses. Stores are keyed by an `id` property and created on upgrade if missing.
+export const STORES = {
+  projects: 'projects',
+  brandKits: 'brandKits',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this environment."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open the local database."));
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Local database request failed."));
+  });
+
+const withStore = async <T>(storeName: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return requestToPromise(run(transaction.objectStore(storeName)));
+};
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getRecord = async <T>(storeName: StoreName, id: string): Promise<T | null> => {
+  const record = await withStore(storeName, 'readonly', store => store.get(id) as IDBRequest<T | undefined>);
+  return record ?? null;
+};
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(record));
+};
+
+export const deleteRecord = async (storeName: StoreName, id: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(id));
+};
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
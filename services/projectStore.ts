@@ -0,0 +1,82 @@
+import type { Project, ProjectData, ScriptReview, SharedReview } from '../types';
+import { createScriptHistory } from '../utils/scriptHistory';
+import { STORES, createId, deleteRecord, getAllRecords, getRecord, putRecord } from './localDatabase';
+
+export const createProjectId = createId;
+
+// Older records kept a single product image and predate storyboards, product profiles, brand kits, version history, reviews and shared review pages.
+type StoredProject = Partial<Project> & Pick<Project, 'id'> & {
+  productImage?: Blob | null;
+  productImageName?: string | null;
+};
+
+// Pages shared before they were recorded are known from the feedback already imported for them.
+const toSharedReviews = (reviews: ScriptReview[]): SharedReview[] =>
+  reviews
+    .filter((review, index) => reviews.findIndex(other => other.reviewId === review.reviewId) === index)
+    .map(review => ({ reviewId: review.reviewId, versionNumber: review.versionNumber ?? 1, sharedAt: review.submittedAt }));
+
+const normalizeProject = ({ productImage, productImageName, ...record }: StoredProject): Project => ({
+  ...(record as Project),
+  productImages: record.productImages ?? (productImage ? [{ blob: productImage, name: productImageName ?? 'product-image' }] : []),
+  heroImageIndex: record.heroImageIndex ?? 0,
+  productProfile: record.productProfile ?? null,
+  creativeBrief: { brandKit: null, ...(record.creativeBrief as Project['creativeBrief']) },
+  storyboard: record.storyboard ?? [],
+  scriptHistory: record.scriptHistory ?? createScriptHistory(record.adScript ?? null, 'generated', record.updatedAt),
+  reviews: record.reviews ?? [],
+  sharedReviews: record.sharedReviews ?? toSharedReviews(record.reviews ?? []),
+});
+
+// Most recently updated first.
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await getAllRecords<StoredProject>(STORES.projects);
+  return projects.map(normalizeProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const record = await getRecord<StoredProject>(STORES.projects, id);
+  return record ? normalizeProject(record) : null;
+};
+
+/**
+ * Creates or updates a project. The name and creation time of an existing project are kept;
+ * `defaultName` is only used the first time the project is saved.
+ */
+export const saveProject = async (id: string, data: ProjectData, defaultName: string): Promise<Project> => {
+  const existing = await getProject(id);
+  const now = Date.now();
+  const project: Project = {
+    ...data,
+    id,
+    name: existing?.name ?? defaultName,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putRecord(STORES.projects, project);
+  return project;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error("Project not found.");
+  await putRecord(STORES.projects, { ...existing, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error("Project not found.");
+  const now = Date.now();
+  const copy: Project = { ...existing, id: createProjectId(), name: `${existing.name} (copy)`, createdAt: now, updatedAt: now };
+  await putRecord(STORES.projects, copy);
+  return copy;
+};
+
+export const deleteProject = (id: string): Promise<void> => deleteRecord(STORES.projects, id);
+
+export const matchesProjectSearch = (project: Project, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [project.name, project.productDescription, project.productProfile?.productName, project.productProfile?.brand, project.adScript?.title, project.adScript?.tagline]
+    .some(field => field?.toLowerCase().includes(needle));
+};
@@ -0,0 +1,726 @@
+import { ApiError, FinishReason, GenerateVideosOperation, GoogleGenAI, Type, type Content, type GenerateContentResponse, type Part } from "@google/genai";
+import type { AdScript, AdScriptVariant, ComplianceFinding, CreativeBrief, InlineImage, ProductInput, ProductProfile, RefinementMessage, Scene, ScriptRevision } from '../../types';
+import { SCRIPT_CANCELLED_MESSAGE, type AdProvider, type ScriptGenerationOptions, type VideoJobStatus } from '../adProvider';
+import { checkSceneTiming } from '../../utils/sceneTiming';
+import { CREATIVE_ANGLES, describeFormat, getFrameAspectRatio, getPlatformGuidance } from '../../utils/creativeBrief';
+import { parseAdScript, parsePartialAdScript, parseScene, validateAdScript, formatIssues, AdScriptValidationError, type ValidationIssue } from '../../utils/adScriptValidator';
+import { describeProduct, normalizeProductProfile } from '../../utils/productProfile';
+import { checkBrandKit, describeBrandKit, describeBrandVisuals, toValidationIssues } from '../../utils/brandKit';
+import { normalizeModelFindings } from '../../utils/compliance';
+import { AdServiceError, AuthError, CancelledError, InvalidResponseError, NetworkError, QuotaError, SafetyBlockError, TimeoutError, fromErrorPayload, getErrorCode } from '../../utils/adErrors';
+import { withRetry } from '../../utils/retry';
+
+// How many times to re-prompt the model when its script cannot be repaired locally.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// A hung connection surfaces as a timeout instead of leaving the app waiting forever.
+const REQUEST_TIMEOUT_MS = 120000;
+
+let client: GoogleGenAI | null = null;
+let configuredApiKey: string | null = null;
+
+// Lets the API server hand over its key explicitly instead of relying on the process environment.
+export const configureGeminiApiKey = (apiKey: string | undefined) => {
+  configuredApiKey = apiKey || null;
+  client = null;
+};
+
+const getApiKey = (): string => {
+  const apiKey = configuredApiKey ?? process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+  if (!apiKey) {
+    throw new AuthError("GEMINI_API_KEY is not set. Add it to .env.local and restart the server.");
+  }
+  return apiKey;
+};
+
+// The client is created on first use so the app can boot (e.g. with the mock provider) without a key.
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: getApiKey() });
+  }
+  return client;
+};
+
+// Rate limit errors carry the wait in their details, e.g. "retryDelay": "27s".
+const parseRetryDelay = (message: string): number | null => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1])) : null;
+};
+
+// Maps whatever the SDK threw onto the app's error types; `fallbackMessage` is for anything unrecognised.
+const toAdError = (error: unknown, fallbackMessage: string, signal?: AbortSignal): AdServiceError => {
+  if (error instanceof AdServiceError) return error;
+  if (signal?.aborted) return new CancelledError();
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403 || /API_KEY_INVALID|API key not valid/i.test(message)) {
+      return new AuthError("The Gemini API key was rejected. Check GEMINI_API_KEY in .env.local and restart the server.");
+    }
+    if (error.status === 429) {
+      return new QuotaError("API rate limit or quota exceeded. Wait a moment, or check your plan and billing details.", parseRetryDelay(message));
+    }
+    if (error.status === 408 || error.status === 504) {
+      return new TimeoutError("The Gemini API took too long to respond.");
+    }
+    if (error.status >= 500) {
+      return new NetworkError("The Gemini API is temporarily unavailable. Please try again shortly.");
+    }
+    return new AdServiceError('unknown', fallbackMessage);
+  }
+  // The SDK aborts the request when REQUEST_TIMEOUT_MS runs out.
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new TimeoutError("The Gemini API took too long to respond.");
+  }
+  if (error instanceof TypeError || /fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/i.test(message)) {
+    return new NetworkError("Could not reach the Gemini API. Check the server's internet connection.");
+  }
+  return new AdServiceError('unknown', fallbackMessage);
+};
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// The API answers a blocked prompt or output with an empty response and a reason, not an HTTP error.
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const promptBlock = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (promptBlock || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(`The model's safety filters blocked this request (${promptBlock ?? finishReason}). Rephrase the product description or brief and try again.`);
+  }
+};
+
+/**
+ * Every API call goes through here: failures are mapped onto the app's error types, and rate limits,
+ * network errors and timeouts are retried following the shared policy.
+ */
+const callGemini = <T>(call: () => Promise<T>, fallbackMessage: string, signal?: AbortSignal): Promise<T> =>
+  withRetry(async () => {
+    try {
+      return await call();
+    } catch (error) {
+      throw toAdError(error, fallbackMessage, signal);
+    }
+  }, {
+    signal,
+    onRetry: (error, attempt, delayMs) =>
+      console.warn(`Gemini call failed (${getErrorCode(error)}), retry ${attempt} in ${Math.round(delayMs / 1000)}s.`),
+  });
+
+const buildSceneSchema = (brief: CreativeBrief) => ({
+  type: Type.OBJECT,
+  properties: {
+    sceneNumber: {
+      type: Type.INTEGER,
+      description: "The sequential number of the scene."
+    },
+    startTime: {
+      type: Type.NUMBER,
+      description: "When the scene starts, in seconds from the beginning of the commercial. The first scene starts at 0."
+    },
+    duration: {
+      type: Type.NUMBER,
+      description: `How long the scene lasts, in seconds. All scene durations must add up to ${brief.duration} seconds.`
+    },
+    setting: {
+      type: Type.STRING,
+      description: "The visual setting of the scene. (e.g., 'A vibrant, sunlit city park.')."
+    },
+    action: {
+      type: Type.STRING,
+      description: "A description of the main action and visuals in the scene."
+    },
+    dialogue: {
+      type: Type.STRING,
+      description: `Any dialogue or voiceover in the scene, written in ${brief.language}. Use 'VO:' for voiceover. Use 'None' if no dialogue.`
+    },
+    sound: {
+      type: Type.STRING,
+      description: "Description of sound effects or music in the scene."
+    }
+  },
+  required: ["sceneNumber", "startTime", "duration", "setting", "action", "dialogue", "sound"]
+});
+
+const buildAdScriptSchema = (brief: CreativeBrief) => ({
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: `A catchy, short title for the commercial, written in ${brief.language}. (e.g., 'Unleash the Sound').`
+    },
+    tagline: {
+      type: Type.STRING,
+      description: `A memorable tagline for the product, written in ${brief.language}. (e.g., 'Your World, Your Music.').`
+    },
+    scenes: {
+      type: Type.ARRAY,
+      description: `An array of scenes that make up the ${describeFormat(brief)} commercial.`,
+      items: buildSceneSchema(brief)
+    }
+  },
+  required: ["title", "tagline", "scenes"]
+});
+
+const buildRevisionSchema = (brief: CreativeBrief) => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: `One or two sentences telling the client what you changed, written in ${brief.language}.`
+    },
+    script: buildAdScriptSchema(brief)
+  },
+  required: ["summary", "script"]
+});
+
+const productProfileSchema = {
+  type: Type.OBJECT,
+  properties: {
+    productName: {
+      type: Type.STRING,
+      description: "The product's name as it would appear in an ad. Empty if it cannot be determined."
+    },
+    category: {
+      type: Type.STRING,
+      description: "A short product category (e.g., 'Wireless headphones')."
+    },
+    brand: {
+      type: Type.STRING,
+      description: "The brand name, if visible or stated. Empty otherwise."
+    },
+    colors: {
+      type: Type.ARRAY,
+      description: "The product's main colors, most prominent first.",
+      items: { type: Type.STRING }
+    },
+    keyFeatures: {
+      type: Type.ARRAY,
+      description: "Short phrases naming the features an ad should highlight.",
+      items: { type: Type.STRING }
+    },
+    visibleText: {
+      type: Type.ARRAY,
+      description: "Text printed on the product or packaging, transcribed exactly.",
+      items: { type: Type.STRING }
+    }
+  },
+  required: ["productName", "category", "brand", "colors", "keyFeatures", "visibleText"]
+};
+
+const complianceReviewSchema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      description: "Every risky claim found. Empty if the script is clean.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneNumber: {
+            type: Type.INTEGER,
+            description: "The scene the claim is in, or 0 for the title and tagline."
+          },
+          field: {
+            type: Type.STRING,
+            description: "Where the claim is: 'title', 'tagline', 'action' or 'dialogue'."
+          },
+          severity: {
+            type: Type.STRING,
+            description: "'high' if it is likely to be rejected or challenged, 'medium' if it needs substantiation, 'low' if it is worth a second look."
+          },
+          category: {
+            type: Type.STRING,
+            description: "A short label such as 'Health claim' or 'Pricing'."
+          },
+          excerpt: {
+            type: Type.STRING,
+            description: "The exact words that make the claim."
+          },
+          explanation: {
+            type: Type.STRING,
+            description: "Why it is risky and how to fix it, in one or two sentences."
+          }
+        },
+        required: ["sceneNumber", "field", "severity", "category", "excerpt", "explanation"]
+      }
+    }
+  },
+  required: ["findings"]
+};
+
+// With a brand kit the model writes as that brand's agency lead rather than a generic creative director.
+const describePersona = (brief: CreativeBrief): string =>
+  brief.brandKit
+    ? `You are the lead creative director on the ${brief.brandKit.name} account at a major advertising agency.`
+    : 'You are a world-class creative director at a major advertising agency.';
+
+const describeBrandGuidelines = (brief: CreativeBrief): string =>
+  brief.brandKit ? describeBrandKit(brief.brandKit) : '';
+
+// Every product photo goes to the model; the first one is the hero shot.
+const buildImageParts = (images: InlineImage[]): Part[] =>
+  images.map(image => ({ inlineData: { data: image.base64Image, mimeType: image.mimeType } }));
+
+const buildRepairPart = (previousResponse: string, issues: ValidationIssue[]): Part => ({
+  text: `
+      Your previous response could not be used because it failed validation:
+      ${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n      ')}
+
+      Previous response:
+      ${previousResponse || '(empty)'}
+
+      Return the complete, corrected response as a valid JSON object matching the provided schema.
+    `
+});
+
+interface ParsedResponse<T> {
+  value: T | null;
+  issues: ValidationIssue[];
+}
+
+// For responses that only need coercing into shape, not validating field by field.
+const parseJsonWith = <T>(jsonText: string, normalize: (value: unknown) => T): ParsedResponse<T> => {
+  try {
+    return { value: normalize(JSON.parse(jsonText)), issues: [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { value: null, issues: [{ path: '$', message: `invalid JSON (${message})` }] };
+  }
+};
+
+interface RequestOptions {
+  // Earlier turns of a conversation, sent ahead of the prompt.
+  history?: Content[];
+  // When set the response is streamed and this sees the text received so far, restarting with each re-prompt.
+  onText?: (jsonText: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Calls the model for JSON output and re-prompts with the validation issues until `parse`
+ * accepts the response or MAX_REPAIR_ATTEMPTS is reached.
+ */
+async function generateWithRepair<T>(
+  ai: GoogleGenAI,
+  baseParts: Part[],
+  responseSchema: object,
+  parse: (jsonText: string, isLastAttempt: boolean) => ParsedResponse<T>,
+  failureMessage: string,
+  { history = [], onText, signal }: RequestOptions = {}
+): Promise<T> {
+  let parts = baseParts;
+  let issues: ValidationIssue[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const request = {
+      model: 'gemini-2.5-flash',
+      contents: [...history, { role: 'user', parts }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        temperature: 0.8,
+        topP: 0.9,
+        abortSignal: signal,
+        httpOptions: { timeout: REQUEST_TIMEOUT_MS },
+      }
+    };
+    const jsonText = await callGemini(async () => {
+      let text = '';
+      if (onText) {
+        for await (const chunk of await ai.models.generateContentStream(request)) {
+          throwIfBlocked(chunk);
+          text += chunk.text ?? '';
+          onText(text);
+        }
+      } else {
+        const response = await ai.models.generateContent(request);
+        throwIfBlocked(response);
+        text = response.text ?? '';
+      }
+      return text.trim();
+    }, failureMessage, signal);
+
+    const result = parse(jsonText, attempt === MAX_REPAIR_ATTEMPTS);
+    if (result.value) {
+      return result.value;
+    }
+
+    issues = result.issues;
+    console.warn(`Model response failed validation (attempt ${attempt + 1}):`, formatIssues(issues));
+    parts = [...baseParts, buildRepairPart(jsonText, issues)];
+  }
+
+  throw new AdScriptValidationError(issues);
+}
+
+async function analyzeProduct(images: InlineImage[], description: string): Promise<ProductProfile> {
+  const ai = getClient();
+
+  const textPart = {
+    text: `
+      You are a product marketing analyst. Study the provided product photos${description ? ' and description' : ''}
+      and describe the product for the creative team that will write its commercial.
+      Only report what you can see or what the description states. Leave a field empty rather than guessing.
+      Ensure the output is a valid JSON object matching the provided schema.
+
+      ${description ? `Product Description: ${description}` : ''}
+    `
+  };
+
+  return generateWithRepair(
+    ai,
+    [...buildImageParts(images), textPart],
+    productProfileSchema,
+    (jsonText) => parseJsonWith(jsonText, normalizeProductProfile),
+    "Failed to analyze the product. The model may have returned an invalid response."
+  );
+}
+
+// Turns streamed text into progress updates, skipping chunks that complete nothing new.
+const reportProgress = (onProgress: NonNullable<ScriptGenerationOptions['onProgress']>) => {
+  let lastReported = '';
+  return (jsonText: string) => {
+    const partial = parsePartialAdScript(jsonText);
+    const key = JSON.stringify(partial);
+    if (key !== lastReported) {
+      lastReported = key;
+      onProgress(partial);
+    }
+  };
+};
+
+async function generateAdScript(
+  product: ProductInput,
+  brief: CreativeBrief,
+  { onProgress, signal }: ScriptGenerationOptions = {},
+  creativeAngle?: string
+): Promise<AdScript> {
+  const ai = getClient();
+
+  const textPart = {
+    text: `
+      ${describePersona(brief)}
+      Your task is to generate a short, punchy, and visually compelling ${brief.duration}-second commercial script based on the provided product images and description.
+      The commercial is ${getPlatformGuidance(brief.platform)}.
+      The script should be structured, creative, and ready for a production team, with a number of scenes that fits comfortably in ${brief.duration} seconds.
+      The tone should be ${brief.tone.toLowerCase()}.
+      ${brief.targetAudience ? `The target audience is: ${brief.targetAudience}.` : 'Infer the most likely target audience from the product.'}
+      ${brief.callToAction ? `End with this call to action: "${brief.callToAction}".` : 'End with a clear call to action.'}
+      Write all copy (title, tagline and dialogue) in ${brief.language}.
+      ${creativeAngle ? `Build the concept around this creative angle: ${creativeAngle}. Give it a distinct title and tagline.` : ''}
+      Ensure the output is a valid JSON object matching the provided schema.
+
+      ${describeProduct(product)}
+
+      ${describeBrandGuidelines(brief)}
+    `
+  };
+
+  return generateWithRepair(
+    ai,
+    [...buildImageParts(product.images), textPart],
+    buildAdScriptSchema(brief),
+    (jsonText, isLastAttempt) => {
+      const result = parseAdScript(jsonText);
+      if (!result.script) {
+        return { value: null, issues: result.issues };
+      }
+      if (result.repairs.length > 0) {
+        console.warn("Repaired generated ad script:", result.repairs);
+      }
+      const timing = checkSceneTiming(result.script, brief.duration);
+      const brandIssues = toValidationIssues(checkBrandKit(result.script, brief.brandKit));
+      // A script that runs long, short or off-brand is still usable (the app flags brand issues),
+      // so keep it once the re-prompts are spent.
+      if ((timing.fits && brandIssues.length === 0) || isLastAttempt) {
+        return { value: result.script, issues: [] };
+      }
+      return { value: null, issues: [...timing.issues, ...brandIssues] };
+    },
+    "Failed to generate ad script. The model may have returned an invalid response.",
+    { onText: onProgress && reportProgress(onProgress), signal }
+  );
+}
+
+async function generateAdScriptVariants(
+  product: ProductInput,
+  brief: CreativeBrief,
+  count: number,
+  { signal }: Pick<ScriptGenerationOptions, 'signal'> = {}
+): Promise<AdScriptVariant[]> {
+  const angles = CREATIVE_ANGLES.slice(0, count);
+  // Each angle is a separate request so one bad response doesn't cost the whole batch.
+  const results = await Promise.allSettled(
+    angles.map(angle => generateAdScript(product, brief, { signal }, angle))
+  );
+
+  const variants: AdScriptVariant[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      variants.push({ angle: angles[index], script: result.value });
+    } else {
+      console.warn(`Variant "${angles[index]}" failed:`, result.reason);
+    }
+  });
+
+  if (signal?.aborted) {
+    throw new CancelledError(SCRIPT_CANCELLED_MESSAGE);
+  }
+  if (variants.length === 0) {
+    const firstFailure = results[0] as PromiseRejectedResult;
+    throw firstFailure.reason instanceof Error ? firstFailure.reason : new Error("Failed to generate any script variants.");
+  }
+  return variants;
+}
+
+async function regenerateScene(
+  script: AdScript,
+  sceneIndex: number,
+  product: ProductInput,
+  brief: CreativeBrief
+): Promise<Scene> {
+  const ai = getClient();
+  const current = script.scenes[sceneIndex];
+
+  const textPart = {
+    text: `
+      ${describePersona(brief)}
+      Below is a ${describeFormat(brief)} commercial script for the product in the provided images.
+      Rewrite only scene ${current.sceneNumber} with a fresh creative take. It must still flow naturally from the scene before it into the scene after it,
+      keep the ${brief.tone.toLowerCase()} tone, and last about ${current.duration} seconds so the script keeps its length.
+      Write any dialogue in ${brief.language}.
+      Return only the new scene as a valid JSON object matching the provided schema.
+
+      ${describeProduct(product)}
+
+      ${describeBrandGuidelines(brief)}
+
+      Current script:
+      ${JSON.stringify(script, null, 2)}
+    `
+  };
+
+  return generateWithRepair(
+    ai,
+    [...buildImageParts(product.images), textPart],
+    buildSceneSchema(brief),
+    (jsonText, isLastAttempt) => {
+      const result = parseScene(jsonText, sceneIndex);
+      if (!result.scene || isLastAttempt) {
+        return { value: result.scene, issues: result.issues };
+      }
+      // Only rules the new scene can break count; the rest of the script is not being rewritten.
+      const candidate = { ...script, scenes: script.scenes.map((scene, i) => (i === sceneIndex ? result.scene! : scene)) };
+      const brandIssues = checkBrandKit(candidate, brief.brandKit).filter(issue => issue.sceneIndex === sceneIndex);
+      return brandIssues.length === 0 ? { value: result.scene, issues: [] } : { value: null, issues: toValidationIssues(brandIssues) };
+    },
+    "Failed to regenerate the scene. The model may have returned an invalid response."
+  );
+}
+
+async function refineAdScript(
+  script: AdScript,
+  history: RefinementMessage[],
+  instruction: string,
+  brief: CreativeBrief
+): Promise<ScriptRevision> {
+  const ai = getClient();
+
+  const textPart = {
+    text: `
+      ${describePersona(brief)}
+      You are refining a ${describeFormat(brief)} commercial script together with your client.
+      Apply the client's latest instruction to the current script below. Change only what the instruction asks for
+      and keep everything else word for word. If the instruction changes the length, adjust the scene durations to match.
+      Write all copy in ${brief.language}.
+      Return the complete revised script and a short summary of your changes as a valid JSON object matching the provided schema.
+
+      ${describeBrandGuidelines(brief)}
+
+      Current script:
+      ${JSON.stringify(script, null, 2)}
+
+      Instruction: ${instruction}
+    `
+  };
+
+  // Earlier replies are kept to their summaries; the current script above carries the result.
+  const turns: Content[] = history.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+
+  return generateWithRepair(
+    ai,
+    [textPart],
+    buildRevisionSchema(brief),
+    (jsonText, isLastAttempt) => {
+      let raw: { summary?: unknown; script?: unknown };
+      try {
+        raw = JSON.parse(jsonText) ?? {};
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { value: null, issues: [{ path: '$', message: `invalid JSON (${message})` }] };
+      }
+      const result = validateAdScript(raw.script);
+      if (!result.script) {
+        return { value: null, issues: result.issues.map(issue => ({ ...issue, path: `script.${issue.path}` })) };
+      }
+      const summary = typeof raw.summary === 'string' && raw.summary.trim() ? raw.summary.trim() : 'Revised the script.';
+      const brandIssues = toValidationIssues(checkBrandKit(result.script, brief.brandKit));
+      if (brandIssues.length === 0 || isLastAttempt) {
+        return { value: { script: result.script, summary }, issues: [] };
+      }
+      return { value: null, issues: brandIssues.map(issue => ({ ...issue, path: `script.${issue.path}` })) };
+    },
+    "Failed to revise the script. The model may have returned an invalid response.",
+    { history: turns }
+  );
+}
+
+async function reviewCompliance(script: AdScript, markets: string[], competitors: string[]): Promise<ComplianceFinding[]> {
+  const ai = getClient();
+
+  const textPart = {
+    text: `
+      You are an advertising compliance reviewer. Review the commercial script below for claims a regulator,
+      broadcaster or platform would challenge: unsubstantiated superlatives, health or medical promises, prices
+      or offers without their conditions, misleading environmental claims, endorsements and comparisons with competitors.
+      ${markets.length > 0 ? `The ad will run under these rules: ${markets.join('; ')}.` : ''}
+      ${competitors.length > 0 ? `Known competitors: ${competitors.join(', ')}.` : ''}
+      Only report real problems, quoting the exact words. Ensure the output is a valid JSON object matching the provided schema.
+
+      Script:
+      ${JSON.stringify(script, null, 2)}
+    `
+  };
+
+  return generateWithRepair(
+    ai,
+    [textPart],
+    complianceReviewSchema,
+    (jsonText) => parseJsonWith(jsonText, value => normalizeModelFindings(value, script)),
+    "Failed to review the script. The model may have returned an invalid response."
+  );
+}
+
+const VIDEO_FAILURE_MESSAGE = "Failed to generate video ad. An unexpected error occurred.";
+
+async function generateStoryboardFrame(
+  script: AdScript,
+  sceneIndex: number,
+  base64Image: string,
+  mimeType: string,
+  brief: CreativeBrief
+): Promise<InlineImage> {
+  const ai = getClient();
+  const scene = script.scenes[sceneIndex];
+
+  const imagePart = {
+    inlineData: {
+      data: base64Image,
+      mimeType: mimeType,
+    },
+  };
+
+  const textPart = {
+    text: `
+      Draw a single storyboard frame for scene ${scene.sceneNumber} of a ${describeFormat(brief)} commercial titled "${script.title}".
+      Setting: ${scene.setting}
+      Action: ${scene.action}
+      Use a ${getFrameAspectRatio(brief)} frame. Render it as a clean, lightly shaded storyboard sketch with a clear composition and a ${brief.tone.toLowerCase()} mood.
+      The product in the provided image must appear as it really looks. Do not add captions, panel borders or any text.
+      ${describeBrandVisuals(brief.brandKit)}
+    `
+  };
+
+  const response = await callGemini(async () => {
+    const result = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image-preview',
+      contents: { parts: [imagePart, textPart] },
+      config: { httpOptions: { timeout: REQUEST_TIMEOUT_MS } },
+    });
+    throwIfBlocked(result);
+    return result;
+  }, "Failed to generate the storyboard frame. An unexpected error occurred.");
+
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!image?.data) {
+    throw new InvalidResponseError("The model did not return an image for this scene. Try regenerating it.");
+  }
+  return { base64Image: image.data, mimeType: image.mimeType ?? 'image/png' };
+}
+
+async function startVideoJob(prompt: string, base64Image: string, mimeType: string): Promise<string> {
+  const ai = getClient();
+  console.log("Starting video generation...");
+  const operation = await callGemini(() => ai.models.generateVideos({
+    model: 'veo-2.0-generate-001',
+    prompt: prompt,
+    image: {
+      imageBytes: base64Image,
+      mimeType: mimeType,
+    },
+    config: {
+      numberOfVideos: 1
+    }
+  }), VIDEO_FAILURE_MESSAGE);
+  if (!operation.name) {
+    throw new InvalidResponseError("Video generation started, but no operation name was returned.");
+  }
+  console.log("Video generation initiated:", operation.name);
+  return operation.name;
+}
+
+async function getVideoJobStatus(jobId: string): Promise<VideoJobStatus> {
+  const ai = getClient();
+  // Only the name is needed to look an operation up, which is what lets polling resume after a reload.
+  const pending = new GenerateVideosOperation();
+  pending.name = jobId;
+  const operation = await callGemini(() => ai.operations.getVideosOperation({ operation: pending }), VIDEO_FAILURE_MESSAGE);
+
+  if (!operation.done) {
+    return { done: false };
+  }
+  if (operation.error) {
+    const message = typeof operation.error.message === 'string' ? operation.error.message : 'Unknown error';
+    throw new AdServiceError('unknown', `Video generation failed: ${message}`);
+  }
+  if (operation.response?.raiMediaFilteredCount) {
+    throw new SafetyBlockError("The video was blocked by the model's safety filters. Adjust the script or product image and try again.");
+  }
+
+  const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!downloadLink) {
+      throw new InvalidResponseError("Video generation completed, but no download link was found.");
+  }
+
+  console.log("Video generated successfully:", downloadLink);
+  // The link only works with the API key attached, so it must be fetched with downloadGeminiVideo.
+  return { done: true, videoUrl: downloadLink };
+}
+
+/**
+ * Fetches a finished video from the link returned by getVideoJobStatus. The key goes in a
+ * header rather than the query string so it never ends up in a URL.
+ */
+export async function downloadGeminiVideo(videoUrl: string): Promise<Response> {
+  const apiKey = getApiKey();
+  const response = await callGemini(() => fetch(videoUrl, { headers: { 'x-goog-api-key': apiKey } }), "Failed to download the generated video.");
+  if (!response.ok) {
+    throw fromErrorPayload({ error: `Failed to download the generated video (HTTP ${response.status}).` }, response.status);
+  }
+  return response;
+}
+
+export const geminiProvider: AdProvider = {
+  name: 'gemini',
+  analyzeProduct,
+  generateAdScript: (product, brief, options) => generateAdScript(product, brief, options),
+  generateAdScriptVariants,
+  regenerateScene,
+  refineAdScript,
+  reviewCompliance,
+  generateStoryboardFrame,
+  startVideoJob,
+  getVideoJobStatus,
+};
@@ -0,0 +1,103 @@
+import type { AdScript } from '../../types';
+
+export const MOCK_AD_SCRIPTS: AdScript[] = [
+  {
+    title: "Unleash the Sound",
+    tagline: "Your World, Your Music.",
+    scenes: [
+      {
+        sceneNumber: 1,
+        startTime: 0,
+        duration: 10,
+        setting: "A crowded subway platform at rush hour, cool blue light.",
+        action: "A commuter slips the product on. The noise of the crowd fades as the camera pushes in on their face.",
+        dialogue: "None",
+        sound: "Muffled train screech that cuts to silence."
+      },
+      {
+        sceneNumber: 2,
+        startTime: 10,
+        duration: 10,
+        setting: "The same platform, now bathed in warm golden light.",
+        action: "The commuter starts to move with the beat while the world around them slows to a crawl.",
+        dialogue: "VO: Leave the noise behind.",
+        sound: "An upbeat synth track kicks in."
+      },
+      {
+        sceneNumber: 3,
+        startTime: 20,
+        duration: 10,
+        setting: "A rooftop at sunset overlooking the city skyline.",
+        action: "Hero shot of the product resting on the ledge as the camera orbits around it.",
+        dialogue: "VO: Your world. Your music.",
+        sound: "Music swells to a final chord."
+      }
+    ]
+  },
+  {
+    title: "Made for Mornings",
+    tagline: "Start Bright.",
+    scenes: [
+      {
+        sceneNumber: 1,
+        startTime: 0,
+        duration: 10,
+        setting: "A sleepy kitchen just before sunrise.",
+        action: "An alarm buzzes. A hand reaches past a cluttered counter toward the product.",
+        dialogue: "None",
+        sound: "Alarm clock buzz, a soft yawn."
+      },
+      {
+        sceneNumber: 2,
+        startTime: 10,
+        duration: 10,
+        setting: "The kitchen, suddenly flooded with sunlight.",
+        action: "Quick cuts of the product in use, each cut brighter and more colorful than the last.",
+        dialogue: "VO: Every great day starts somewhere.",
+        sound: "Acoustic guitar with hand claps."
+      },
+      {
+        sceneNumber: 3,
+        startTime: 20,
+        duration: 10,
+        setting: "A front door opening onto a busy, sunny street.",
+        action: "The user steps out confidently, product in hand, and the frame freezes on a smile.",
+        dialogue: "VO: Start bright.",
+        sound: "A bright, rising chime."
+      }
+    ]
+  },
+  {
+    title: "Built to Go Further",
+    tagline: "Go Where the Road Ends.",
+    scenes: [
+      {
+        sceneNumber: 1,
+        startTime: 0,
+        duration: 10,
+        setting: "A misty mountain trail at dawn.",
+        action: "Boots crunch over gravel. The product is strapped to a backpack, catching the first light.",
+        dialogue: "None",
+        sound: "Wind and distant birdsong."
+      },
+      {
+        sceneNumber: 2,
+        startTime: 10,
+        duration: 10,
+        setting: "A rocky ridge above the clouds.",
+        action: "The hiker pauses, uses the product, and looks out over the valley below.",
+        dialogue: "VO: Some journeys don't come with a map.",
+        sound: "Low, building percussion."
+      },
+      {
+        sceneNumber: 3,
+        startTime: 20,
+        duration: 10,
+        setting: "The summit, wide aerial shot.",
+        action: "Drone shot pulls back to reveal the hiker and the product on the peak.",
+        dialogue: "VO: Go where the road ends.",
+        sound: "Cinematic drum hit and silence."
+      }
+    ]
+  }
+];
@@ -0,0 +1,212 @@
+import type { AdScript, AdScriptVariant, ComplianceFinding, CreativeBrief, InlineImage, PartialAdScript, ProductInput, ProductProfile, RefinementMessage, Scene, ScriptRevision } from '../../types';
+import { SCRIPT_CANCELLED_MESSAGE, type AdProvider, type ScriptGenerationOptions, type VideoJobStatus } from '../adProvider';
+import { MOCK_AD_SCRIPTS } from './mockFixtures';
+import { getTotalDuration, retimeScenes, roundTime } from '../../utils/sceneTiming';
+import { CREATIVE_ANGLES, getFrameAspectRatio } from '../../utils/creativeBrief';
+import { createPlaceholderVideo } from '../../utils/placeholderVideo';
+import { CancelledError } from '../../utils/adErrors';
+
+const MOCK_LATENCY_MS = 800;
+// Pause between the pieces of a "streamed" script.
+const MOCK_STREAM_STEP_MS = 400;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Simple string hash so the same description always yields the same fixture.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Stretches a fixture to the requested length; copying also lets callers mutate the script freely.
+const pickFixture = (seed: number, brief: CreativeBrief): AdScript => {
+  const fixture = MOCK_AD_SCRIPTS[seed % MOCK_AD_SCRIPTS.length];
+  const scale = brief.duration / getTotalDuration(fixture.scenes);
+  return {
+    ...fixture,
+    scenes: retimeScenes(fixture.scenes.map(scene => ({ ...scene, duration: roundTime(scene.duration * scale) }))),
+  };
+};
+
+const MOCK_COLORS = ['Black', 'White', 'Silver', 'Navy', 'Red', 'Green'];
+
+// Builds the profile from the description's words so it changes as the user edits it.
+async function analyzeProduct(images: InlineImage[], description: string): Promise<ProductProfile> {
+  await delay(MOCK_LATENCY_MS);
+  const words = description.match(/[A-Za-z][\w'-]*/g) ?? [];
+  const seed = hashString(description);
+  const productName = words.slice(0, 3).join(' ') || 'Mock Product';
+  return {
+    productName,
+    category: 'Consumer product',
+    brand: words[0] ?? 'Mockbrand',
+    colors: [MOCK_COLORS[seed % MOCK_COLORS.length], MOCK_COLORS[(seed + 1) % MOCK_COLORS.length]],
+    keyFeatures: ['Durable build', 'Easy to use', `Shown in ${images.length} photo${images.length === 1 ? '' : 's'}`],
+    visibleText: [productName.toUpperCase()],
+  };
+}
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError(SCRIPT_CANCELLED_MESSAGE);
+};
+
+// Reveals the fixture a piece at a time, like a streamed response, so progress and cancel work offline.
+async function generateAdScript(product: ProductInput, brief: CreativeBrief, { onProgress, signal }: ScriptGenerationOptions = {}): Promise<AdScript> {
+  const script = pickFixture(hashString(product.description), brief);
+  const steps: PartialAdScript[] = [
+    { title: script.title, tagline: null, scenes: [] },
+    ...script.scenes.map((_, index) => ({ title: script.title, tagline: script.tagline, scenes: script.scenes.slice(0, index + 1) })),
+  ];
+  await delay(MOCK_LATENCY_MS);
+  for (const step of steps) {
+    throwIfCancelled(signal);
+    onProgress?.(step);
+    await delay(MOCK_STREAM_STEP_MS);
+  }
+  throwIfCancelled(signal);
+  return script;
+}
+
+async function generateAdScriptVariants(
+  product: ProductInput,
+  brief: CreativeBrief,
+  count: number,
+  { signal }: Pick<ScriptGenerationOptions, 'signal'> = {}
+): Promise<AdScriptVariant[]> {
+  await delay(MOCK_LATENCY_MS);
+  throwIfCancelled(signal);
+  const seed = hashString(product.description);
+  return CREATIVE_ANGLES.slice(0, count).map((angle, index) => {
+    const script = pickFixture(seed + index, brief);
+    // There are fewer fixtures than angles, so tag the title to keep variants distinguishable.
+    return { angle, script: { ...script, title: `${script.title} (${angle})` } };
+  });
+}
+
+async function regenerateScene(
+  script: AdScript,
+  sceneIndex: number,
+  _product: ProductInput,
+  _brief: CreativeBrief
+): Promise<Scene> {
+  await delay(MOCK_LATENCY_MS);
+  const current = script.scenes[sceneIndex];
+  // Draw from every fixture scene except the current one so repeated regenerations cycle predictably.
+  const pool = MOCK_AD_SCRIPTS.flatMap(fixture => fixture.scenes).filter(scene => scene.action !== current.action);
+  const replacement = pool[hashString(current.action) % pool.length];
+  return { ...replacement, sceneNumber: current.sceneNumber, startTime: current.startTime, duration: current.duration };
+}
+
+// Understands "N seconds" (retimes the script) and "scene N" (rewrites that scene's dialogue);
+// anything else changes the tagline, so every instruction produces a visible diff.
+async function refineAdScript(
+  script: AdScript,
+  _history: RefinementMessage[],
+  instruction: string,
+  _brief: CreativeBrief
+): Promise<ScriptRevision> {
+  await delay(MOCK_LATENCY_MS);
+  const seconds = instruction.match(/(\d+)\s*(?:s|sec|secs|seconds)\b/i);
+  if (seconds) {
+    const target = Number(seconds[1]);
+    const scale = target / (getTotalDuration(script.scenes) || 1);
+    const scenes = retimeScenes(script.scenes.map(scene => ({ ...scene, duration: roundTime(scene.duration * scale) })));
+    return { script: { ...script, scenes }, summary: `Retimed every scene so the script runs ${target} seconds.` };
+  }
+  const sceneNumber = Number(instruction.match(/scene\s+(\d+)/i)?.[1]);
+  const index = script.scenes.findIndex(scene => scene.sceneNumber === sceneNumber);
+  if (index >= 0) {
+    const scenes = script.scenes.map((scene, i) => (i === index ? { ...scene, dialogue: `VO: (${instruction}) ${scene.dialogue}` } : scene));
+    return { script: { ...script, scenes }, summary: `Rewrote the dialogue of scene ${sceneNumber}.` };
+  }
+  return { script: { ...script, tagline: `${script.tagline} (${instruction})` }, summary: 'Worked the instruction into the tagline.' };
+}
+
+// Flags the tagline so the model-review path has something to show offline.
+async function reviewCompliance(script: AdScript, markets: string[], _competitors: string[]): Promise<ComplianceFinding[]> {
+  await delay(MOCK_LATENCY_MS);
+  return [{
+    ruleId: 'model-review',
+    category: 'Implied claim',
+    severity: 'low',
+    sceneIndex: null,
+    field: 'tagline',
+    excerpt: script.tagline,
+    message: `Mock review for ${markets.join(', ') || 'all markets'}: check that the tagline's promise can be substantiated.`,
+    source: 'model',
+  }];
+}
+
+const FRAME_COLORS = ['#4c1d95', '#1e3a8a', '#065f46', '#7c2d12', '#831843'];
+
+const escapeSvgText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+// Encodes UTF-8 text as base64 in both the browser and Node.
+const textToBase64 = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+// An SVG placeholder card, so storyboards work without a canvas (e.g. from the CLI).
+async function generateStoryboardFrame(
+  script: AdScript,
+  sceneIndex: number,
+  _base64Image: string,
+  _mimeType: string,
+  brief: CreativeBrief
+): Promise<InlineImage> {
+  await delay(MOCK_LATENCY_MS);
+  const scene = script.scenes[sceneIndex];
+  const [width, height] = getFrameAspectRatio(brief) === '9:16' ? [720, 1280] : [1280, 720];
+  const color = FRAME_COLORS[hashString(scene.setting + scene.action) % FRAME_COLORS.length];
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${color}"/>`,
+    `<text x="50%" y="42%" fill="#f3f4f6" font-family="sans-serif" font-size="56" font-weight="bold" text-anchor="middle">SCENE ${scene.sceneNumber}</text>`,
+    `<text x="50%" y="52%" fill="#e5e7eb" font-family="sans-serif" font-size="32" text-anchor="middle">${escapeSvgText(truncate(scene.setting, 40))}</text>`,
+    `<text x="50%" y="60%" fill="#9ca3af" font-family="sans-serif" font-size="24" text-anchor="middle">Storyboard placeholder</text>`,
+    `</svg>`,
+  ].join('');
+  return { base64Image: textToBase64(svg), mimeType: 'image/svg+xml' };
+}
+
+// How long a mock render "takes", so progress and cancellation can be exercised.
+const MOCK_RENDER_MS = 12000;
+
+// The job id carries everything needed to finish the job, so polling survives a page reload.
+async function startVideoJob(prompt: string, _base64Image: string, _mimeType: string): Promise<string> {
+  await delay(MOCK_LATENCY_MS);
+  const titleMatch = prompt.match(/Title:\s*(.+)/);
+  const title = titleMatch ? titleMatch[1].trim() : 'Mock Ad';
+  return `mock-operations/${Date.now()}/${encodeURIComponent(title)}`;
+}
+
+async function getVideoJobStatus(jobId: string): Promise<VideoJobStatus> {
+  await delay(MOCK_LATENCY_MS / 4);
+  const [, startedAt, title] = jobId.split('/');
+  if (Date.now() - Number(startedAt) < MOCK_RENDER_MS) {
+    return { done: false };
+  }
+  return { done: true, videoUrl: await createPlaceholderVideo(decodeURIComponent(title ?? 'Mock Ad')) };
+}
+
+export const mockProvider: AdProvider = {
+  name: 'mock',
+  analyzeProduct,
+  generateAdScript,
+  generateAdScriptVariants,
+  regenerateScene,
+  refineAdScript,
+  reviewCompliance,
+  generateStoryboardFrame,
+  startVideoJob,
+  getVideoJobStatus,
+};
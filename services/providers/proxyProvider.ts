@@ -0,0 +1,156 @@
+import type { AdScript, AdScriptVariant, ComplianceFinding, CreativeBrief, InlineImage, PartialAdScript, ProductInput, ProductProfile, RefinementMessage, Scene, ScriptRevision } from '../../types';
+import { SCRIPT_CANCELLED_MESSAGE, type AdProvider, type ScriptGenerationOptions, type VideoJobStatus } from '../adProvider';
+import { CancelledError, NetworkError, fromErrorPayload, type AdErrorPayload } from '../../utils/adErrors';
+
+// Served by the API middleware in server/apiPlugin.ts, which holds the Gemini key.
+const API_BASE = '/api';
+
+// Resolves once the response headers arrive; failed requests reject with the typed error the server reported.
+const send = async (path: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, init);
+  } catch (error) {
+    if (init?.signal?.aborted) throw error;
+    console.error(`Request to ${path} failed:`, error);
+    throw new NetworkError("Could not reach the AI Ad Studio server. Make sure it is running.");
+  }
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw fromErrorPayload(payload, response.status);
+  }
+  return response;
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await send(path, init);
+  return (await response.json().catch(() => null)) as T;
+};
+
+const jsonInit = (body: unknown, signal?: AbortSignal): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+  signal,
+});
+
+const postJson = <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  request<T>(path, jsonInit(body, signal));
+
+// Reads the newline-delimited JSON written by the server's streaming routes.
+async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+    if (done) return;
+  }
+}
+
+// One line of the /scripts stream: a progress update, the finished script, or an error.
+type ScriptStreamLine = { partial?: PartialAdScript; script?: AdScript } & Partial<AdErrorPayload>;
+
+// Aborting the fetch closes the connection, which also stops the generation on the server.
+const rethrowIfCancelled = (error: unknown, signal?: AbortSignal): never => {
+  throw signal?.aborted ? new CancelledError(SCRIPT_CANCELLED_MESSAGE) : error;
+};
+
+async function analyzeProduct(images: InlineImage[], description: string): Promise<ProductProfile> {
+  return postJson('/products/analyze', { images, description });
+}
+
+async function generateAdScript(product: ProductInput, brief: CreativeBrief, { onProgress, signal }: ScriptGenerationOptions = {}): Promise<AdScript> {
+  try {
+    const response = await send('/scripts', jsonInit({ product, brief }, signal));
+    for await (const line of readJsonLines<ScriptStreamLine>(response)) {
+      if (line.error) throw fromErrorPayload(line);
+      if (line.script) return line.script;
+      if (line.partial) onProgress?.(line.partial);
+    }
+  } catch (error) {
+    rethrowIfCancelled(error, signal);
+  }
+  throw new NetworkError("The server closed the connection before the script was finished.");
+}
+
+async function generateAdScriptVariants(
+  product: ProductInput,
+  brief: CreativeBrief,
+  count: number,
+  { signal }: Pick<ScriptGenerationOptions, 'signal'> = {}
+): Promise<AdScriptVariant[]> {
+  try {
+    return await postJson('/scripts/variants', { product, brief, count }, signal);
+  } catch (error) {
+    return rethrowIfCancelled(error, signal);
+  }
+}
+
+async function regenerateScene(script: AdScript, sceneIndex: number, product: ProductInput, brief: CreativeBrief): Promise<Scene> {
+  return postJson('/scenes/regenerate', { script, sceneIndex, product, brief });
+}
+
+async function refineAdScript(script: AdScript, history: RefinementMessage[], instruction: string, brief: CreativeBrief): Promise<ScriptRevision> {
+  return postJson('/scripts/refine', { script, history, instruction, brief });
+}
+
+async function reviewCompliance(script: AdScript, markets: string[], competitors: string[]): Promise<ComplianceFinding[]> {
+  return postJson('/compliance/review', { script, markets, competitors });
+}
+
+async function generateStoryboardFrame(
+  script: AdScript,
+  sceneIndex: number,
+  base64Image: string,
+  mimeType: string,
+  brief: CreativeBrief
+): Promise<InlineImage> {
+  return postJson('/storyboard/frames', { script, sceneIndex, base64Image, mimeType, brief });
+}
+
+async function startVideoJob(prompt: string, base64Image: string, mimeType: string): Promise<string> {
+  const { jobId } = await postJson<{ jobId: string }>('/videos', { prompt, base64Image, mimeType });
+  return jobId;
+}
+
+// Finished videos are pulled through the server and handed to the page as a blob URL.
+async function getVideoJobStatus(jobId: string): Promise<VideoJobStatus> {
+  const status = await request<VideoJobStatus>(`/videos/status?job=${encodeURIComponent(jobId)}`);
+  if (!status.done || !status.videoUrl) {
+    return status;
+  }
+  // A dropped connection mid-download is a network error, so the job keeps polling rather than failing.
+  const response = await fetch(status.videoUrl).catch(error => {
+    console.error('Video download failed:', error);
+    throw new NetworkError("Could not reach the AI Ad Studio server to download the video.");
+  });
+  if (!response.ok) {
+    throw fromErrorPayload(await response.json().catch(() => null), response.status);
+  }
+  const blob = await response.blob().catch(error => {
+    console.error('Video download was interrupted:', error);
+    throw new NetworkError("The connection dropped while downloading the video.");
+  });
+  return { done: true, videoUrl: URL.createObjectURL(blob) };
+}
+
+export const proxyProvider: AdProvider = {
+  name: 'proxy',
+  analyzeProduct,
+  generateAdScript,
+  generateAdScriptVariants,
+  regenerateScene,
+  refineAdScript,
+  reviewCompliance,
+  generateStoryboardFrame,
+  startVideoJob,
+  getVideoJobStatus,
+};
@@ -0,0 +1,36 @@
+import type { AdScript, CreativeBrief, Scene } from '../types';
+import { describeFormat } from '../utils/creativeBrief';
+import { describeBrandVisuals } from '../utils/brandKit';
+import { getSceneContentKey } from '../utils/scriptEditing';
+import type { VideoJob } from './videoJobManager';
+
+export type SceneClipState = 'running' | 'succeeded' | 'failed';
+
+export interface SceneClip {
+  state: SceneClipState;
+  // The render in progress; null once it has finished or while it is being submitted.
+  job: VideoJob | null;
+  videoUrl: string | null;
+  error: string | null;
+}
+
+// Keyed by getSceneContentKey, so clips follow their scene when it moves.
+export type SceneClips = Record<string, SceneClip>;
+
+export const getSceneClip = (clips: SceneClips, scene: Scene): SceneClip | null => clips[getSceneContentKey(scene)] ?? null;
+
+// True once every scene has a finished clip, in which case the clips can be assembled.
+export const areSceneClipsComplete = (clips: SceneClips, scenes: Scene[]): boolean =>
+  scenes.length > 0 && scenes.every(scene => getSceneClip(clips, scene)?.state === 'succeeded');
+
+export const buildSceneClipPrompt = (script: AdScript, sceneIndex: number, brief: CreativeBrief): string => {
+  const scene = script.scenes[sceneIndex];
+  return `
+    Create a single continuous shot for scene ${scene.sceneNumber} of ${script.scenes.length} in a ${describeFormat(brief)} commercial.
+    Title: ${script.title} - Scene ${scene.sceneNumber}
+    Setting: ${scene.setting}
+    Action: ${scene.action}
+    The shot should last about ${scene.duration} seconds. The style should be modern, cinematic and ${brief.tone.toLowerCase()}, consistent with the rest of the ad and featuring the product in the provided image.
+    ${describeBrandVisuals(brief.brandKit)}
+  `;
+};
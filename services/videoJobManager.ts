@@ -0,0 +1,191 @@
+import type { AdScript, CreativeBrief } from '../types';
+import { getAdProvider } from './adProvider';
+import { getErrorCode, type AdErrorCode } from '../utils/adErrors';
+import { isRetryable, sleep } from '../utils/retry';
+import { describeBrandVisuals } from '../utils/brandKit';
+import { describeFormat } from '../utils/creativeBrief';
+
+export type VideoJobState = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed-out';
+
+export interface VideoJob {
+  // The provider's operation name.
+  id: string;
+  // The project the video belongs to, so a resumed job can reopen it.
+  projectId: string | null;
+  // Set for single-scene clips (see sceneClips.ts); null for a whole-ad video.
+  sceneKey: string | null;
+  state: VideoJobState;
+  startedAt: number;
+  pollCount: number;
+  lastPolledAt: number | null;
+  nextPollAt: number | null;
+  videoUrl: string | null;
+  error: string | null;
+  // Set with `error`, so the app can show the right kind of error panel.
+  errorCode: AdErrorCode | null;
+}
+
+export interface VideoPollingOptions {
+  // Give up once the job has been running this long, measured from when it started.
+  maxWaitMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+}
+
+export const DEFAULT_POLLING_OPTIONS: VideoPollingOptions = {
+  maxWaitMs: 10 * 60 * 1000,
+  initialDelayMs: 5000,
+  maxDelayMs: 60000,
+  backoffFactor: 1.5,
+};
+
+const STORAGE_KEY = 'ai-ad-studio.pendingVideoJobs';
+
+const readPendingJobs = (): VideoJob[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const persistJob = (job: VideoJob) => {
+  // Outside the browser (the CLI) there is nothing to resume from.
+  if (typeof localStorage === 'undefined') return;
+  try {
+    const others = readPendingJobs().filter(pending => pending.id !== job.id);
+    const pending = job.state === 'running' ? [...others, job] : others;
+    if (pending.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    // Storage can be unavailable (private mode, quota); the job still runs, it just won't resume.
+    console.warn("Could not persist the video job:", error);
+  }
+};
+
+// Returns the jobs that were still running when the page was last closed.
+export const getPendingVideoJobs = (): VideoJob[] => {
+  try {
+    return readPendingJobs();
+  } catch {
+    return [];
+  }
+};
+
+export const clearPendingVideoJobs = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
+
+export const getPollDelay = (pollCount: number, options: VideoPollingOptions = DEFAULT_POLLING_OPTIONS): number =>
+  Math.min(options.initialDelayMs * Math.pow(options.backoffFactor, pollCount), options.maxDelayMs);
+
+// The prompt for a video of the whole ad; single scenes use buildSceneClipPrompt.
+export const buildAdVideoPrompt = (script: AdScript, brief: CreativeBrief): string => {
+  const sceneDescriptions = script.scenes.map(s => s.action).join('. ');
+  return `
+    Create a dynamic, visually stunning ${describeFormat(brief)} commercial video based on this concept.
+    Title: ${script.title}
+    Tagline: ${script.tagline}
+    Key Visuals: ${sceneDescriptions}
+    The style should be modern, cinematic and ${brief.tone.toLowerCase()}, matching the product in the provided image.
+    ${describeBrandVisuals(brief.brandKit)}
+  `;
+};
+
+export const startVideoJob = async (
+  prompt: string,
+  base64Image: string,
+  mimeType: string,
+  projectId: string | null,
+  sceneKey: string | null = null
+): Promise<VideoJob> => {
+  const id = await getAdProvider().startVideoJob(prompt, base64Image, mimeType);
+  const job: VideoJob = {
+    id,
+    projectId,
+    sceneKey,
+    state: 'running',
+    startedAt: Date.now(),
+    pollCount: 0,
+    lastPolledAt: null,
+    nextPollAt: null,
+    videoUrl: null,
+    error: null,
+    errorCode: null,
+  };
+  persistJob(job);
+  return job;
+};
+
+export interface PollVideoJobParams {
+  signal?: AbortSignal;
+  onUpdate?: (job: VideoJob) => void;
+  options?: Partial<VideoPollingOptions>;
+}
+
+/**
+ * Polls a running job with exponential backoff until it finishes, fails, times out or the
+ * signal aborts (which marks it cancelled). Status checks that fail with a network, timeout or
+ * rate-limit error are retried on the same schedule; the error is kept on the job meanwhile.
+ * Always resolves with the job in its final state.
+ */
+export const pollVideoJob = async (initial: VideoJob, { signal, onUpdate, options }: PollVideoJobParams = {}): Promise<VideoJob> => {
+  const settings = { ...DEFAULT_POLLING_OPTIONS, ...options };
+  let job = initial;
+
+  const update = (changes: Partial<VideoJob>) => {
+    job = { ...job, ...changes };
+    persistJob(job);
+    onUpdate?.(job);
+  };
+
+  while (job.state === 'running') {
+    const remaining = job.startedAt + settings.maxWaitMs - Date.now();
+    if (remaining <= 0) {
+      update({ state: 'timed-out', nextPollAt: null, error: `Video generation did not finish within ${Math.round(settings.maxWaitMs / 60000)} minutes.`, errorCode: 'timeout' });
+      break;
+    }
+
+    const delay = Math.min(getPollDelay(job.pollCount, settings), remaining);
+    update({ nextPollAt: Date.now() + delay });
+    if (!(await sleep(delay, signal))) {
+      update({ state: 'cancelled', nextPollAt: null });
+      break;
+    }
+
+    try {
+      const status = await getAdProvider().getVideoJobStatus(job.id);
+      if (signal?.aborted) {
+        update({ state: 'cancelled', nextPollAt: null });
+      } else if (status.done) {
+        update({ state: 'succeeded', pollCount: job.pollCount + 1, lastPolledAt: Date.now(), nextPollAt: null, videoUrl: status.videoUrl ?? null });
+      } else {
+        update({ pollCount: job.pollCount + 1, lastPolledAt: Date.now(), error: null, errorCode: null });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Video generation failed.';
+      // A dropped connection or a rate limit doesn't mean the render failed; losing the operation would mean paying for a new one.
+      if (isRetryable(error)) {
+        update({ pollCount: job.pollCount + 1, lastPolledAt: Date.now(), error: message, errorCode: getErrorCode(error) });
+        continue;
+      }
+      update({
+        state: 'failed',
+        pollCount: job.pollCount + 1,
+        lastPolledAt: Date.now(),
+        nextPollAt: null,
+        error: message,
+        errorCode: getErrorCode(error),
+      });
+    }
+  }
+
+  return job;
+};
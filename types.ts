@@ -1,6 +1,10 @@
 
 export interface Scene {
   sceneNumber: number;
+  // Offset from the start of the commercial, in seconds.
+  startTime: number;
+  // Length of the scene, in seconds.
+  duration: number;
   setting: string;
   action: string;
   dialogue: string;
@@ -12,3 +16,214 @@ export interface AdScript {
   tagline: string;
   scenes: Scene[];
 }
+
+// One turn of a refinement conversation: the user's instruction or the model's summary of what it changed.
+export interface RefinementMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ScriptRevision {
+  script: AdScript;
+  // What the model says it changed, in a sentence or two.
+  summary: string;
+}
+
+export type ScriptVersionOrigin = 'generated' | 'edited' | 'refined' | 'imported' | 'restored';
+
+// One saved state of the script.
+export interface ScriptVersion {
+  // 1-based position in the history; what the user sees as "version N".
+  number: number;
+  script: AdScript;
+  origin: ScriptVersionOrigin;
+  // What happened, e.g. "Scene 3 regenerated" or the summary of a refinement.
+  note: string | null;
+  createdAt: number;
+}
+
+// Every version of a project's script, oldest first. Versions are only ever appended, so undoing
+// and then changing the script keeps the undone versions around to restore later.
+export interface ScriptHistory {
+  versions: ScriptVersion[];
+  // The version on screen; null while no script is open, e.g. when comparing concepts.
+  currentIndex: number | null;
+}
+
+// A script that is still streaming in: only the parts received in full so far.
+export interface PartialAdScript {
+  title: string | null;
+  tagline: string | null;
+  scenes: Scene[];
+}
+
+// A text field of a script, for pointing at where a problem is.
+export type ScriptTextField = 'title' | 'tagline' | 'setting' | 'action' | 'dialogue' | 'sound';
+
+export type ReviewDecision = 'approved' | 'changes-requested';
+
+// A reviewer's note on one field of a shared script.
+export interface ReviewComment {
+  id: string;
+  // Where the comment was left in the shared version; null for the title and tagline.
+  sceneIndex: number | null;
+  field: ScriptTextField;
+  // The field as the reviewer saw it, to find it again after scenes move and to tell when it was edited since.
+  quotedText: string;
+  text: string;
+  createdAt: number;
+  // Set by the owner once the comment has been dealt with.
+  resolved: boolean;
+}
+
+// One reviewer's feedback on a shared review page.
+export interface ScriptReview {
+  // The review page it answers.
+  reviewId: string;
+  reviewer: string;
+  // null when the reviewer only left comments.
+  decision: ReviewDecision | null;
+  // The version of the script that was shared.
+  versionNumber: number | null;
+  comments: ReviewComment[];
+  submittedAt: number;
+}
+
+// A review page that was shared from a project; feedback is only accepted for these.
+export interface SharedReview {
+  reviewId: string;
+  // The version of the script the page shows.
+  versionNumber: number;
+  sharedAt: number;
+}
+
+export type ComplianceSeverity = 'high' | 'medium' | 'low';
+
+// A possibly risky claim found by the local rules or by a model review.
+export interface ComplianceFinding {
+  // The rule that matched, or 'model-review'.
+  ruleId: string;
+  category: string;
+  severity: ComplianceSeverity;
+  // null for the title and tagline.
+  sceneIndex: number | null;
+  field: ScriptTextField;
+  // The text that triggered the finding.
+  excerpt: string;
+  message: string;
+  source: 'rules' | 'model';
+}
+
+export interface AdScriptVariant {
+  // The creative direction this variant was asked to explore.
+  angle: string;
+  script: AdScript;
+}
+
+// An image as sent to or returned by the model.
+export interface InlineImage {
+  base64Image: string;
+  mimeType: string;
+}
+
+// A still for one scene, drawn from its setting and action.
+export interface StoryboardFrame extends InlineImage {
+  // getSceneContentKey of the scene it was drawn from.
+  sceneKey: string;
+  createdAt: number;
+}
+
+// What the analysis pass extracted from the product shots; editable before it feeds the script prompt.
+export interface ProductProfile {
+  productName: string;
+  category: string;
+  brand: string;
+  colors: string[];
+  keyFeatures: string[];
+  // Text printed on the product or packaging: logos, labels, slogans.
+  visibleText: string[];
+}
+
+// Everything the model is told about the product.
+export interface ProductInput {
+  // Product shots, hero shot first.
+  images: InlineImage[];
+  description: string;
+  profile: ProductProfile | null;
+}
+
+export type AdDuration = 6 | 15 | 30 | 60;
+
+export type AdPlatform = 'tv' | 'youtube-preroll' | 'tiktok-vertical' | 'radio';
+
+// Reusable rules for one brand, applied to every script and video made for it.
+export interface BrandKitData {
+  name: string;
+  // How the brand sounds, e.g. "Confident, witty, never sarcastic".
+  voice: string;
+  // Used verbatim as the script's tagline when set.
+  mandatoryTagline: string;
+  // Must appear word for word in the script when set.
+  disclaimer: string;
+  bannedWords: string[];
+  colors: string[];
+  // How the logo looks and where it may appear.
+  logoNotes: string;
+}
+
+export interface BrandKit extends BrandKitData {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreativeBrief {
+  duration: AdDuration;
+  tone: string;
+  targetAudience: string;
+  platform: AdPlatform;
+  callToAction: string;
+  language: string;
+  // A copy of the selected kit, so the rules a script was written under travel with it.
+  brandKit: BrandKit | null;
+}
+
+// A product photo picked in the uploader; previewUrl is an object URL owned by the app.
+export interface ProductImageFile {
+  id: string;
+  file: File;
+  previewUrl: string;
+}
+
+// Everything needed to reopen a working session.
+export interface StoredProductImage {
+  blob: Blob;
+  name: string;
+}
+
+export interface ProjectData {
+  productImages: StoredProductImage[];
+  // The shot used as the reference for storyboards and video.
+  heroImageIndex: number;
+  productDescription: string;
+  productProfile: ProductProfile | null;
+  creativeBrief: CreativeBrief;
+  adScript: AdScript | null;
+  scriptHistory: ScriptHistory;
+  variants: AdScriptVariant[];
+  selectedVariantIndex: number | null;
+  // Locally generated videos are stored as blobs; remote ones only by reference.
+  videoBlob: Blob | null;
+  videoUrl: string | null;
+  storyboard: StoryboardFrame[];
+  // Feedback imported from review pages; a reviewer's newer feedback on the same page replaces the older.
+  reviews: ScriptReview[];
+  sharedReviews: SharedReview[];
+}
+
+export interface Project extends ProjectData {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
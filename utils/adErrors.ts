@@ -0,0 +1,131 @@
+// The kinds of failure the app tells apart. Codes are stable: they travel through the API server and
+// are used as the CLI's exit reasons.
+export type AdErrorCode = 'auth' | 'quota' | 'safety' | 'invalid-response' | 'network' | 'timeout' | 'cancelled' | 'unknown';
+
+export class AdServiceError extends Error {
+  readonly code: AdErrorCode;
+  // How long the API asked us to wait before trying again, when it said.
+  readonly retryAfterSeconds: number | null;
+
+  constructor(code: AdErrorCode, message: string, retryAfterSeconds: number | null = null) {
+    super(message);
+    this.name = 'AdServiceError';
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// The API key is missing, invalid or not allowed to use the model.
+export class AuthError extends AdServiceError {
+  constructor(message = "The Gemini API key is missing or invalid.") {
+    super('auth', message);
+    this.name = 'AuthError';
+  }
+}
+
+// Rate limited or out of quota.
+export class QuotaError extends AdServiceError {
+  constructor(message = "API rate limit exceeded. Please try again later.", retryAfterSeconds: number | null = null) {
+    super('quota', message, retryAfterSeconds);
+    this.name = 'QuotaError';
+  }
+}
+
+// The prompt or the output was blocked by the model's safety filters. Retrying the same input won't help.
+export class SafetyBlockError extends AdServiceError {
+  constructor(message = "The request was blocked by the model's safety filters.") {
+    super('safety', message);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+// The model answered, but not with anything usable.
+export class InvalidResponseError extends AdServiceError {
+  constructor(message = "The model returned an invalid response.") {
+    super('invalid-response', message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// The server or the API could not be reached, or is temporarily unavailable.
+export class NetworkError extends AdServiceError {
+  constructor(message = "Could not reach the server. Check your connection and try again.") {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends AdServiceError {
+  constructor(message = "The request took too long and was stopped.") {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Cancelled by the user; not shown as an error.
+export class CancelledError extends AdServiceError {
+  constructor(message = "The request was cancelled.") {
+    super('cancelled', message);
+    this.name = 'CancelledError';
+  }
+}
+
+export const createAdError = (code: AdErrorCode, message: string, retryAfterSeconds: number | null = null): AdServiceError => {
+  switch (code) {
+    case 'auth': return new AuthError(message);
+    case 'quota': return new QuotaError(message, retryAfterSeconds);
+    case 'safety': return new SafetyBlockError(message);
+    case 'invalid-response': return new InvalidResponseError(message);
+    case 'network': return new NetworkError(message);
+    case 'timeout': return new TimeoutError(message);
+    case 'cancelled': return new CancelledError(message);
+    default: return new AdServiceError('unknown', message);
+  }
+};
+
+export const getErrorCode = (error: unknown): AdErrorCode =>
+  error instanceof AdServiceError ? error.code : 'unknown';
+
+// The JSON form of an error, as sent by the API server.
+export interface AdErrorPayload {
+  error: string;
+  code: AdErrorCode;
+  retryAfterSeconds: number | null;
+}
+
+export const toErrorPayload = (error: unknown, fallbackMessage = 'An unexpected error occurred.'): AdErrorPayload => ({
+  error: error instanceof Error ? error.message : fallbackMessage,
+  code: getErrorCode(error),
+  retryAfterSeconds: error instanceof AdServiceError ? error.retryAfterSeconds : null,
+});
+
+const ERROR_CODES: AdErrorCode[] = ['auth', 'quota', 'safety', 'invalid-response', 'network', 'timeout', 'cancelled', 'unknown'];
+
+// Rebuilds the typed error from a payload. Without a code the HTTP status decides, e.g. for proxies in between.
+export const fromErrorPayload = (payload: unknown, status?: number): AdServiceError => {
+  const { error, code, retryAfterSeconds } = (payload && typeof payload === 'object' ? payload : {}) as Partial<Record<keyof AdErrorPayload, unknown>>;
+  const message = typeof error === 'string' && error ? error : `The server responded with HTTP ${status ?? 'an error'}.`;
+  const retryAfter = typeof retryAfterSeconds === 'number' && retryAfterSeconds > 0 ? retryAfterSeconds : null;
+  if (ERROR_CODES.includes(code as AdErrorCode)) {
+    return createAdError(code as AdErrorCode, message, retryAfter);
+  }
+  if (status === 401 || status === 403) return new AuthError(message);
+  if (status === 429) return new QuotaError(message, retryAfter);
+  if (status === 408 || status === 504) return new TimeoutError(message);
+  if (status === 502 || status === 503) return new NetworkError(message);
+  return new AdServiceError('unknown', message);
+};
+
+// The HTTP status the API server answers with for each kind of error.
+export const getHttpStatus = (code: AdErrorCode): number => {
+  switch (code) {
+    case 'auth': return 401;
+    case 'quota': return 429;
+    case 'safety': return 422;
+    case 'invalid-response': return 502;
+    case 'network': return 503;
+    case 'timeout': return 504;
+    case 'cancelled': return 499;
+    default: return 500;
+  }
+};
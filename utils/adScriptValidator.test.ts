@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { parseAdScript, parsePartialAdScript, validateAdScript } from './adScriptValidator';
+
+const scriptJson = JSON.stringify({
+  title: 'Morning Boost',
+  tagline: 'Wake up brighter.',
+  scenes: [
+    { sceneNumber: 1, startTime: 0, duration: 5, setting: 'INT. KITCHEN - DAY', action: 'Maya pours coffee.', dialogue: 'VO: Good morning.', sound: 'Kettle whistle' },
+    { sceneNumber: 2, startTime: 5, duration: 5, setting: 'EXT. PARK - MORNING', action: 'She jogs past the lake.', dialogue: 'None', sound: 'Acoustic music' },
+  ],
+}, null, 2);
+
+describe('parseAdScript', () => {
+  it('parses a complete response without repairs', () => {
+    const result = parseAdScript(scriptJson);
+    expect(result.script?.scenes).toHaveLength(2);
+    expect(result.repairs).toEqual([]);
+  });
+
+  it('removes a Markdown code fence', () => {
+    const result = parseAdScript(`\`\`\`json\n${scriptJson}\n\`\`\``);
+    expect(result.script?.title).toBe('Morning Boost');
+    expect(result.repairs).toEqual(['The response was wrapped in a code fence, which was removed.']);
+  });
+
+  it('closes off a response truncated after a complete scene', () => {
+    const truncated = scriptJson.slice(0, scriptJson.lastIndexOf('}', scriptJson.lastIndexOf(']')) + 1);
+    const result = parseAdScript(truncated);
+    expect(result.script?.scenes).toHaveLength(2);
+    expect(result.repairs).toContain('The response was truncated and was closed off.');
+  });
+
+  it('drops a scene cut off by truncation', () => {
+    const result = parseAdScript(scriptJson.slice(0, scriptJson.indexOf('She jogs')));
+    expect(result.script?.scenes.map(scene => scene.setting)).toEqual(['INT. KITCHEN - DAY']);
+    expect(result.repairs).toContain('The response was truncated; incomplete scenes[1] was dropped.');
+  });
+
+  it('reports JSON it cannot repair', () => {
+    const result = parseAdScript('not json');
+    expect(result.script).toBeNull();
+    expect(result.issues[0].path).toBe('$');
+  });
+});
+
+describe('validateAdScript', () => {
+  it('renumbers scenes, recomputes start times and fills in empty dialogue and sound', () => {
+    const result = validateAdScript({
+      title: ' Morning Boost ',
+      tagline: 'Wake up brighter.',
+      scenes: [
+        { sceneNumber: 3, startTime: 2, duration: '4', setting: 'INT. KITCHEN', action: 'Pours coffee.', dialogue: '', sound: 'Kettle' },
+        { duration: 6, setting: 'EXT. PARK', action: 'Jogs.', dialogue: 'VO: Go.' },
+      ],
+    });
+    expect(result.issues).toEqual([]);
+    expect(result.script).toEqual({
+      title: 'Morning Boost',
+      tagline: 'Wake up brighter.',
+      scenes: [
+        { sceneNumber: 1, startTime: 0, duration: 4, setting: 'INT. KITCHEN', action: 'Pours coffee.', dialogue: 'None', sound: 'Kettle' },
+        { sceneNumber: 2, startTime: 4, duration: 6, setting: 'EXT. PARK', action: 'Jogs.', dialogue: 'VO: Go.', sound: 'None' },
+      ],
+    });
+    expect(result.repairs).toHaveLength(6);
+  });
+
+  it('lists every field it cannot repair', () => {
+    const result = validateAdScript({ title: 'Morning Boost', scenes: [{ duration: 0, setting: 'INT. KITCHEN' }] });
+    expect(result.script).toBeNull();
+    expect(result.issues.map(issue => issue.path)).toEqual(['tagline', 'scenes[0].action', 'scenes[0].duration']);
+  });
+});
+
+describe('parsePartialAdScript', () => {
+  it('shows the scenes received in full while a fenced response streams in', () => {
+    const partial = parsePartialAdScript(`\`\`\`json\n${scriptJson.slice(0, scriptJson.indexOf('She jogs'))}`);
+    expect(partial.title).toBe('Morning Boost');
+    expect(partial.scenes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,328 @@
+import type { AdScript, PartialAdScript, Scene } from '../types';
+import { roundTime } from './sceneTiming';
+import { InvalidResponseError } from './adErrors';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  // The normalized script, or null when the issues could not be repaired.
+  script: AdScript | null;
+  issues: ValidationIssue[];
+  // Human-readable notes about what was fixed up automatically.
+  repairs: string[];
+}
+
+// Start times within this many seconds of the computed value are left alone.
+const TIME_EPSILON = 0.05;
+
+export class AdScriptValidationError extends InvalidResponseError {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`The generated script is invalid: ${formatIssues(issues)}`);
+    this.name = 'AdScriptValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+
+const asTrimmedString = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+/**
+ * Closes any strings, arrays and objects left open by a truncated response and drops a dangling
+ * key or trailing comma. Returns the input unchanged if it is already balanced.
+ */
+export const closeTruncatedJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+
+  if (!inString && stack.length === 0) return text;
+
+  let repaired = inString ? `${text}"` : text;
+  // Remove a trailing comma, colon or a key without a value, e.g. `, "sound"` or `, "sound":`.
+  repaired = repaired.replace(/,\s*("[^"]*"\s*:?\s*)?$/, '').replace(/:\s*$/, ': null');
+  return repaired + stack.reverse().join('');
+};
+
+/**
+ * Cuts a JSON response that is still streaming in back to the last value that was completed at most
+ * `maxDepth` containers deep, then closes it off. Values nested deeper only count once their container
+ * is complete, so a half-received object is left out instead of showing up with missing fields.
+ * Returns null if nothing is complete yet.
+ */
+export const closePartialJson = (text: string, maxDepth: number): string | null => {
+  const stack: { type: '{' | '['; expectingKey: boolean }[] = [];
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+  let inLiteral = false;
+  let safeEnd = -1;
+
+  const completeValue = (end: number) => {
+    if (stack.length <= maxDepth) safeEnd = end;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        if (!isKey) completeValue(i + 1);
+      }
+      continue;
+    }
+    // Numbers, booleans and null end at the next delimiter; until then they may still be growing.
+    if (inLiteral && /[\s,\]}]/.test(char)) {
+      inLiteral = false;
+      completeValue(i);
+    }
+    const top = stack[stack.length - 1];
+    if (char === '"') {
+      inString = true;
+      isKey = top?.type === '{' && top.expectingKey;
+    } else if (char === '{' || char === '[') {
+      stack.push({ type: char, expectingKey: char === '{' });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      completeValue(i + 1);
+    } else if (char === ':') {
+      if (top) top.expectingKey = false;
+    } else if (char === ',') {
+      if (top?.type === '{') top.expectingKey = true;
+    } else if (!/\s/.test(char)) {
+      inLiteral = true;
+    }
+  }
+
+  return safeEnd < 0 ? null : closeTruncatedJson(text.slice(0, safeEnd));
+};
+
+const CODE_FENCE_PATTERN = /^```[\w-]*[ \t]*\n?([\s\S]*?)\n?(?:```\s*)?$/;
+
+// Models sometimes wrap JSON in a Markdown code fence; the closing fence may not have arrived yet.
+const stripCodeFence = (text: string): string => text.trim().replace(CODE_FENCE_PATTERN, '$1').trim();
+
+const asPositiveNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const validateScene = (raw: unknown, index: number, issues: ValidationIssue[], repairs: string[]): Scene | null => {
+  const path = `scenes[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'must be an object' });
+    return null;
+  }
+  const scene = raw as Record<string, unknown>;
+  let valid = true;
+
+  const setting = asTrimmedString(scene.setting);
+  if (!setting) {
+    issues.push({ path: `${path}.setting`, message: 'is required' });
+    valid = false;
+  }
+
+  const action = asTrimmedString(scene.action);
+  if (!action) {
+    issues.push({ path: `${path}.action`, message: 'is required' });
+    valid = false;
+  }
+
+  const duration = asPositiveNumber(scene.duration);
+  if (duration === null) {
+    issues.push({ path: `${path}.duration`, message: 'must be a positive number of seconds' });
+    valid = false;
+  }
+
+  let dialogue = asTrimmedString(scene.dialogue);
+  if (!dialogue) {
+    dialogue = 'None';
+    repairs.push(`${path}.dialogue was empty and was set to "None".`);
+  }
+
+  let sound = asTrimmedString(scene.sound);
+  if (!sound) {
+    sound = 'None';
+    repairs.push(`${path}.sound was empty and was set to "None".`);
+  }
+
+  if (!valid) return null;
+
+  return {
+    sceneNumber: index + 1,
+    // Start times are recomputed from the durations once every scene is known.
+    startTime: 0,
+    duration: duration!,
+    setting: setting!,
+    action: action!,
+    dialogue,
+    sound,
+  };
+};
+
+/**
+ * Checks an untrusted value against the AdScript shape, repairing what it can.
+ * Scenes are always renumbered sequentially; missing dialogue/sound become "None".
+ */
+export const validateAdScript = (value: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const repairs: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { script: null, issues: [{ path: '$', message: 'must be a JSON object' }], repairs };
+  }
+  const raw = value as Record<string, unknown>;
+
+  const title = asTrimmedString(raw.title);
+  if (!title) issues.push({ path: 'title', message: 'is required' });
+
+  const tagline = asTrimmedString(raw.tagline);
+  if (!tagline) issues.push({ path: 'tagline', message: 'is required' });
+
+  const scenes: Scene[] = [];
+  if (!Array.isArray(raw.scenes)) {
+    issues.push({ path: 'scenes', message: 'must be an array' });
+  } else if (raw.scenes.length === 0) {
+    issues.push({ path: 'scenes', message: 'must contain at least one scene' });
+  } else {
+    let startTime = 0;
+    raw.scenes.forEach((rawScene, index) => {
+      const scene = validateScene(rawScene, index, issues, repairs);
+      if (!scene) return;
+      const original = rawScene as Record<string, unknown>;
+      if (original.sceneNumber !== index + 1) {
+        repairs.push(`scenes[${index}].sceneNumber was ${JSON.stringify(original.sceneNumber)} and was renumbered to ${index + 1}.`);
+      }
+      if (typeof original.startTime !== 'number' || Math.abs(original.startTime - startTime) > TIME_EPSILON) {
+        repairs.push(`scenes[${index}].startTime was ${JSON.stringify(original.startTime)} and was set to ${startTime}.`);
+      }
+      scene.startTime = startTime;
+      startTime = roundTime(startTime + scene.duration);
+      scenes.push(scene);
+    });
+  }
+
+  if (issues.length > 0) {
+    return { script: null, issues, repairs };
+  }
+  return { script: { title: title!, tagline: tagline!, scenes }, issues, repairs };
+};
+
+export interface SceneValidationResult {
+  scene: Scene | null;
+  issues: ValidationIssue[];
+  repairs: string[];
+}
+
+// Parses a single scene returned by the model. Its number and start time are left to the caller to fix up.
+export const parseScene = (jsonText: string, index: number): SceneValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const repairs: string[] = [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(jsonText));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'could not be parsed';
+    return { scene: null, issues: [{ path: '$', message: `invalid JSON (${message})` }], repairs };
+  }
+  const scene = validateScene(parsed, index, issues, repairs);
+  return { scene, issues, repairs };
+};
+
+/**
+ * Parses model output into an AdScript. A Markdown code fence around it is removed, truncated JSON
+ * is closed off before parsing, and an incomplete trailing scene left behind by the truncation is
+ * dropped rather than failing the script.
+ */
+export const parseAdScript = (jsonText: string): ValidationResult => {
+  const text = stripCodeFence(jsonText);
+  const fenceRepairs = text === jsonText.trim() ? [] : ['The response was wrapped in a code fence, which was removed.'];
+  let parsed: unknown;
+  let truncated = false;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    try {
+      parsed = JSON.parse(closeTruncatedJson(text));
+      truncated = true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'could not be parsed';
+      return { script: null, issues: [{ path: '$', message: `invalid JSON (${message})` }], repairs: [] };
+    }
+  }
+
+  let result = validateAdScript(parsed);
+  if (result.script || !truncated) {
+    const truncationRepairs = truncated ? ['The response was truncated and was closed off.'] : [];
+    return { ...result, repairs: [...fenceRepairs, ...truncationRepairs, ...result.repairs] };
+  }
+
+  // Only the last scene can be cut off by truncation; retry without it.
+  const raw = parsed as Record<string, unknown>;
+  if (Array.isArray(raw.scenes) && raw.scenes.length > 1) {
+    const lastIndex = raw.scenes.length - 1;
+    result = validateAdScript({ ...raw, scenes: raw.scenes.slice(0, lastIndex) });
+    if (result.script) {
+      return { ...result, repairs: [...fenceRepairs, `The response was truncated; incomplete scenes[${lastIndex}] was dropped.`, ...result.repairs] };
+    }
+  }
+  return result;
+};
+
+/**
+ * Extracts what can already be shown from a script response that is still streaming in: the title
+ * and tagline once their text is complete, and every scene received in full.
+ */
+export const parsePartialAdScript = (jsonText: string): PartialAdScript => {
+  const partial: PartialAdScript = { title: null, tagline: null, scenes: [] };
+  // The script object is one level deep and its scenes two, so a scene appears once it closes.
+  const closed = closePartialJson(stripCodeFence(jsonText), 2);
+  let raw: unknown;
+  try {
+    raw = closed ? JSON.parse(closed) : null;
+  } catch {
+    return partial;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return partial;
+
+  const { title, tagline, scenes } = raw as Record<string, unknown>;
+  partial.title = asTrimmedString(title) || null;
+  partial.tagline = asTrimmedString(tagline) || null;
+  if (Array.isArray(scenes)) {
+    let startTime = 0;
+    for (const rawScene of scenes) {
+      const scene = validateScene(rawScene, partial.scenes.length, [], []);
+      if (!scene) break;
+      scene.startTime = startTime;
+      startTime = roundTime(startTime + scene.duration);
+      partial.scenes.push(scene);
+    }
+  }
+  return partial;
+};
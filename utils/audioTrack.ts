@@ -0,0 +1,189 @@
+import type { AdScript } from '../types';
+import { VOICEOVER_CHARACTER, splitDialogue } from './scriptExport';
+import { getTotalDuration, roundTime } from './sceneTiming';
+import { SoundKind, getSoundPlaceholder, matchSoundPlaceholders } from './soundLibrary';
+import { RENDERABLE_FALLBACK_ENGINE, SpeechEngine } from './speechEngines';
+
+// A typical read for ad copy; used to check whether a VO line fits its scene.
+export const WORDS_PER_SECOND = 2.5;
+// Breathing room before the first line of a scene.
+const NARRATION_LEAD_IN = 0.25;
+// Extra silence at the end of the track so the last sound can ring out.
+const TAIL_SECONDS = 0.5;
+const SAMPLE_RATE = 44100;
+
+const LEVELS: Record<SoundKind | 'narration', number> = {
+  narration: 0.8,
+  music: 0.12,
+  sfx: 0.35,
+  ambience: 0.08,
+};
+// Music and ambience drop to this fraction of their level in scenes with narration.
+const DUCKING = 0.5;
+
+export interface NarrationCue {
+  sceneNumber: number;
+  startTime: number;
+  // The time allotted to the line: from its start to the next line or the end of the scene.
+  duration: number;
+  text: string;
+  // How long the line takes at WORDS_PER_SECOND.
+  estimatedDuration: number;
+  // False when the estimated read runs past the end of the scene.
+  fits: boolean;
+}
+
+export interface SoundCue {
+  sceneNumber: number;
+  startTime: number;
+  duration: number;
+  placeholderId: string;
+  gain: number;
+}
+
+export interface AudioTrack {
+  duration: number;
+  narration: NarrationCue[];
+  sounds: SoundCue[];
+}
+
+export const estimateSpeechDuration = (text: string): number =>
+  roundTime(text.split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND);
+
+/**
+ * Lays out the script's audio: "VO:" (and unattributed) dialogue becomes narration, read in
+ * order from the start of each scene, and each scene's sound cue becomes placeholder music/SFX.
+ */
+export const buildAudioTrack = (script: AdScript): AudioTrack => {
+  const narration: NarrationCue[] = [];
+  const sounds: SoundCue[] = [];
+
+  script.scenes.forEach(scene => {
+    const sceneEnd = scene.startTime + scene.duration;
+    const lines = splitDialogue(scene.dialogue).filter(line => line.character === VOICEOVER_CHARACTER);
+    let at = scene.startTime + Math.min(NARRATION_LEAD_IN, scene.duration / 4);
+    lines.forEach((line, i) => {
+      const estimatedDuration = estimateSpeechDuration(line.text);
+      // Later lines in the same scene share what is left of it.
+      const remainingLines = lines.length - i;
+      const duration = roundTime(Math.max((sceneEnd - at) / remainingLines, 0.5));
+      narration.push({
+        sceneNumber: scene.sceneNumber,
+        startTime: roundTime(at),
+        duration: Math.max(duration, estimatedDuration),
+        text: line.text,
+        estimatedDuration,
+        fits: at + estimatedDuration <= sceneEnd + 0.05,
+      });
+      at += Math.max(duration, estimatedDuration);
+    });
+
+    const ducked = lines.length > 0;
+    matchSoundPlaceholders(scene.sound).forEach(placeholder => {
+      const level = LEVELS[placeholder.kind] * (ducked && placeholder.kind !== 'sfx' ? DUCKING : 1);
+      sounds.push({ sceneNumber: scene.sceneNumber, startTime: scene.startTime, duration: scene.duration, placeholderId: placeholder.id, gain: level });
+    });
+  });
+
+  const lastNarrationEnd = narration.reduce((end, cue) => Math.max(end, cue.startTime + cue.duration), 0);
+  return {
+    duration: roundTime(Math.max(getTotalDuration(script.scenes), lastNarrationEnd) + TAIL_SECONDS),
+    narration,
+    sounds,
+  };
+};
+
+const scheduleSounds = (ctx: BaseAudioContext, destination: AudioNode, track: AudioTrack, offset: number) => {
+  track.sounds.forEach(cue => {
+    getSoundPlaceholder(cue.placeholderId)?.schedule(ctx, destination, offset + cue.startTime, cue.duration, cue.gain);
+  });
+};
+
+const scheduleNarration = (ctx: BaseAudioContext, destination: AudioNode, track: AudioTrack, engine: SpeechEngine, offset: number) => {
+  const voice = ctx.createGain();
+  voice.gain.value = LEVELS.narration;
+  voice.connect(destination);
+  track.narration.forEach(cue => engine.schedule?.(ctx, voice, cue.text, offset + cue.startTime, Math.min(cue.duration, cue.estimatedDuration)));
+};
+
+export interface AudioPlayback {
+  stop(): void;
+}
+
+/**
+ * Plays the track through the speakers. Engines that can't be scheduled on Web Audio are
+ * driven by timers instead, so their lines still land on their cue times.
+ */
+export const playAudioTrack = (track: AudioTrack, engine: SpeechEngine, onEnded: () => void): AudioPlayback => {
+  const ctx = new AudioContext();
+  const offset = ctx.currentTime + 0.1;
+  const timers: ReturnType<typeof setTimeout>[] = [];
+
+  scheduleSounds(ctx, ctx.destination, track, offset);
+  if (engine.schedule) {
+    scheduleNarration(ctx, ctx.destination, track, engine, offset);
+  } else if (engine.speak) {
+    track.narration.forEach(cue => {
+      timers.push(setTimeout(() => engine.speak!(cue.text, cue.duration), (0.1 + cue.startTime) * 1000));
+    });
+  }
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    timers.forEach(clearTimeout);
+    engine.cancel?.();
+    ctx.close();
+  };
+  timers.push(setTimeout(() => {
+    stop();
+    onEnded();
+  }, (0.1 + track.duration) * 1000));
+
+  return { stop };
+};
+
+// Renders the whole track offline. Narration falls back to a renderable engine when needed.
+export const renderAudioTrack = (track: AudioTrack, engine: SpeechEngine): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(1, Math.ceil(track.duration * SAMPLE_RATE), SAMPLE_RATE);
+  scheduleSounds(ctx, ctx.destination, track, 0);
+  scheduleNarration(ctx, ctx.destination, track, engine.canRender ? engine : RENDERABLE_FALLBACK_ENGINE, 0);
+  return ctx.startRendering();
+};
+
+// 16-bit PCM WAV.
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataSize = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let frame = 0; frame < frames; frame++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
@@ -0,0 +1,102 @@
+import type { AdScript, BrandKit, BrandKitData, ScriptTextField } from '../types';
+import type { ValidationIssue } from './adScriptValidator';
+
+export const EMPTY_BRAND_KIT: BrandKitData = {
+  name: '',
+  voice: '',
+  mandatoryTagline: '',
+  disclaimer: '',
+  bannedWords: [],
+  colors: [],
+  logoNotes: '',
+};
+
+// The guidelines section of the script prompts.
+export const describeBrandKit = (kit: BrandKit): string => {
+  const lines = [
+    `Brand: ${kit.name}`,
+    kit.voice && `Brand voice: ${kit.voice}. All copy must sound like this brand.`,
+    kit.mandatoryTagline && `The tagline must be exactly: "${kit.mandatoryTagline}"`,
+    kit.disclaimer && `Include this disclaimer word for word in the final scene's dialogue, as a voiceover or on-screen text: "${kit.disclaimer}"`,
+    kit.bannedWords.length > 0 && `Never use these words or phrases anywhere in the script: ${kit.bannedWords.map(word => `"${word}"`).join(', ')}`,
+    kit.colors.length > 0 && `Brand colors: ${kit.colors.join(', ')}`,
+    kit.logoNotes && `Logo: ${kit.logoNotes}`,
+  ];
+  return `Brand guidelines (mandatory):\n${lines.filter(Boolean).join('\n')}`;
+};
+
+// The visual part of the kit, for storyboard and video prompts.
+export const describeBrandVisuals = (kit: BrandKit | null): string => {
+  if (!kit) return '';
+  const lines = [
+    kit.colors.length > 0 && `Use the ${kit.name} brand colors (${kit.colors.join(', ')}) in props, lighting and wardrobe.`,
+    kit.logoNotes && `Logo: ${kit.logoNotes}`,
+  ];
+  return lines.filter(Boolean).join(' ');
+};
+
+export type BrandRule = 'banned-word' | 'tagline' | 'disclaimer';
+
+export interface BrandIssue {
+  rule: BrandRule;
+  // null for rules about the script as a whole.
+  sceneIndex: number | null;
+  field: ScriptTextField;
+  message: string;
+}
+
+const SCENE_FIELDS = ['setting', 'action', 'dialogue', 'sound'] as const;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so banning "hit" doesn't flag "white".
+const containsPhrase = (text: string, phrase: string): boolean =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase.trim())}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+// Quotes, case, spacing and closing punctuation don't count as a change to mandatory copy.
+const normalizeCopy = (text: string): string =>
+  text.toLowerCase().replace(/["'‘’“”]/g, '').replace(/\s+/g, ' ').trim().replace(/[.!]+$/, '');
+
+/**
+ * Checks a script against a brand kit: banned words in any field, the mandatory tagline and the
+ * disclaimer. Scene-level issues carry the scene index so they can be flagged on the scene.
+ */
+export const checkBrandKit = (script: AdScript, kit: BrandKit | null): BrandIssue[] => {
+  if (!kit) return [];
+  const issues: BrandIssue[] = [];
+  const bannedWords = kit.bannedWords.filter(word => word.trim());
+
+  const checkBanned = (text: string, sceneIndex: number | null, field: ScriptTextField) => {
+    bannedWords.filter(word => containsPhrase(text, word)).forEach(word => {
+      issues.push({ rule: 'banned-word', sceneIndex, field, message: `Uses the banned word "${word}" in the ${field}.` });
+    });
+  };
+
+  checkBanned(script.title, null, 'title');
+  checkBanned(script.tagline, null, 'tagline');
+  script.scenes.forEach((scene, index) => {
+    SCENE_FIELDS.forEach(field => checkBanned(scene[field], index, field));
+  });
+
+  if (kit.mandatoryTagline && normalizeCopy(script.tagline) !== normalizeCopy(kit.mandatoryTagline)) {
+    issues.push({ rule: 'tagline', sceneIndex: null, field: 'tagline', message: `The tagline must be the mandatory one: "${kit.mandatoryTagline}"` });
+  }
+
+  if (kit.disclaimer) {
+    const disclaimer = normalizeCopy(kit.disclaimer);
+    const included = script.scenes.some(scene => normalizeCopy(`${scene.dialogue} ${scene.action}`).includes(disclaimer));
+    if (!included) {
+      const lastIndex = script.scenes.length > 0 ? script.scenes.length - 1 : null;
+      issues.push({ rule: 'disclaimer', sceneIndex: lastIndex, field: 'dialogue', message: `Missing the mandatory disclaimer: "${kit.disclaimer}"` });
+    }
+  }
+
+  return issues;
+};
+
+// Brand issues in the form the repair loop feeds back to the model.
+export const toValidationIssues = (issues: BrandIssue[]): ValidationIssue[] =>
+  issues.map(issue => ({
+    path: issue.sceneIndex === null ? issue.field : `scenes[${issue.sceneIndex}].${issue.field}`,
+    message: issue.message,
+  }));
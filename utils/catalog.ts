@@ -0,0 +1,116 @@
+import { parseCsv } from './csv';
+import { getImageMimeType } from './imagePreprocessing';
+
+// One product of a catalog CSV.
+export interface CatalogRow {
+  sku: string;
+  name: string;
+  description: string;
+  imageFilename: string;
+  // Position in the CSV counting the header, for messages.
+  rowNumber: number;
+}
+
+export interface CatalogIssue {
+  rowNumber: number;
+  message: string;
+}
+
+export interface CatalogParseResult {
+  rows: CatalogRow[];
+  // Rows that were skipped, and why.
+  issues: CatalogIssue[];
+}
+
+export const MAX_CATALOG_ROWS = 1000;
+
+type CatalogColumn = 'sku' | 'name' | 'description' | 'imageFilename';
+
+const COLUMN_ALIASES: Record<CatalogColumn, string[]> = {
+  sku: ['sku', 'id', 'product id', 'item id'],
+  name: ['name', 'product name', 'title', 'product'],
+  description: ['description', 'product description', 'desc'],
+  imageFilename: ['image filename', 'image', 'image file', 'filename', 'file', 'image name', 'photo'],
+};
+
+// Files without a header row are read in this order.
+const DEFAULT_COLUMNS: CatalogColumn[] = ['sku', 'name', 'description', 'imageFilename'];
+
+const normalizeHeader = (value: string): string => value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+
+const findColumns = (header: string[]): Partial<Record<CatalogColumn, number>> | null => {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<CatalogColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as CatalogColumn[]).forEach(column => {
+    const index = normalized.findIndex(value => COLUMN_ALIASES[column].includes(value));
+    if (index !== -1) columns[column] = index;
+  });
+  return columns.sku !== undefined ? columns : null;
+};
+
+// Images are matched on the file name alone, ignoring folders and case.
+export const getImageKey = (path: string): string => (path.split(/[\\/]/).pop() ?? path).trim().toLowerCase();
+
+/**
+ * Reads a catalog CSV with SKU, name, description and image filename columns. The header row may
+ * use common alternatives ("Product Name", "image_file") and columns may be in any order; without
+ * a header the columns are taken in that order. Rows without a SKU or image, and repeated SKUs, are skipped.
+ */
+export const parseCatalogCsv = (text: string): CatalogParseResult => {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    throw new Error("The CSV file is empty.");
+  }
+  const headerColumns = findColumns(records[0]);
+  const columns = headerColumns ?? Object.fromEntries(DEFAULT_COLUMNS.map((column, index) => [column, index]));
+  if (columns.imageFilename === undefined) {
+    throw new Error('The CSV needs an image filename column (e.g. "image").');
+  }
+  const dataStart = headerColumns ? 1 : 0;
+
+  const rows: CatalogRow[] = [];
+  const issues: CatalogIssue[] = [];
+  const seen = new Set<string>();
+  let isTruncated = false;
+  const read = (record: string[], column: CatalogColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (record[index] ?? '').trim();
+  };
+
+  records.slice(dataStart).forEach((record, i) => {
+    const rowNumber = dataStart + i + 1;
+    const sku = read(record, 'sku');
+    const imageFilename = read(record, 'imageFilename');
+    if (!sku) {
+      issues.push({ rowNumber, message: 'No SKU; skipped.' });
+    } else if (seen.has(sku)) {
+      issues.push({ rowNumber, message: `SKU ${sku} appears more than once; only the first row is used.` });
+    } else if (!imageFilename) {
+      issues.push({ rowNumber, message: `SKU ${sku} has no image filename; skipped.` });
+    } else if (rows.length >= MAX_CATALOG_ROWS) {
+      if (!isTruncated) issues.push({ rowNumber, message: `Only the first ${MAX_CATALOG_ROWS} products are used; this row and the rest are skipped.` });
+      isTruncated = true;
+    } else {
+      seen.add(sku);
+      rows.push({ sku, name: read(record, 'name'), description: read(record, 'description'), imageFilename, rowNumber });
+    }
+  });
+
+  if (rows.length === 0) {
+    throw new Error("The CSV has no usable rows.");
+  }
+  return { rows, issues };
+};
+
+// What the model is told about a catalog product.
+export const describeCatalogProduct = (row: CatalogRow): string =>
+  [row.name, row.description].filter(Boolean).join(': ');
+
+// Turns a file from a ZIP archive into an image File, or null for anything that isn't an image
+// (including the "._" and __MACOSX copies macOS adds).
+export const toCatalogImageFile = (path: string, data: Blob): File | null => {
+  const name = path.split('/').pop() ?? path;
+  if (name.startsWith('.') || path.includes('__MACOSX/')) return null;
+  const type = getImageMimeType(name);
+  return type ? new File([data], name, { type }) : null;
+};
@@ -0,0 +1,258 @@
+import type { AdScript, ComplianceFinding, ComplianceSeverity, ScriptTextField } from '../types';
+import { getFieldText } from './scriptEditing';
+
+export interface ComplianceRule {
+  id: string;
+  category: string;
+  severity: ComplianceSeverity;
+  // Regular expression sources, matched case-insensitively as whole words.
+  patterns: string[];
+  // The rule is satisfied when any of these appears anywhere in the script, e.g. a pricing disclaimer.
+  unlessScriptContains?: string[];
+  message: string;
+}
+
+export interface ComplianceRuleSet {
+  id: string;
+  label: string;
+  // Markets are where the ad runs; categories are what it sells. Any combination can be enabled.
+  kind: 'market' | 'category';
+  rules: ComplianceRule[];
+}
+
+const PRICING_DISCLAIMERS = [
+  'terms apply', 'conditions apply', 'terms and conditions', 't&cs apply', 'restrictions apply',
+  'see (store|site|website|online) for details', 'while supplies last', 'plus tax', 'excludes tax',
+  'offer ends', 'limited time', 'for a limited time',
+];
+
+export const COMPLIANCE_RULE_SETS: ComplianceRuleSet[] = [
+  {
+    id: 'general',
+    label: 'General (all markets)',
+    kind: 'market',
+    rules: [
+      {
+        id: 'superlative',
+        category: 'Superlative claim',
+        severity: 'medium',
+        patterns: ['best', '#1', 'number one', 'no\\.? ?1', 'greatest', 'unbeatable', 'unrivall?ed', 'the only', "world'?s (best|leading|first)", 'market[- ]leading', 'ultimate'],
+        message: 'Superlatives need substantiation such as independent test results or sales data.',
+      },
+      {
+        id: 'absolute',
+        category: 'Absolute claim',
+        severity: 'medium',
+        patterns: ['100 ?%', 'guaranteed?', 'never fails', 'always works', 'risk[- ]free', 'instant(ly)? results', 'permanent(ly)?', 'forever'],
+        message: 'Absolute promises are hard to prove and are often challenged as misleading.',
+      },
+      {
+        id: 'pricing-disclaimer',
+        category: 'Pricing',
+        severity: 'high',
+        patterns: ['[$€£¥]\\s?\\d+([.,]\\d+)*', '\\d+([.,]\\d+)*\\s?(dollars|euros|pounds|bucks)', '\\d+ ?% off', 'half[- ]price', '(?<!-)free', 'buy one,? get one', 'lowest price'],
+        unlessScriptContains: PRICING_DISCLAIMERS,
+        message: 'Prices, discounts and free offers need their conditions stated, e.g. "Terms apply".',
+      },
+      {
+        id: 'competitor',
+        category: 'Competitor reference',
+        severity: 'medium',
+        patterns: ['other brands?', 'leading brands?', 'competitors?', 'the competition', 'compared (to|with)', 'versus', 'vs\\.?', 'unlike (the )?others'],
+        message: 'Comparative claims must be fair, verifiable and not denigrate competitors.',
+      },
+      {
+        id: 'health-claim',
+        category: 'Health or medical claim',
+        severity: 'high',
+        patterns: ['cures?', 'treats? (acne|pain|symptoms|disease|illness|anxiety|depression|arthritis|eczema|insomnia)', 'heals?', 'prevents? (disease|illness|cancer|infection|colds?|flu)', 'clinically (proven|tested)', 'doctor[- ]recommended', 'medically (proven|approved)', 'fda[- ]approved', 'boosts? (your )?immun(e|ity)', 'lose \\d+ ?(pounds|lbs|kg|kilos)', 'weight loss', 'detox(ify|ifies)?'],
+        message: 'Health and medical claims usually need regulatory approval or clinical evidence.',
+      },
+    ],
+  },
+  {
+    id: 'us-ftc',
+    label: 'United States (FTC)',
+    kind: 'market',
+    rules: [
+      {
+        id: 'made-in-usa',
+        category: 'Origin claim',
+        severity: 'medium',
+        patterns: ['made in (the )?(usa|u\\.s\\.a\\.|america|united states)', 'american[- ]made'],
+        message: 'FTC rules require "all or virtually all" of the product to be made in the US.',
+      },
+      {
+        id: 'endorsement',
+        category: 'Endorsement',
+        severity: 'medium',
+        patterns: ['(dermatologist|dentist|expert|vet)s?[- ]recommended', 'as seen on', 'real customers?', 'results not typical'],
+        message: 'Endorsements must reflect typical results and disclose any material connection.',
+      },
+    ],
+  },
+  {
+    id: 'eu-uk',
+    label: 'EU and UK (ASA, UCPD)',
+    kind: 'market',
+    rules: [
+      {
+        id: 'green-claim',
+        category: 'Environmental claim',
+        severity: 'medium',
+        patterns: ['eco[- ]friendly', 'environmentally friendly', 'green(er)?', 'sustainable', 'carbon[- ]neutral', 'climate[- ]neutral', 'net[- ]zero', 'biodegradable', 'planet[- ]friendly'],
+        message: 'Generic environmental claims are restricted and need specific, evidenced backing.',
+      },
+      {
+        id: 'named-comparison',
+        category: 'Comparative advertising',
+        severity: 'high',
+        patterns: ['(better|faster|cheaper|stronger) than'],
+        message: 'Comparisons must compare like with like on verifiable, representative features.',
+      },
+    ],
+  },
+  {
+    id: 'health-supplements',
+    label: 'Health, beauty and supplements',
+    kind: 'category',
+    rules: [
+      {
+        id: 'supplement-claim',
+        category: 'Health or medical claim',
+        severity: 'high',
+        patterns: ['burns? fat', 'boosts? (your )?metabolism', 'supports? (your )?immun(e|ity)', 'no side[- ]effects', 'anti[- ]aging', 'reverses? (aging|ageing)', 'reduces? wrinkles'],
+        message: 'Only authorised health claims may be made for foods, supplements and cosmetics.',
+      },
+      {
+        id: 'natural-safe',
+        category: 'Safety claim',
+        severity: 'low',
+        patterns: ['all[- ]natural', '100 ?% natural', 'chemical[- ]free', 'completely safe', 'totally safe'],
+        message: '"Natural" and "safe" claims are easily misleading; be specific about what they mean.',
+      },
+    ],
+  },
+  {
+    id: 'financial',
+    label: 'Financial services',
+    kind: 'category',
+    rules: [
+      {
+        id: 'financial-promise',
+        category: 'Financial promise',
+        severity: 'high',
+        patterns: ['guaranteed (returns?|income|approval)', 'get rich', 'no credit check', 'can\'?t lose', 'double your money'],
+        message: 'Financial promotions must be fair, clear and not misleading, with risks stated.',
+      },
+      {
+        id: 'apr-example',
+        category: 'Pricing',
+        severity: 'high',
+        patterns: ['\\d+(\\.\\d+)? ?% (apr|interest)', 'lowest rates?', '0 ?% (apr|interest|finance)'],
+        unlessScriptContains: ['representative', 'representative example', 'subject to (status|approval)'],
+        message: 'Rates need a representative example and eligibility conditions.',
+      },
+    ],
+  },
+];
+
+export const DEFAULT_RULE_SET_IDS = ['general'];
+
+// Whole words only, so "cures" doesn't match "secures"; symbols such as "#1" or "$" still match.
+const toRegExp = (source: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'iu');
+
+// Competitor names configured by the user become a rule of their own.
+const buildCompetitorRule = (competitors: string[]): ComplianceRule | null => {
+  const names = competitors.map(name => name.trim()).filter(Boolean);
+  if (names.length === 0) return null;
+  return {
+    id: 'competitor-name',
+    category: 'Competitor reference',
+    severity: 'high',
+    patterns: names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')),
+    message: 'Naming a competitor needs legal review of the comparison.',
+  };
+};
+
+const getScriptFields = (script: AdScript): { sceneIndex: number | null; field: ScriptTextField; text: string }[] => [
+  { sceneIndex: null, field: 'title', text: script.title },
+  { sceneIndex: null, field: 'tagline', text: script.tagline },
+  ...script.scenes.flatMap((scene, sceneIndex) =>
+    (['action', 'dialogue'] as const).map(field => ({ sceneIndex, field, text: scene[field] }))),
+];
+
+const SEVERITY_ORDER: Record<ComplianceSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+export const sortFindings = (findings: ComplianceFinding[]): ComplianceFinding[] =>
+  [...findings].sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || (a.sceneIndex ?? -1) - (b.sceneIndex ?? -1));
+
+/**
+ * Runs the enabled rule sets over the title, tagline and every scene's action (which carries
+ * on-screen text) and dialogue. Entirely local: nothing leaves the browser. One finding per rule per field.
+ */
+export const runComplianceCheck = (script: AdScript, ruleSetIds: string[], competitors: string[] = []): ComplianceFinding[] => {
+  const rules = COMPLIANCE_RULE_SETS.filter(set => ruleSetIds.includes(set.id)).flatMap(set => set.rules);
+  const competitorRule = buildCompetitorRule(competitors);
+  if (competitorRule) rules.push(competitorRule);
+
+  const fields = getScriptFields(script);
+  const fullText = script.scenes.map(scene => `${scene.dialogue} ${scene.action}`).join('\n') + `\n${script.title}\n${script.tagline}`;
+  const findings: ComplianceFinding[] = [];
+
+  rules.forEach(rule => {
+    if (rule.unlessScriptContains?.some(source => toRegExp(source).test(fullText))) return;
+    const patterns = rule.patterns.map(toRegExp);
+    fields.forEach(({ sceneIndex, field, text }) => {
+      for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) {
+          findings.push({ ruleId: rule.id, category: rule.category, severity: rule.severity, sceneIndex, field, excerpt: match[0], message: rule.message, source: 'rules' });
+          break;
+        }
+      }
+    });
+  });
+
+  return sortFindings(findings);
+};
+
+export const getRuleSetLabels = (ruleSetIds: string[]): string[] =>
+  COMPLIANCE_RULE_SETS.filter(set => ruleSetIds.includes(set.id)).map(set => set.label);
+
+const SEVERITIES: ComplianceSeverity[] = ['high', 'medium', 'low'];
+const FIELDS: ScriptTextField[] = ['title', 'tagline', 'setting', 'action', 'dialogue', 'sound'];
+
+/**
+ * Turns a model review into findings. The model refers to scenes by number (0 for the title
+ * and tagline); anything pointing at a scene that doesn't exist is dropped.
+ */
+export const normalizeModelFindings = (value: unknown, script: AdScript): ComplianceFinding[] => {
+  const raw = value && typeof value === 'object' ? (value as { findings?: unknown }).findings : null;
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item): ComplianceFinding[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { sceneNumber, field, severity, category, excerpt, explanation } = item as Record<string, unknown>;
+    const sceneIndex = typeof sceneNumber === 'number' && sceneNumber > 0
+      ? script.scenes.findIndex(scene => scene.sceneNumber === sceneNumber)
+      : null;
+    if (sceneIndex === -1 || typeof explanation !== 'string' || !explanation.trim()) return [];
+    const normalizedField = FIELDS.includes(field as ScriptTextField) ? field as ScriptTextField : sceneIndex === null ? 'tagline' : 'dialogue';
+    return [{
+      ruleId: 'model-review',
+      category: typeof category === 'string' && category.trim() ? category.trim() : 'Model review',
+      severity: SEVERITIES.includes(severity as ComplianceSeverity) ? severity as ComplianceSeverity : 'medium',
+      sceneIndex,
+      field: normalizedField,
+      excerpt: typeof excerpt === 'string' ? excerpt.trim() : '',
+      message: explanation.trim(),
+      source: 'model',
+    }];
+  });
+};
+
+// A model finding stays relevant until the quoted words are edited out of its field.
+export const isFindingCurrent = (finding: ComplianceFinding, script: AdScript): boolean =>
+  !finding.excerpt || getFieldText(script, finding).toLowerCase().includes(finding.excerpt.toLowerCase());
@@ -0,0 +1,85 @@
+import type { AdDuration, AdPlatform, CreativeBrief } from '../types';
+
+export const AD_DURATIONS: AdDuration[] = [6, 15, 30, 60];
+
+export const AD_PLATFORMS: { value: AdPlatform; label: string; guidance: string }[] = [
+  {
+    value: 'tv',
+    label: 'TV',
+    guidance: 'a broadcast TV spot in 16:9 landscape, shot for a large screen',
+  },
+  {
+    value: 'youtube-preroll',
+    label: 'YouTube pre-roll',
+    guidance: 'a YouTube pre-roll ad in 16:9; hook the viewer and show the brand within the first 5 seconds, before the skip button appears',
+  },
+  {
+    value: 'tiktok-vertical',
+    label: 'TikTok vertical',
+    guidance: 'a native-feeling TikTok ad in 9:16 vertical format, with fast cuts and on-screen text',
+  },
+  {
+    value: 'radio',
+    label: 'Radio',
+    guidance: 'an audio-only radio spot; describe each setting and action as it is heard, and carry the story through voiceover and sound design',
+  },
+];
+
+export const AD_TONES = [
+  'Energetic and inspiring',
+  'Warm and heartfelt',
+  'Humorous and playful',
+  'Luxurious and aspirational',
+  'Calm and minimal',
+  'Bold and edgy',
+  'Informative and trustworthy',
+];
+
+export const AD_LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Hindi',
+  'Japanese',
+  'Korean',
+  'Chinese (Simplified)',
+];
+
+// Distinct directions used when several script variants are requested at once.
+export const CREATIVE_ANGLES = [
+  'Emotional storytelling',
+  'Problem and solution',
+  'Product demo focused on key features',
+  'Humor and surprise',
+  'Lifestyle and aspiration',
+];
+
+export const MAX_VARIANTS = CREATIVE_ANGLES.length;
+
+export const DEFAULT_CREATIVE_BRIEF: CreativeBrief = {
+  duration: 30,
+  tone: AD_TONES[0],
+  targetAudience: '',
+  platform: 'tv',
+  callToAction: '',
+  language: 'English',
+  brandKit: null,
+};
+
+export const getPlatformLabel = (platform: AdPlatform): string =>
+  AD_PLATFORMS.find(p => p.value === platform)?.label ?? platform;
+
+export const getPlatformGuidance = (platform: AdPlatform): string =>
+  AD_PLATFORMS.find(p => p.value === platform)?.guidance ?? platform;
+
+// Aspect ratio of frames and shots for the brief's platform.
+export const getFrameAspectRatio = (brief: CreativeBrief): '16:9' | '9:16' =>
+  brief.platform === 'tiktok-vertical' ? '9:16' : '16:9';
+
+// A short label such as "15-second TikTok vertical" for use in prompts and schema descriptions.
+export const describeFormat = (brief: CreativeBrief): string =>
+  `${brief.duration}-second ${getPlatformLabel(brief.platform)}`;
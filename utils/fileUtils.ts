@@ -16,3 +16,18 @@ export const fileToBase64 = (file: File): Promise<string> => {
       reader.onerror = (error) => reject(error);
     });
   };
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+// Videos assembled or mocked in the browser are WebM; Veo returns MP4, sometimes labelled only as a generic binary.
+export const getVideoExtension = (mimeType: string) => (mimeType.includes('webm') ? 'webm' : 'mp4');
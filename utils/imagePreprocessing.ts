@@ -0,0 +1,200 @@
+// Longest side sent to the model; larger phone photos only make requests slower.
+export const MAX_IMAGE_DIMENSION = 2048;
+
+// Set MAX_IMAGE_BYTES in .env.local to change the limit for a processed image.
+export const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_BYTES) || 4 * 1024 * 1024;
+
+// Anything bigger is refused before decoding, which could otherwise stall the tab.
+const MAX_SOURCE_BYTES = 50 * 1024 * 1024;
+
+// Below this the product is too small to be useful, so give up instead of shrinking further.
+const MIN_IMAGE_DIMENSION = 512;
+
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6];
+
+export type CropAspect = '16:9' | '9:16' | '1:1';
+
+export const CROP_ASPECTS: { value: CropAspect; label: string; ratio: number }[] = [
+  { value: '16:9', label: '16:9 Landscape', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16 Vertical', ratio: 9 / 16 },
+  { value: '1:1', label: '1:1 Square', ratio: 1 },
+];
+
+// A region of the source image, as fractions of its width and height.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePreprocessOptions {
+  crop?: CropRect | null;
+  maxDimension?: number;
+  maxBytes?: number;
+}
+
+export class ImagePreprocessError extends Error {
+  constructor(public readonly fileName: string, message: string) {
+    super(message);
+    this.name = 'ImagePreprocessError';
+  }
+}
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+// HEIC and TIFF files often arrive without a MIME type, so the extension is checked too.
+const CONVERTIBLE_EXTENSIONS = ['heic', 'heif', 'tif', 'tiff'];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+// For files that come without a type, such as entries of a ZIP archive or paths on disk.
+export const getImageMimeType = (name: string): string | null => IMAGE_MIME_TYPES[getExtension(name)] ?? null;
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || CONVERTIBLE_EXTENSIONS.includes(getExtension(file.name));
+
+const describeUnsupported = (file: File): string => {
+  const extension = getExtension(file.name);
+  if (['heic', 'heif'].includes(extension) || /hei[cf]/.test(file.type)) {
+    return "This browser can't read HEIC photos. Export it as JPEG first, or upload it from Safari.";
+  }
+  if (['tif', 'tiff'].includes(extension) || file.type === 'image/tiff') {
+    return "This browser can't read TIFF images. Export it as JPEG or PNG first, or upload it from Safari.";
+  }
+  return "The image could not be read. It may be damaged or in an unsupported format.";
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * Decodes with the browser's own codecs. EXIF orientation is applied here, so the pixels are
+ * upright once the metadata is dropped on re-encoding. GIFs decode to their first frame.
+ */
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImagePreprocessError(file.name, describeUnsupported(file));
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode the image."))), type, quality);
+  });
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const toSourceRegion = (image: ImageBitmap, crop: CropRect | null | undefined) => {
+  if (!crop) return { sx: 0, sy: 0, sw: image.width, sh: image.height };
+  const sx = Math.round(crop.x * image.width);
+  const sy = Math.round(crop.y * image.height);
+  return {
+    sx,
+    sy,
+    sw: Math.max(1, Math.min(image.width - sx, Math.round(crop.width * image.width))),
+    sh: Math.max(1, Math.min(image.height - sy, Math.round(crop.height * image.height))),
+  };
+};
+
+const renameWithExtension = (name: string, extension: string): string =>
+  `${name.replace(/\.[^.]+$/, '') || 'product-image'}.${extension}`;
+
+/**
+ * Re-encodes an uploaded photo for the model: crops it, scales the longest side down to
+ * `maxDimension`, converts it to JPEG (PNG when it has transparency) and keeps shrinking until
+ * it fits in `maxBytes`. Redrawing through a canvas also drops EXIF data such as GPS location.
+ */
+export const preprocessImage = async (file: File, options: ImagePreprocessOptions = {}): Promise<File> => {
+  const maxDimension = options.maxDimension ?? MAX_IMAGE_DIMENSION;
+  const maxBytes = options.maxBytes ?? MAX_IMAGE_BYTES;
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new ImagePreprocessError(file.name, `The file is ${formatBytes(file.size)}; the largest image that can be processed is ${formatBytes(MAX_SOURCE_BYTES)}.`);
+  }
+
+  const image = await decodeImage(file);
+  try {
+    const { sx, sy, sw, sh } = toSourceRegion(image, options.crop);
+    let scale = Math.min(1, maxDimension / Math.max(sw, sh));
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new ImagePreprocessError(file.name, "Failed to create a canvas to process the image.");
+    }
+
+    const draw = () => {
+      canvas.width = Math.max(1, Math.round(sw * scale));
+      canvas.height = Math.max(1, Math.round(sh * scale));
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    };
+
+    draw();
+    const keepAlpha = ['image/png', 'image/gif', 'image/webp'].includes(file.type) && hasTransparency(ctx, canvas.width, canvas.height);
+
+    for (;;) {
+      if (keepAlpha) {
+        const blob = await canvasToBlob(canvas, 'image/png');
+        if (blob.size <= maxBytes) {
+          return new File([blob], renameWithExtension(file.name, 'png'), { type: 'image/png' });
+        }
+      } else {
+        // JPEG has no alpha channel, so flatten onto white rather than black.
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        for (const quality of JPEG_QUALITIES) {
+          const blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+          if (blob.size <= maxBytes) {
+            return new File([blob], renameWithExtension(file.name, 'jpg'), { type: 'image/jpeg' });
+          }
+        }
+      }
+      if (Math.max(canvas.width, canvas.height) * 0.75 < MIN_IMAGE_DIMENSION) {
+        throw new ImagePreprocessError(file.name, `The image could not be reduced below the ${formatBytes(maxBytes)} limit.`);
+      }
+      scale *= 0.75;
+      draw();
+    }
+  } finally {
+    image.close();
+  }
+};
+
+/**
+ * The largest region with the given aspect ratio, scaled by `zoom` (0-1] and centred on
+ * (centerX, centerY), clamped so it stays inside an image of the given pixel size.
+ */
+export const fitCropRect = (
+  imageWidth: number,
+  imageHeight: number,
+  ratio: number,
+  zoom: number,
+  centerX: number,
+  centerY: number
+): CropRect => {
+  const fullWidth = imageWidth / imageHeight > ratio ? imageHeight * ratio : imageWidth;
+  const width = (fullWidth * zoom) / imageWidth;
+  const height = (fullWidth / ratio * zoom) / imageHeight;
+  const clamp = (value: number, size: number) => Math.min(1 - size, Math.max(0, value - size / 2));
+  return { x: clamp(centerX, width), y: clamp(centerY, height), width, height };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createPdfDocument, findUnsupportedCharacters } from './pdfWriter';
+
+describe('findUnsupportedCharacters', () => {
+  it('accepts all of Windows-1252, including the 0x80-0x9F punctuation and ligatures', () => {
+    expect(findUnsupportedCharacters('cœur Œuvre Š š Ž ž Ÿ ƒ „quoted“ ‚single‘ † ‡ ˆ ˜ ‰ ‹ › € … • – — ™ café\tnaïve')).toEqual([]);
+  });
+
+  it('lists each character outside it once', () => {
+    expect(findUnsupportedCharacters('नमस्ते 안녕 안녕 😀')).toEqual(['न', 'म', 'स', '्', 'त', 'े', '안', '녕', '😀']);
+  });
+});
+
+describe('createPdfDocument', () => {
+  it('refuses to write text the fonts cannot show instead of printing "?"', () => {
+    const pdf = createPdfDocument();
+    pdf.text('Title', 48, 48);
+    pdf.text('朝を明るく', 48, 64);
+    expect(() => pdf.toBytes()).toThrow("PDF export only supports Latin-script text and can't show 朝 を 明 る く. Use another export format for this script.");
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * A minimal PDF 1.4 writer for the app's exports: text in the standard Helvetica fonts, lines,
+ * filled rectangles and JPEG images. Coordinates are in points with the origin at the top-left.
+ * The fonts only cover WinAnsi (Western European) text; documents with other scripts can't be written.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  // Grey level from 0 (black) to 1 (white).
+  gray?: number;
+}
+
+export interface PdfJpegImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  addPage: () => void;
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, gray?: number) => void;
+  rect: (x: number, y: number, width: number, height: number, gray: number) => void;
+  image: (image: PdfJpegImage, x: number, y: number, width: number, height: number) => void;
+  toBytes: () => Uint8Array;
+  toBlob: () => Blob;
+}
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+// Helvetica advance widths (per 1000 units of font size) for ASCII 32-126.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding (Windows-1252) places in 0x80-0x9F.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Stray tabs and line breaks print as spaces.
+const toWinAnsiCode = (char: string): number | null => {
+  const code = char.charCodeAt(0);
+  if (WIN_ANSI_EXTRAS[char] !== undefined) return WIN_ANSI_EXTRAS[char];
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return /\s/.test(char) ? 32 : null;
+};
+
+// Characters the standard fonts have no glyph for, e.g. Devanagari, CJK or Hangul, each listed once.
+export const findUnsupportedCharacters = (value: string): string[] =>
+  [...new Set(Array.from(value).filter(char => toWinAnsiCode(char) === null))];
+
+export const describeUnsupportedCharacters = (chars: string[]): string =>
+  `PDF export only supports Latin-script text and can't show ${chars.slice(0, 5).join(' ')}${chars.length > 5 ? ' …' : ''}. Use another export format for this script.`;
+
+export const measureText = (value: string, size: number, font: PdfFont = 'regular'): number => {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Bold glyphs run roughly 5% wider than the regular metrics.
+  return (units * size * (font === 'bold' ? 1.05 : 1)) / 1000;
+};
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, honouring existing newlines.
+ * Words longer than a whole line are split mid-word.
+ */
+export const wrapText = (value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  value.split(/\r?\n/).forEach(paragraph => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        current = candidate;
+        return;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (measureText(current, size, font) > maxWidth && current.length > 1) {
+        let cut = current.length - 1;
+        while (cut > 1 && measureText(current.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+};
+
+const encodeText = (value: string): string =>
+  '<' + Array.from(value, char => (toWinAnsiCode(char) ?? 63).toString(16).padStart(2, '0')).join('') + '>';
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const latin1Bytes = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export const createPdfDocument = (width = 612, height = 792): PdfDocument => {
+  const pages: { content: string[]; images: PdfJpegImage[] }[] = [];
+  let current = { content: [] as string[], images: [] as PdfJpegImage[] };
+  pages.push(current);
+  const unsupported = new Set<string>();
+
+  // PDF space has its origin at the bottom-left.
+  const flipY = (y: number) => height - y;
+
+  const addPage = () => {
+    current = { content: [], images: [] };
+    pages.push(current);
+  };
+
+  const text = (value: string, x: number, y: number, options: PdfTextOptions = {}) => {
+    const { font = 'regular', size = 11, gray = 0 } = options;
+    findUnsupportedCharacters(value).forEach(char => unsupported.add(char));
+    current.content.push(
+      `BT ${formatNumber(gray)} g /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(flipY(y))} Td ${encodeText(value)} Tj ET`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, gray = 0.6) => {
+    current.content.push(
+      `${formatNumber(gray)} G 0.5 w ${formatNumber(x1)} ${formatNumber(flipY(y1))} m ${formatNumber(x2)} ${formatNumber(flipY(y2))} l S`
+    );
+  };
+
+  const rect = (x: number, y: number, rectWidth: number, rectHeight: number, gray: number) => {
+    current.content.push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(flipY(y + rectHeight))} ${formatNumber(rectWidth)} ${formatNumber(rectHeight)} re f`
+    );
+  };
+
+  const image = (jpeg: PdfJpegImage, x: number, y: number, drawWidth: number, drawHeight: number) => {
+    const name = `Im${current.images.length + 1}`;
+    current.images.push(jpeg);
+    current.content.push(
+      `q ${formatNumber(drawWidth)} 0 0 ${formatNumber(drawHeight)} ${formatNumber(x)} ${formatNumber(flipY(y + drawHeight))} cm /${name} Do Q`
+    );
+  };
+
+  // Refuses rather than printing '?' in place of text the fonts can't show.
+  const toBytes = (): Uint8Array => {
+    if (unsupported.size > 0) throw new Error(describeUnsupportedCharacters([...unsupported]));
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1Bytes(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    // Object numbers: 1 catalog, 2 page tree, 3-5 fonts, then page/content/image objects.
+    let nextObject = 6;
+    const pageLayout = pages.map(page => {
+      const pageObject = nextObject++;
+      const contentObject = nextObject++;
+      const imageObjects = page.images.map(() => nextObject++);
+      return { page, pageObject, contentObject, imageObjects };
+    });
+
+    const writeObject = (number: number, body: string | Uint8Array[]) => {
+      offsets[number] = length;
+      write(`${number} 0 obj\n`);
+      if (typeof body === 'string') write(body);
+      else body.forEach(write);
+      write('\nendobj\n');
+    };
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageLayout.map(p => `${p.pageObject} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    (['regular', 'bold', 'italic'] as PdfFont[]).forEach((font, index) => {
+      writeObject(3 + index, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`);
+    });
+
+    pageLayout.forEach(({ page, pageObject, contentObject, imageObjects }) => {
+      const xObjects = imageObjects.map((number, i) => `/Im${i + 1} ${number} 0 R`).join(' ');
+      writeObject(pageObject,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents ${contentObject} 0 R ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> >>`
+      );
+      const stream = latin1Bytes(page.content.join('\n'));
+      writeObject(contentObject, [latin1Bytes(`<< /Length ${stream.length} >>\nstream\n`), stream, latin1Bytes('\nendstream')]);
+      page.images.forEach((jpeg, i) => {
+        writeObject(imageObjects[i], [
+          latin1Bytes(`<< /Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.bytes.length} >>\nstream\n`),
+          jpeg.bytes,
+          latin1Bytes('\nendstream'),
+        ]);
+      });
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${nextObject}\n0000000000 65535 f \n`);
+    for (let i = 1; i < nextObject; i++) {
+      write(`${offsets[i].toString().padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${nextObject} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const result = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result;
+  };
+
+  return {
+    width,
+    height,
+    addPage,
+    text,
+    line,
+    rect,
+    image,
+    toBytes,
+    toBlob: () => new Blob([toBytes()], { type: 'application/pdf' }),
+  };
+};
@@ -0,0 +1,59 @@
+const WIDTH = 640;
+const HEIGHT = 360;
+const DURATION_MS = 3000;
+
+const drawFrame = (ctx: CanvasRenderingContext2D, label: string, progress: number) => {
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.fillStyle = '#6d28d9';
+  ctx.fillRect(0, HEIGHT - 8, WIDTH * progress, 8);
+  ctx.fillStyle = '#f3f4f6';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('PLACEHOLDER VIDEO', WIDTH / 2, HEIGHT / 2 - 10);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '18px sans-serif';
+  ctx.fillText(label.slice(0, 60), WIDTH / 2, HEIGHT / 2 + 24);
+};
+
+/**
+ * Records a short title-card clip on a canvas and returns it as an object URL.
+ * Used by the mock provider so the video UI can be exercised without a real backend.
+ */
+export const createPlaceholderVideo = (label: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') {
+      reject(new Error("Placeholder video requires a browser with MediaRecorder support."));
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Failed to create a canvas context for the placeholder video."));
+      return;
+    }
+
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => resolve(URL.createObjectURL(new Blob(chunks, { type: 'video/webm' })));
+    recorder.onerror = () => reject(new Error("Failed to record the placeholder video."));
+
+    const start = performance.now();
+    const tick = () => {
+      const progress = Math.min((performance.now() - start) / DURATION_MS, 1);
+      drawFrame(ctx, label, progress);
+      if (progress < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        recorder.stop();
+      }
+    };
+
+    recorder.start();
+    tick();
+  });
+};
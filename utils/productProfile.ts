@@ -0,0 +1,57 @@
+import type { ProductInput, ProductProfile } from '../types';
+
+export const EMPTY_PRODUCT_PROFILE: ProductProfile = {
+  productName: '',
+  category: '',
+  brand: '',
+  colors: [],
+  keyFeatures: [],
+  visibleText: [],
+};
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+
+// Coerces a parsed model response into a profile, dropping anything that isn't text.
+export const normalizeProductProfile = (value: unknown): ProductProfile => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    productName: toText(raw.productName),
+    category: toText(raw.category),
+    brand: toText(raw.brand),
+    colors: toList(raw.colors),
+    keyFeatures: toList(raw.keyFeatures),
+    visibleText: toList(raw.visibleText),
+  };
+};
+
+export const isProductProfileEmpty = (profile: ProductProfile): boolean =>
+  !profile.productName && !profile.category && !profile.brand &&
+  profile.colors.length === 0 && profile.keyFeatures.length === 0 && profile.visibleText.length === 0;
+
+// The profile as prompt lines; empty fields are left out so the model doesn't invent them.
+export const describeProductProfile = (profile: ProductProfile): string => {
+  const lines = [
+    profile.productName && `Product: ${profile.productName}`,
+    profile.brand && `Brand: ${profile.brand}`,
+    profile.category && `Category: ${profile.category}`,
+    profile.colors.length > 0 && `Colors: ${profile.colors.join(', ')}`,
+    profile.keyFeatures.length > 0 && `Key features: ${profile.keyFeatures.join('; ')}`,
+    profile.visibleText.length > 0 && `Text visible on the product or packaging: ${profile.visibleText.map(text => `"${text}"`).join(', ')}`,
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+// The product section shared by every script prompt.
+export const describeProduct = (product: ProductInput): string => {
+  const parts = [`Product Description: ${product.description || 'No description provided. Analyze the images.'}`];
+  if (product.profile && !isProductProfileEmpty(product.profile)) {
+    parts.push(`Product profile (reviewed by the user; treat it as accurate):\n${describeProductProfile(product.profile)}`);
+  }
+  if (product.images.length > 1) {
+    parts.push(`${product.images.length} product photos are attached, showing different angles, packaging or the product in use.`);
+  }
+  return parts.join('\n\n');
+};
@@ -0,0 +1,79 @@
+import { AdServiceError, CancelledError } from './adErrors';
+
+export interface RetryPolicy {
+  // Including the first try.
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  // A retry-after longer than this is not waited out here; the error goes to the user, who can decide.
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+  backoffFactor: 2,
+  maxRetryAfterMs: 30000,
+};
+
+// Only failures that can go away on their own are worth repeating.
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof AdServiceError && (error.code === 'quota' || error.code === 'network' || error.code === 'timeout');
+
+// Resolves after `ms`, or early (with false) if the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<boolean> =>
+  new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Waits what the server asked for if it said, otherwise backs off exponentially with jitter. Null means give up.
+export const getRetryDelay = (error: unknown, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number | null => {
+  const retryAfterSeconds = error instanceof AdServiceError ? error.retryAfterSeconds : null;
+  if (retryAfterSeconds !== null) {
+    const retryAfterMs = retryAfterSeconds * 1000;
+    return retryAfterMs <= policy.maxRetryAfterMs ? retryAfterMs : null;
+  }
+  const backoff = Math.min(policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt), policy.maxDelayMs);
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+export interface RetryParams {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `operation` and repeats it after rate limits, network failures and timeouts, following the
+ * policy. Other errors, and the last failure once the attempts run out, are rethrown as they are.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, { policy, signal, onRetry }: RetryParams = {}): Promise<T> {
+  const settings = { ...DEFAULT_RETRY_POLICY, ...policy };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || attempt + 1 >= settings.maxAttempts) throw error;
+      const delayMs = getRetryDelay(error, attempt, settings);
+      if (delayMs === null) throw error;
+      onRetry?.(error, attempt + 1, delayMs);
+      if (!(await sleep(delayMs, signal))) {
+        throw new CancelledError();
+      }
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import type { AdScript, ReviewComment, ReviewDecision, ScriptReview, ScriptTextField, SharedReview, StoryboardFrame } from '../types';
+import { preprocessImage } from './imagePreprocessing';
+import { getFieldText } from './scriptEditing';
+import { toFileSlug } from './scriptExport';
+import { getStoryboardFrame, toImageDataUrl } from './storyboard';
+
+export const REVIEW_BUNDLE_FORMAT = 'ai-ad-studio-review';
+export const REVIEW_FEEDBACK_FORMAT = 'ai-ad-studio-review-feedback';
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: 'Approved',
+  'changes-requested': 'Changes Requested',
+};
+
+export const REVIEW_FIELD_LABELS: Record<ScriptTextField, string> = {
+  title: 'Title',
+  tagline: 'Tagline',
+  setting: 'Setting',
+  action: 'Action',
+  dialogue: 'Dialogue / Voiceover',
+  sound: 'Sound',
+};
+
+// Larger videos are left out of the page rather than making it unwieldy to send.
+export const MAX_EMBEDDED_VIDEO_BYTES = 25 * 1024 * 1024;
+
+const THUMBNAIL_DIMENSION = 640;
+const THUMBNAIL_BYTES = 200 * 1024;
+
+// Everything a review page shows. It is embedded in the page, so the page works offline.
+export interface ReviewBundle {
+  format: typeof REVIEW_BUNDLE_FORMAT;
+  reviewId: string;
+  projectName: string;
+  versionNumber: number | null;
+  script: AdScript;
+  // Data URLs of the hero shot and of each scene's storyboard frame (null where none was drawn).
+  productImage: string | null;
+  storyboard: (string | null)[];
+  // The video itself when it was made in the browser, otherwise a link to where it is served.
+  videoUrl: string | null;
+  // Reviewers' feedback files are named after it.
+  fileSlug: string;
+  createdAt: number;
+}
+
+export interface ReviewShareInput {
+  reviewId: string;
+  projectName: string;
+  versionNumber: number | null;
+  script: AdScript;
+  productImage: File | null;
+  storyboard: StoryboardFrame[];
+  videoUrl: string | null;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read the file."));
+    reader.readAsDataURL(blob);
+  });
+
+// Blob URLs only exist in this tab; links to the local API server are made absolute.
+const toSharedVideoUrl = async (url: string | null): Promise<string | null> => {
+  if (!url) return null;
+  if (!url.startsWith('blob:')) return new URL(url, window.location.href).href;
+  const blob = await (await fetch(url)).blob();
+  return blob.size <= MAX_EMBEDDED_VIDEO_BYTES ? blobToDataUrl(blob) : null;
+};
+
+export const createReviewBundle = async (input: ReviewShareInput): Promise<ReviewBundle> => {
+  const thumbnail = input.productImage
+    ? await preprocessImage(input.productImage, { maxDimension: THUMBNAIL_DIMENSION, maxBytes: THUMBNAIL_BYTES })
+    : null;
+  return {
+    format: REVIEW_BUNDLE_FORMAT,
+    reviewId: input.reviewId,
+    projectName: input.projectName,
+    versionNumber: input.versionNumber,
+    script: input.script,
+    productImage: thumbnail ? await blobToDataUrl(thumbnail) : null,
+    storyboard: input.script.scenes.map(scene => {
+      const frame = getStoryboardFrame(input.storyboard, scene);
+      return frame ? toImageDataUrl(frame) : null;
+    }),
+    videoUrl: await toSharedVideoUrl(input.videoUrl),
+    fileSlug: toFileSlug(input.script.title),
+    createdAt: Date.now(),
+  };
+};
+
+const FIELDS = Object.keys(REVIEW_FIELD_LABELS) as ScriptTextField[];
+const DECISIONS = Object.keys(REVIEW_DECISION_LABELS) as ReviewDecision[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isField = (value: unknown): value is ScriptTextField => FIELDS.some(field => field === value);
+
+const isDecision = (value: unknown): value is ReviewDecision => DECISIONS.some(decision => decision === value);
+
+const toComment = (value: unknown): ReviewComment | null => {
+  if (!isRecord(value) || typeof value.text !== 'string' || !value.text.trim()) return null;
+  const { field, sceneIndex: rawSceneIndex } = value;
+  if (!isField(field)) return null;
+  const isScriptField = field === 'title' || field === 'tagline';
+  let sceneIndex: number | null = null;
+  if (!isScriptField) {
+    if (typeof rawSceneIndex !== 'number' || !Number.isInteger(rawSceneIndex) || rawSceneIndex < 0) return null;
+    sceneIndex = rawSceneIndex;
+  }
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : `${field}-${sceneIndex}-${value.createdAt}`,
+    sceneIndex,
+    field,
+    quotedText: typeof value.quotedText === 'string' ? value.quotedText : '',
+    text: value.text.trim(),
+    createdAt: Number(value.createdAt) || 0,
+    resolved: false,
+  };
+};
+
+/**
+ * Reads a feedback file downloaded from a review page. Only feedback on pages shared from this
+ * project is accepted: comments are placed by scene index, so feedback on another script would
+ * land on the wrong scenes.
+ */
+export const parseReviewFeedback = (text: string, sharedReviews: SharedReview[]): ScriptReview => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The feedback file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== REVIEW_FEEDBACK_FORMAT || typeof data.reviewId !== 'string') {
+    throw new Error("This is not a feedback file from a review page.");
+  }
+  const shared = sharedReviews.find(review => review.reviewId === data.reviewId);
+  if (!shared) {
+    throw new Error("This feedback is for a review page that was not shared from this project.");
+  }
+  const comments = Array.isArray(data.comments)
+    ? data.comments.map(toComment).filter((comment): comment is ReviewComment => comment !== null)
+    : [];
+  const decision = isDecision(data.decision) ? data.decision : null;
+  if (!decision && comments.length === 0) {
+    throw new Error("The feedback file has no comments and no decision.");
+  }
+  const { reviewer } = data;
+  return {
+    reviewId: data.reviewId,
+    reviewer: typeof reviewer === 'string' && reviewer.trim() ? reviewer.trim() : 'Anonymous reviewer',
+    decision,
+    versionNumber: shared.versionNumber,
+    comments,
+    submittedAt: Number(data.submittedAt) || Date.now(),
+  };
+};
+
+const isSameReview = (a: ScriptReview, b: ScriptReview) =>
+  a.reviewId === b.reviewId && a.reviewer.toLowerCase() === b.reviewer.toLowerCase();
+
+// Newer feedback from the same reviewer on the same page replaces the older; comments already resolved stay resolved.
+export const mergeReview = (reviews: ScriptReview[], review: ScriptReview): ScriptReview[] => {
+  const existing = reviews.find(other => isSameReview(other, review));
+  if (!existing) return [...reviews, review];
+  if (existing.submittedAt > review.submittedAt) return reviews;
+  const resolvedIds = new Set(existing.comments.filter(comment => comment.resolved).map(comment => comment.id));
+  const merged = { ...review, comments: review.comments.map(comment => ({ ...comment, resolved: resolvedIds.has(comment.id) })) };
+  return reviews.map(other => (other === existing ? merged : other));
+};
+
+export const removeReview = (reviews: ScriptReview[], review: ScriptReview): ScriptReview[] =>
+  reviews.filter(other => !isSameReview(other, review));
+
+export const setCommentResolved = (reviews: ScriptReview[], commentId: string, resolved: boolean): ScriptReview[] =>
+  reviews.map(review => review.comments.some(comment => comment.id === commentId)
+    ? { ...review, comments: review.comments.map(comment => (comment.id === commentId ? { ...comment, resolved } : comment)) }
+    : review);
+
+// The most recent feedback of each reviewer, newest first.
+const getLatestReviews = (reviews: ScriptReview[]): ScriptReview[] => {
+  const latest = new Map<string, ScriptReview>();
+  reviews.forEach(review => {
+    const key = review.reviewer.toLowerCase();
+    const current = latest.get(key);
+    if (!current || review.submittedAt > current.submittedAt) latest.set(key, review);
+  });
+  return [...latest.values()].sort((a, b) => b.submittedAt - a.submittedAt);
+};
+
+/**
+ * The verdict on one version: Changes Requested while any reviewer's latest feedback on it asks for
+ * changes; Approved once someone approved and nobody objects.
+ */
+export const getOverallDecision = (reviews: ScriptReview[], versionNumber: number | null): ReviewDecision | null => {
+  const decisions = getLatestReviews(reviews.filter(review => review.versionNumber === versionNumber)).map(review => review.decision);
+  if (decisions.includes('changes-requested')) return 'changes-requested';
+  return decisions.includes('approved') ? 'approved' : null;
+};
+
+// A comment as it applies to the script on screen.
+export interface PlacedReviewComment {
+  comment: ReviewComment;
+  reviewer: string;
+  // Scene it now belongs to; null for the title and tagline, and when its scene was deleted.
+  sceneIndex: number | null;
+  // The field has been edited since the reviewer saw it.
+  isOutdated: boolean;
+}
+
+/**
+ * Finds where each comment belongs in the current script. A comment follows its scene when scenes
+ * are reordered, as long as the commented field is unchanged; otherwise it stays at its original
+ * position and is marked outdated.
+ */
+export const placeReviewComments = (reviews: ScriptReview[], script: AdScript): PlacedReviewComment[] =>
+  reviews.flatMap(review => review.comments.map(comment => {
+    const place = (sceneIndex: number | null, isOutdated: boolean) => ({ comment, reviewer: review.reviewer, sceneIndex, isOutdated });
+    if (getFieldText(script, comment) === comment.quotedText) return place(comment.sceneIndex, false);
+    if (comment.sceneIndex === null) return place(null, true);
+    const moved = comment.quotedText ? script.scenes.findIndex((_, index) => getFieldText(script, { ...comment, sceneIndex: index }) === comment.quotedText) : -1;
+    if (moved !== -1) return place(moved, false);
+    return place(comment.sceneIndex < script.scenes.length ? comment.sceneIndex : null, true);
+  }));
+
+export const describeCommentLocation = ({ comment, sceneIndex }: PlacedReviewComment): string => {
+  const field = REVIEW_FIELD_LABELS[comment.field];
+  if (comment.sceneIndex === null) return field;
+  return sceneIndex === null
+    ? `Scene ${comment.sceneIndex + 1} ${field.toLowerCase()} (scene deleted)`
+    : `Scene ${sceneIndex + 1} ${field.toLowerCase()}`;
+};
@@ -0,0 +1,312 @@
+import type { AdScript } from '../types';
+import { REVIEW_FEEDBACK_FORMAT, type ReviewBundle, type ReviewShareInput, createReviewBundle } from './review';
+import { toFileSlug } from './scriptExport';
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// "<" is escaped so script text such as "</script>" cannot end the data block early.
+const toEmbeddedJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const REVIEW_PAGE_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #111827; color: #f3f4f6; font: 15px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 56rem; margin: 0 auto; padding: 2rem 1rem 9rem; }
+  h1 { margin: 0; font-size: 1.9rem; color: #a78bfa; }
+  h2 { margin: 0 0 .75rem; font-size: 1.1rem; color: #8b5cf6; }
+  button, input, textarea { font: inherit; color: inherit; }
+  button { cursor: pointer; border: 1px solid #374151; background: #374151; border-radius: .5rem; padding: .35rem .8rem; }
+  button:hover { background: #4b5563; }
+  button.primary { background: #6d28d9; border-color: #6d28d9; font-weight: 600; }
+  button.primary:hover { background: #8b5cf6; }
+  button.link { background: none; border: none; padding: 0; color: #9ca3af; font-size: .85rem; }
+  button.link:hover { color: #f3f4f6; }
+  input[type=text], textarea { width: 100%; background: #111827; border: 1px solid #374151; border-radius: .5rem; padding: .5rem; }
+  .muted { color: #9ca3af; font-size: .9rem; }
+  .media { display: grid; grid-template-columns: repeat(auto-fit, minmax(16rem, 1fr)); gap: 1rem; margin: 1.5rem 0; }
+  .media img, .media video { width: 100%; max-height: 20rem; object-fit: contain; border-radius: .5rem; background: #000; }
+  .card { background: #1f2937; border: 1px solid #374151; border-radius: .75rem; padding: 1rem 1.25rem; margin: 1rem 0; }
+  .scene-header { display: flex; align-items: baseline; gap: .75rem; }
+  .scene-body { display: grid; grid-template-columns: 1fr; gap: 1rem; }
+  .scene-body.with-frame { grid-template-columns: 12rem 1fr; }
+  .scene-body img { width: 100%; border-radius: .5rem; }
+  .field { border-top: 1px solid #374151; padding: .6rem 0; }
+  .field:first-child { border-top: none; }
+  .field-header { display: flex; justify-content: space-between; gap: 1rem; }
+  .field-label { font-weight: 600; color: #9ca3af; font-size: .85rem; }
+  .field-text { white-space: pre-wrap; margin: .15rem 0 0; }
+  .comment { display: flex; justify-content: space-between; gap: 1rem; margin-top: .4rem; padding: .4rem .6rem; border-left: 3px solid #8b5cf6; background: #111827; border-radius: .25rem; white-space: pre-wrap; }
+  .comment-form { margin-top: .5rem; display: grid; gap: .4rem; }
+  .comment-form div { display: flex; gap: .5rem; }
+  footer { position: fixed; left: 0; right: 0; bottom: 0; background: #1f2937; border-top: 1px solid #374151; padding: .75rem 1rem; }
+  footer .bar { max-width: 56rem; margin: 0 auto; display: flex; flex-wrap: wrap; align-items: center; gap: .75rem 1.25rem; }
+  footer label { display: flex; align-items: center; gap: .35rem; }
+  footer input[type=text] { width: 14rem; }
+  .status { width: 100%; margin: 0; }
+  .error { color: #f87171; }
+`;
+
+// Plain browser JavaScript: the page has no build step and must keep working offline.
+const REVIEW_PAGE_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('review-data').textContent);
+  var script = data.script;
+  var FIELD_LABELS = { title: 'Title', tagline: 'Tagline', setting: 'Setting', action: 'Action', dialogue: 'Dialogue / Voiceover', sound: 'Sound' };
+  var storageKey = 'ad-studio-review:' + data.reviewId;
+  var state = { reviewer: '', decision: null, comments: [] };
+  var openForm = null;
+  try {
+    var saved = JSON.parse(localStorage.getItem(storageKey) || 'null');
+    if (saved && Array.isArray(saved.comments)) state = saved;
+  } catch (e) {}
+
+  function save() {
+    try { localStorage.setItem(storageKey, JSON.stringify(state)); } catch (e) {}
+  }
+
+  function el(tag, className, children) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    (children || []).forEach(function (child) { node.append(child); });
+    return node;
+  }
+
+  function button(label, className, onClick) {
+    var node = el('button', className, [label]);
+    node.type = 'button';
+    node.addEventListener('click', onClick);
+    return node;
+  }
+
+  function timecode(seconds) {
+    var tenths = Math.round(seconds * 10);
+    var whole = Math.floor((tenths % 600) / 10);
+    var fraction = tenths % 10;
+    return Math.floor(tenths / 600) + ':' + (whole < 10 ? '0' : '') + whole + (fraction > 0 ? '.' + fraction : '');
+  }
+
+  function fieldText(sceneIndex, field) {
+    return sceneIndex === null ? script[field] : script.scenes[sceneIndex][field];
+  }
+
+  function isSameField(comment, sceneIndex, field) {
+    return comment.sceneIndex === sceneIndex && comment.field === field;
+  }
+
+  function renderCommentForm(sceneIndex, field) {
+    var input = el('textarea');
+    input.rows = 3;
+    input.placeholder = 'What should change, or what works?';
+    var form = el('div', 'comment-form', [input, el('div', null, [
+      button('Add Comment', 'primary', function () {
+        var text = input.value.trim();
+        if (!text) return;
+        state.comments.push({
+          id: Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8),
+          sceneIndex: sceneIndex,
+          field: field,
+          quotedText: fieldText(sceneIndex, field),
+          text: text,
+          createdAt: Date.now()
+        });
+        openForm = null;
+        save();
+        render();
+      }),
+      button('Cancel', null, function () { openForm = null; render(); })
+    ])]);
+    setTimeout(function () { input.focus(); });
+    return form;
+  }
+
+  function renderField(sceneIndex, field) {
+    var formKey = sceneIndex + ':' + field;
+    var header = el('div', 'field-header', [
+      el('span', 'field-label', [FIELD_LABELS[field]]),
+      button('Comment', 'link', function () { openForm = formKey; render(); })
+    ]);
+    var node = el('div', 'field', [header, el('p', 'field-text', [fieldText(sceneIndex, field)])]);
+    state.comments.filter(function (comment) { return isSameField(comment, sceneIndex, field); }).forEach(function (comment) {
+      node.append(el('div', 'comment', [
+        el('span', null, [comment.text]),
+        button('Delete', 'link', function () {
+          state.comments = state.comments.filter(function (other) { return other !== comment; });
+          save();
+          render();
+        })
+      ]));
+    });
+    if (openForm === formKey) node.append(renderCommentForm(sceneIndex, field));
+    return node;
+  }
+
+  function renderScene(scene, index) {
+    var frame = data.storyboard[index];
+    var fields = el('div', null, ['setting', 'action', 'dialogue', 'sound'].map(function (field) { return renderField(index, field); }));
+    var body = el('div', frame ? 'scene-body with-frame' : 'scene-body', []);
+    if (frame) {
+      var image = el('img');
+      image.src = frame;
+      image.alt = 'Storyboard frame for scene ' + scene.sceneNumber;
+      body.append(image);
+    }
+    body.append(fields);
+    return el('section', 'card', [
+      el('div', 'scene-header', [
+        el('h2', null, ['Scene ' + scene.sceneNumber]),
+        el('span', 'muted', [timecode(scene.startTime) + ' - ' + timecode(scene.startTime + scene.duration) + ' (' + scene.duration + 's)'])
+      ]),
+      body
+    ]);
+  }
+
+  function render() {
+    var root = document.getElementById('script');
+    root.replaceChildren(
+      el('section', 'card', [renderField(null, 'title'), renderField(null, 'tagline')])
+    );
+    script.scenes.forEach(function (scene, index) { root.append(renderScene(scene, index)); });
+    document.getElementById('comment-count').textContent =
+      state.comments.length + ' comment' + (state.comments.length === 1 ? '' : 's');
+  }
+
+  function renderMedia() {
+    var media = document.getElementById('media');
+    if (data.productImage) {
+      var image = el('img');
+      image.src = data.productImage;
+      image.alt = 'Product';
+      media.append(image);
+    }
+    if (data.videoUrl) {
+      var video = el('video');
+      video.src = data.videoUrl;
+      video.controls = true;
+      media.append(el('div', null, [video].concat(data.videoUrl.indexOf('data:') === 0 ? [] : [
+        el('p', 'muted', ['The video streams from the studio that shared this page and may only play on its network.'])
+      ])));
+    } else {
+      media.append(el('p', 'muted', ['No video is attached to this version.']));
+    }
+  }
+
+  function toFeedback() {
+    return {
+      format: ${JSON.stringify(REVIEW_FEEDBACK_FORMAT)},
+      reviewId: data.reviewId,
+      reviewer: state.reviewer.trim(),
+      decision: state.decision,
+      versionNumber: data.versionNumber,
+      comments: state.comments,
+      submittedAt: Date.now()
+    };
+  }
+
+  function setStatus(message, isError) {
+    var status = document.getElementById('status');
+    status.textContent = message;
+    status.className = 'status ' + (isError ? 'error' : 'muted');
+  }
+
+  function checkReady() {
+    if (!state.reviewer.trim()) {
+      setStatus('Add your name so the owner knows who the feedback is from.', true);
+      document.getElementById('reviewer').focus();
+      return false;
+    }
+    if (!state.decision && state.comments.length === 0) {
+      setStatus('Leave a comment or choose Approved or Changes Requested first.', true);
+      return false;
+    }
+    return true;
+  }
+
+  function downloadFeedback() {
+    if (!checkReady()) return;
+    var blob = new Blob([JSON.stringify(toFeedback(), null, 2)], { type: 'application/json' });
+    var link = el('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = data.fileSlug + '-feedback-' + (state.reviewer.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'reviewer') + '.json';
+    document.body.append(link);
+    link.click();
+    link.remove();
+    setTimeout(function () { URL.revokeObjectURL(link.href); }, 1000);
+    setStatus('Send the downloaded file back to whoever shared this page; they import it with Import Feedback.', false);
+  }
+
+  function copyFeedback() {
+    if (!checkReady()) return;
+    navigator.clipboard.writeText(JSON.stringify(toFeedback(), null, 2)).then(
+      function () { setStatus('Feedback copied. Paste it into a message or a .json file for whoever shared this page.', false); },
+      function () { setStatus('Copying was blocked by the browser; use Download Feedback instead.', true); }
+    );
+  }
+
+  var reviewer = document.getElementById('reviewer');
+  reviewer.value = state.reviewer;
+  reviewer.addEventListener('input', function () { state.reviewer = reviewer.value; save(); });
+  document.querySelectorAll('input[name=decision]').forEach(function (radio) {
+    radio.checked = radio.value === (state.decision || '');
+    radio.addEventListener('change', function () { state.decision = radio.value || null; save(); });
+  });
+  document.getElementById('download').addEventListener('click', downloadFeedback);
+  document.getElementById('copy').addEventListener('click', copyFeedback);
+  renderMedia();
+  render();
+})();
+`;
+
+/**
+ * A self-contained review page: styles, script and data all live in the one file, so it can be
+ * emailed or dropped in a shared folder and opened without the studio. Comments are kept in the
+ * reviewer's browser until they download their feedback.
+ */
+export const toReviewPageHtml = (bundle: ReviewBundle): string => {
+  const { script } = bundle;
+  const shared = new Date(bundle.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  const version = bundle.versionNumber ? `version ${bundle.versionNumber}` : 'script';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Review: ${escapeHtml(script.title)}</title>
+<style>${REVIEW_PAGE_STYLES}</style>
+</head>
+<body>
+<main>
+  <p class="muted">${escapeHtml(bundle.projectName)} &middot; ${escapeHtml(version)} shared for review on ${escapeHtml(shared)}</p>
+  <h1>${escapeHtml(script.title)}</h1>
+  <p class="muted">Comment on any line below, then choose a decision and send your feedback back.</p>
+  <div id="media" class="media"></div>
+  <div id="script"></div>
+</main>
+<footer>
+  <div class="bar">
+    <label>Your name <input id="reviewer" type="text" autocomplete="name"></label>
+    <label><input type="radio" name="decision" value=""> No decision</label>
+    <label><input type="radio" name="decision" value="approved"> Approved</label>
+    <label><input type="radio" name="decision" value="changes-requested"> Changes Requested</label>
+    <span id="comment-count" class="muted"></span>
+    <button id="download" type="button" class="primary">Download Feedback</button>
+    <button id="copy" type="button">Copy</button>
+    <p id="status" class="status muted"></p>
+  </div>
+</footer>
+<script type="application/json" id="review-data">${toEmbeddedJson(bundle)}</script>
+<script>${REVIEW_PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the review page for a version of the script. The bundle is returned too, so the caller
+ * can tell what made it in (e.g. a video too large to embed).
+ */
+export const createReviewPage = async (input: ReviewShareInput): Promise<{ page: Blob; bundle: ReviewBundle }> => {
+  const bundle = await createReviewBundle(input);
+  return { page: new Blob([toReviewPageHtml(bundle)], { type: 'text/html' }), bundle };
+};
+
+export const getReviewPageFilename = (script: AdScript): string => `${toFileSlug(script.title)}-review.html`;
@@ -0,0 +1,54 @@
+import type { AdScript, Scene } from '../types';
+import type { ValidationIssue } from './adScriptValidator';
+
+// A script may be this many seconds short of or over its target before it is flagged.
+export const TIMING_TOLERANCE_SECONDS = 1;
+
+export interface TimingReport {
+  totalDuration: number;
+  targetDuration: number;
+  // Positive when the script runs long, negative when it runs short.
+  difference: number;
+  fits: boolean;
+  issues: ValidationIssue[];
+}
+
+export const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+export const getTotalDuration = (scenes: Scene[]): number =>
+  roundTime(scenes.reduce((total, scene) => total + scene.duration, 0));
+
+/**
+ * Renumbers scenes sequentially and recomputes each start time from the preceding durations.
+ */
+export const retimeScenes = (scenes: Scene[]): Scene[] => {
+  let startTime = 0;
+  return scenes.map((scene, index) => {
+    const retimed = { ...scene, sceneNumber: index + 1, startTime };
+    startTime = roundTime(startTime + scene.duration);
+    return retimed;
+  });
+};
+
+export const checkSceneTiming = (script: AdScript, targetDuration: number): TimingReport => {
+  const totalDuration = getTotalDuration(script.scenes);
+  const difference = roundTime(totalDuration - targetDuration);
+  const issues: ValidationIssue[] = [];
+
+  if (difference > TIMING_TOLERANCE_SECONDS) {
+    issues.push({ path: 'scenes', message: `scene durations add up to ${totalDuration}s, ${difference}s over the ${targetDuration}s target` });
+  } else if (difference < -TIMING_TOLERANCE_SECONDS) {
+    issues.push({ path: 'scenes', message: `scene durations add up to ${totalDuration}s, ${-difference}s short of the ${targetDuration}s target` });
+  }
+
+  return { totalDuration, targetDuration, difference, fits: issues.length === 0, issues };
+};
+
+// Formats seconds as m:ss, keeping one decimal for fractional values (e.g. 0:07.5).
+export const formatTimecode = (seconds: number): string => {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const wholeSeconds = Math.floor((tenths % 600) / 10);
+  const fraction = tenths % 10;
+  return `${minutes}:${wholeSeconds.toString().padStart(2, '0')}${fraction > 0 ? `.${fraction}` : ''}`;
+};
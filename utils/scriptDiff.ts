@@ -0,0 +1,133 @@
+import type { AdScript, Scene } from '../types';
+import { retimeScenes } from './sceneTiming';
+
+export type SceneDiffField = 'setting' | 'action' | 'dialogue' | 'sound' | 'duration';
+
+const SCENE_FIELDS: SceneDiffField[] = ['setting', 'action', 'dialogue', 'sound', 'duration'];
+
+export type ScriptChange =
+  | { id: string; kind: 'title' | 'tagline'; before: string; after: string }
+  | { id: string; kind: 'edit'; originalIndex: number; revisedIndex: number; field: SceneDiffField; before: string; after: string }
+  | { id: string; kind: 'add'; revisedIndex: number; scene: Scene; insertBefore: number }
+  | { id: string; kind: 'remove'; originalIndex: number; scene: Scene };
+
+// Scenes are paired up when they still share a setting, action or line, so an inserted or removed
+// scene shows as one change rather than as every later scene being rewritten.
+const isSameScene = (a: Scene, b: Scene): boolean =>
+  a.setting === b.setting || a.action === b.action || (a.dialogue === b.dialogue && a.dialogue !== 'None');
+
+// Longest common subsequence of scenes under isSameScene, as index pairs in order.
+const alignScenes = (original: Scene[], revised: Scene[]): [number, number][] => {
+  const lengths = Array.from({ length: original.length + 1 }, () => new Array<number>(revised.length + 1).fill(0));
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = revised.length - 1; j >= 0; j--) {
+      lengths[i][j] = isSameScene(original[i], revised[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < original.length && j < revised.length) {
+    if (isSameScene(original[i], revised[j]) && lengths[i][j] === lengths[i + 1][j + 1] + 1) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+const formatField = (scene: Scene, field: SceneDiffField): string =>
+  field === 'duration' ? `${scene.duration}s` : scene[field];
+
+/**
+ * Lists what a revision changed: the title and tagline, each field of a scene that was kept, and
+ * scenes that were added or removed. Each change can be accepted on its own with applyScriptChanges.
+ */
+export const diffScripts = (original: AdScript, revised: AdScript): ScriptChange[] => {
+  const changes: ScriptChange[] = [];
+  if (original.title !== revised.title) {
+    changes.push({ id: 'title', kind: 'title', before: original.title, after: revised.title });
+  }
+  if (original.tagline !== revised.tagline) {
+    changes.push({ id: 'tagline', kind: 'tagline', before: original.tagline, after: revised.tagline });
+  }
+
+  const pairs = alignScenes(original.scenes, revised.scenes);
+  const matchedOriginal = new Map(pairs);
+  const matchedRevised = new Set(pairs.map(([, j]) => j));
+
+  original.scenes.forEach((scene, i) => {
+    const j = matchedOriginal.get(i);
+    if (j === undefined) {
+      changes.push({ id: `remove:${i}`, kind: 'remove', originalIndex: i, scene });
+      return;
+    }
+    SCENE_FIELDS.forEach(field => {
+      if (scene[field] !== revised.scenes[j][field]) {
+        changes.push({ id: `edit:${i}:${field}`, kind: 'edit', originalIndex: i, revisedIndex: j, field, before: formatField(scene, field), after: formatField(revised.scenes[j], field) });
+      }
+    });
+  });
+
+  revised.scenes.forEach((scene, j) => {
+    if (matchedRevised.has(j)) return;
+    // Goes before the first kept scene that follows it in the revision.
+    const next = pairs.find(([, revisedIndex]) => revisedIndex > j);
+    changes.push({ id: `add:${j}`, kind: 'add', revisedIndex: j, scene, insertBefore: next ? next[0] : original.scenes.length });
+  });
+
+  return changes;
+};
+
+// A short heading for a change, e.g. "Scene 2 dialogue" or "Remove scene 4"; scene numbers are 1-based.
+export const describeChange = (change: ScriptChange): string => {
+  switch (change.kind) {
+    case 'title': return 'Title';
+    case 'tagline': return 'Tagline';
+    case 'edit': return `Scene ${change.originalIndex + 1} ${change.field}`;
+    case 'add': return `New scene ${change.revisedIndex + 1}`;
+    case 'remove': return `Remove scene ${change.originalIndex + 1}`;
+  }
+};
+
+/**
+ * Builds the script that results from accepting only some changes of a revision: rejected changes
+ * keep the original's version. Scenes are renumbered and retimed afterwards.
+ */
+export const applyScriptChanges = (original: AdScript, revised: AdScript, changes: ScriptChange[], acceptedIds: Set<string>): AdScript => {
+  const accepted = changes.filter(change => acceptedIds.has(change.id));
+  const script = { ...original };
+  const edited = original.scenes.map(scene => ({ ...scene }));
+  const removed = new Set<number>();
+
+  accepted.forEach(change => {
+    if (change.kind === 'title') script.title = revised.title;
+    else if (change.kind === 'tagline') script.tagline = revised.tagline;
+    else if (change.kind === 'remove') removed.add(change.originalIndex);
+    else if (change.kind === 'edit') {
+      const source = revised.scenes[change.revisedIndex];
+      const target = edited[change.originalIndex];
+      if (change.field === 'duration') target.duration = source.duration;
+      else target[change.field] = source[change.field];
+    }
+  });
+
+  const additions = accepted.filter((change): change is Extract<ScriptChange, { kind: 'add' }> => change.kind === 'add');
+  const insertAt = (index: number) => additions.filter(change => change.insertBefore === index).map(change => ({ ...change.scene }));
+
+  const scenes: Scene[] = [];
+  edited.forEach((scene, i) => {
+    scenes.push(...insertAt(i));
+    if (!removed.has(i)) scenes.push(scene);
+  });
+  scenes.push(...insertAt(original.scenes.length));
+
+  return { ...script, scenes: retimeScenes(scenes) };
+};
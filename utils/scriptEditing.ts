@@ -0,0 +1,52 @@
+import type { AdScript, Scene, ScriptTextField } from '../types';
+import { retimeScenes } from './sceneTiming';
+
+/**
+ * Identifies what a scene shows (its setting and action) independently of its position, so
+ * media rendered for a scene follows it when scenes are reordered and drops off when it is rewritten.
+ */
+export const getSceneContentKey = (scene: Scene): string => `${scene.setting.trim()}\n${scene.action.trim()}`;
+
+// The text of a title, tagline or scene field; empty when the scene no longer exists.
+export const getFieldText = (script: AdScript, { sceneIndex, field }: { sceneIndex: number | null; field: ScriptTextField }): string => {
+  if (sceneIndex === null) {
+    return field === 'title' ? script.title : script.tagline;
+  }
+  const scene = script.scenes[sceneIndex];
+  if (!scene || field === 'title' || field === 'tagline') return '';
+  return scene[field];
+};
+
+// Every edit goes through retimeScenes so scene numbers and start times always follow the scene order.
+const withScenes = (script: AdScript, scenes: Scene[]): AdScript => ({ ...script, scenes: retimeScenes(scenes) });
+
+export const updateScene = (script: AdScript, index: number, scene: Scene): AdScript =>
+  withScenes(script, script.scenes.map((existing, i) => (i === index ? scene : existing)));
+
+export const moveScene = (script: AdScript, from: number, to: number): AdScript => {
+  if (to < 0 || to >= script.scenes.length || from === to) return script;
+  const scenes = [...script.scenes];
+  const [moved] = scenes.splice(from, 1);
+  scenes.splice(to, 0, moved);
+  return withScenes(script, scenes);
+};
+
+export const deleteScene = (script: AdScript, index: number): AdScript =>
+  withScenes(script, script.scenes.filter((_, i) => i !== index));
+
+export const createBlankScene = (duration = 5): Scene => ({
+  sceneNumber: 0,
+  startTime: 0,
+  duration,
+  setting: 'New setting',
+  action: 'Describe what happens in this scene.',
+  dialogue: 'None',
+  sound: 'None',
+});
+
+// Inserts a scene at `index`, or appends it when no index is given.
+export const insertScene = (script: AdScript, scene: Scene, index = script.scenes.length): AdScript => {
+  const scenes = [...script.scenes];
+  scenes.splice(index, 0, scene);
+  return withScenes(script, scenes);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { AdScript } from '../types';
+import { exportScript, getPdfUnavailableReason, toFountain, toJson } from './scriptExport';
+import { importScript } from './scriptImport';
+
+const script: AdScript = {
+  title: 'Morning Boost',
+  tagline: 'Wake up brighter.',
+  scenes: [
+    {
+      sceneNumber: 1,
+      startTime: 0,
+      duration: 5,
+      setting: 'INT. KITCHEN - DAY',
+      action: 'Maya pours a fresh cup of coffee.',
+      dialogue: 'MAYA: Finally, a coffee that keeps up.',
+      sound: 'Pop [[ding]] and a kettle whistle',
+    },
+    {
+      sceneNumber: 2,
+      startTime: 5,
+      duration: 7.5,
+      setting: 'EXT. PARK - MORNING',
+      action: 'She jogs past the lake, cup in hand.',
+      dialogue: 'VO: Morning Boost. Wake up brighter.',
+      sound: 'Upbeat acoustic music',
+    },
+  ],
+};
+
+describe('script export round trip', () => {
+  it('imports a Fountain export back to the same script', () => {
+    const result = importScript(toFountain(script), 'morning-boost.fountain');
+    expect(result.format).toBe('fountain');
+    expect(result.script).toEqual(script);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('imports a JSON export back to the same script', () => {
+    const result = importScript(toJson(script), 'morning-boost.json');
+    expect(result.format).toBe('json');
+    expect(result.script).toEqual(script);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('PDF export', () => {
+  it('writes scripts in Western European languages', async () => {
+    const french = { ...script, tagline: 'Le café qui réveille le cœur… « Œuvre » d’art.' };
+    expect(getPdfUnavailableReason(french)).toBeNull();
+    const bytes = new Uint8Array(await exportScript(french, 'pdf').arrayBuffer());
+    expect(new TextDecoder('latin1').decode(bytes.slice(0, 8))).toBe('%PDF-1.4');
+  });
+
+  it('refuses scripts with text the PDF fonts cannot show', () => {
+    const japanese = { ...script, tagline: '朝を明るく。' };
+    expect(getPdfUnavailableReason(japanese)).toMatch(/only supports Latin-script text and can't show 朝 を 明 る く/);
+    expect(() => exportScript(japanese, 'pdf')).toThrow(/only supports Latin-script text/);
+  });
+});
@@ -0,0 +1,239 @@
+import type { AdScript, Scene } from '../types';
+import { formatCsv } from './csv';
+import { createPdfDocument, describeUnsupportedCharacters, findUnsupportedCharacters, wrapText } from './pdfWriter';
+import { formatTimecode, getTotalDuration } from './sceneTiming';
+
+export type ExportFormat = 'fountain' | 'fdx' | 'pdf' | 'csv' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'pdf', label: 'AV Script (PDF)', extension: 'pdf', mimeType: 'application/pdf' },
+  { format: 'fountain', label: 'Fountain', extension: 'fountain', mimeType: 'text/plain' },
+  { format: 'fdx', label: 'Final Draft (FDX)', extension: 'fdx', mimeType: 'application/xml' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+// Character name used for "VO:" lines in screenplay formats.
+export const VOICEOVER_CHARACTER = 'NARRATOR (V.O.)';
+
+export interface DialogueLine {
+  character: string;
+  text: string;
+}
+
+const SPEAKER_PATTERN = /^([A-Za-z][\w .'-]{0,30}):\s*(.+)$/;
+
+/**
+ * Splits a scene's dialogue into speaker/line pairs. "VO:" lines and unattributed text are
+ * spoken by the narrator; "None" yields no lines.
+ */
+export const splitDialogue = (dialogue: string): DialogueLine[] => {
+  if (!dialogue.trim() || dialogue.trim().toLowerCase() === 'none') return [];
+  const lines: DialogueLine[] = [];
+  dialogue.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const match = line.match(SPEAKER_PATTERN);
+    if (match) {
+      const speaker = match[1].trim().toUpperCase();
+      lines.push({ character: speaker === 'VO' || speaker === 'V.O.' ? VOICEOVER_CHARACTER : speaker, text: match[2].trim() });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].text += ` ${line}`;
+    } else {
+      lines.push({ character: VOICEOVER_CHARACTER, text: line });
+    }
+  });
+  return lines;
+};
+
+const sceneTimeRange = (scene: Scene) =>
+  `${formatTimecode(scene.startTime)} - ${formatTimecode(scene.startTime + scene.duration)}`;
+
+export const toPlainText = (script: AdScript): string => {
+  let text = `Title: ${script.title}\n`;
+  text += `Tagline: ${script.tagline}\n\n`;
+  text += "--- SCRIPT ---\n\n";
+
+  script.scenes.forEach(scene => {
+    text += `SCENE ${scene.sceneNumber} (${sceneTimeRange(scene)})\n`;
+    text += `SETTING: ${scene.setting}\n`;
+    text += `ACTION: ${scene.action}\n`;
+    text += `DIALOGUE: ${scene.dialogue}\n`;
+    text += `SOUND: ${scene.sound}\n\n`;
+  });
+
+  return text;
+};
+
+export const toJson = (script: AdScript): string => JSON.stringify(script, null, 2);
+
+// Backslash-escapes brackets so a value such as "Pop [[ding]]" can't end its [[note]] early.
+const escapeFountainNote = (value: string): string => value.replace(/[\\[\]]/g, '\\$&');
+
+/**
+ * Fountain screenplay markup. Scene headings are forced with a leading "." and numbered with
+ * #n#; timing and sound live in [[notes]] so the script can be imported again without loss.
+ */
+export const toFountain = (script: AdScript): string => {
+  const blocks: string[] = [
+    `Title: ${script.title}\nTagline: ${script.tagline}\nDuration: ${getTotalDuration(script.scenes)}s`,
+  ];
+
+  script.scenes.forEach(scene => {
+    blocks.push(`.${scene.setting.replace(/\s*\n\s*/g, ' ')} #${scene.sceneNumber}#`);
+    blocks.push(`[[Time: ${sceneTimeRange(scene)}]]\n[[Duration: ${scene.duration}s]]`);
+    blocks.push(scene.action);
+    splitDialogue(scene.dialogue).forEach(line => {
+      // The "@" forces a character cue even when the name isn't all caps.
+      blocks.push(`@${line.character}\n${line.text}`);
+    });
+    blocks.push(`[[Sound: ${escapeFountainNote(scene.sound)}]]`);
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const fdxParagraph = (type: string, text: string, attributes = '') =>
+  `    <Paragraph${attributes} Type="${type}">\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+
+export const toFinalDraftXml = (script: AdScript): string => {
+  const paragraphs: string[] = [];
+  script.scenes.forEach(scene => {
+    paragraphs.push(fdxParagraph('Scene Heading', scene.setting.toUpperCase(), ` Number="${scene.sceneNumber}"`));
+    paragraphs.push(fdxParagraph('Shot', `${sceneTimeRange(scene)} (${scene.duration}s)`));
+    paragraphs.push(fdxParagraph('Action', scene.action));
+    splitDialogue(scene.dialogue).forEach(line => {
+      paragraphs.push(fdxParagraph('Character', line.character));
+      paragraphs.push(fdxParagraph('Dialogue', line.text));
+    });
+    paragraphs.push(fdxParagraph('Action', `SOUND: ${scene.sound}`));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...paragraphs,
+    '  </Content>',
+    '  <TitlePage>',
+    '    <Content>',
+    `      <Paragraph Alignment="Center" Type="Title Page">\n        <Text>${escapeXml(script.title)}</Text>\n      </Paragraph>`,
+    `      <Paragraph Alignment="Center" Type="Title Page">\n        <Text>${escapeXml(script.tagline)}</Text>\n      </Paragraph>`,
+    '    </Content>',
+    '  </TitlePage>',
+    '</FinalDraft>',
+    '',
+  ].join('\n');
+};
+
+export const CSV_COLUMNS = ['Scene', 'Start', 'End', 'Duration (s)', 'Setting', 'Action', 'Dialogue', 'Sound'];
+
+export const toCsv = (script: AdScript): string => {
+  const rows = script.scenes.map(scene => [
+    scene.sceneNumber,
+    formatTimecode(scene.startTime),
+    formatTimecode(scene.startTime + scene.duration),
+    scene.duration,
+    scene.setting,
+    scene.action,
+    scene.dialogue,
+    scene.sound,
+  ]);
+  return formatCsv([CSV_COLUMNS, ...rows]);
+};
+
+/**
+ * Renders the classic agency two-column layout: VIDEO on the left, AUDIO on the right,
+ * one row per scene, breaking onto new pages as needed.
+ */
+export const toAvScriptPdf = (script: AdScript): Blob => {
+  const pdf = createPdfDocument();
+  const margin = 48;
+  const gutter = 18;
+  const columnWidth = (pdf.width - margin * 2 - gutter) / 2;
+  const audioX = margin + columnWidth + gutter;
+  const bodySize = 10;
+  const lineHeight = 13;
+  let y = margin;
+
+  const drawColumnHeaders = () => {
+    pdf.rect(margin, y, pdf.width - margin * 2, 18, 0.9);
+    pdf.text('VIDEO', margin + 6, y + 13, { font: 'bold', size: 10 });
+    pdf.text('AUDIO', audioX + 6, y + 13, { font: 'bold', size: 10 });
+    y += 26;
+  };
+
+  pdf.text(script.title, margin, y + 16, { font: 'bold', size: 18 });
+  y += 28;
+  pdf.text(`"${script.tagline}"`, margin, y + 10, { font: 'italic', size: 12, gray: 0.3 });
+  y += 20;
+  pdf.text(`Total running time: ${formatTimecode(getTotalDuration(script.scenes))}`, margin, y + 10, { size: 10, gray: 0.3 });
+  y += 24;
+  drawColumnHeaders();
+
+  script.scenes.forEach(scene => {
+    const videoLines = [
+      ...wrapText(`SCENE ${scene.sceneNumber}  (${sceneTimeRange(scene)})`, columnWidth, bodySize, 'bold').map(text => ({ text, font: 'bold' as const })),
+      ...wrapText(scene.setting.toUpperCase(), columnWidth, bodySize).map(text => ({ text, font: 'regular' as const })),
+      ...wrapText(scene.action, columnWidth, bodySize).map(text => ({ text, font: 'regular' as const })),
+    ];
+    const dialogueLines = splitDialogue(scene.dialogue).flatMap(line => [
+      ...wrapText(`${line.character}:`, columnWidth, bodySize, 'bold').map(text => ({ text, font: 'bold' as const })),
+      ...wrapText(line.text, columnWidth, bodySize).map(text => ({ text, font: 'regular' as const })),
+    ]);
+    const audioLines = [
+      ...dialogueLines,
+      ...wrapText(`SFX/MUSIC: ${scene.sound}`, columnWidth, bodySize, 'italic').map(text => ({ text, font: 'italic' as const })),
+    ];
+
+    const rowHeight = Math.max(videoLines.length, audioLines.length) * lineHeight + 12;
+    if (y + rowHeight > pdf.height - margin && y > margin + 40) {
+      pdf.addPage();
+      y = margin;
+      drawColumnHeaders();
+    }
+
+    videoLines.forEach((line, i) => pdf.text(line.text, margin, y + (i + 1) * lineHeight, { font: line.font, size: bodySize }));
+    audioLines.forEach((line, i) => pdf.text(line.text, audioX, y + (i + 1) * lineHeight, { font: line.font, size: bodySize }));
+    y += rowHeight;
+    pdf.line(margin, y - 4, pdf.width - margin, y - 4, 0.8);
+  });
+
+  return pdf.toBlob();
+};
+
+// Why the script can't be exported as PDF, e.g. Hindi, Japanese, Korean or Chinese text; null when it can.
+export const getPdfUnavailableReason = (script: AdScript): string | null => {
+  const unsupported = findUnsupportedCharacters(toPlainText(script));
+  return unsupported.length > 0 ? describeUnsupportedCharacters(unsupported) : null;
+};
+
+export const exportScript = (script: AdScript, format: ExportFormat): Blob => {
+  const { mimeType } = EXPORT_FORMATS.find(entry => entry.format === format)!;
+  switch (format) {
+    case 'pdf':
+      return toAvScriptPdf(script);
+    case 'fountain':
+      return new Blob([toFountain(script)], { type: mimeType });
+    case 'fdx':
+      return new Blob([toFinalDraftXml(script)], { type: mimeType });
+    case 'csv':
+      return new Blob([toCsv(script)], { type: mimeType });
+    case 'json':
+      return new Blob([toJson(script)], { type: mimeType });
+  }
+};
+
+export const getExportFilename = (script: AdScript, format: ExportFormat): string => {
+  const { extension } = EXPORT_FORMATS.find(entry => entry.format === format)!;
+  return `${toFileSlug(script.title)}.${extension}`;
+};
+
+export const toFileSlug = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'ad-script';
@@ -0,0 +1,72 @@
+import type { AdScript, ScriptHistory, ScriptVersion, ScriptVersionOrigin } from '../types';
+
+// Edits this close together (e.g. typing a scene duration) are folded into one version.
+const EDIT_MERGE_WINDOW_MS = 2000;
+
+export const ORIGIN_LABELS: Record<ScriptVersionOrigin, string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  refined: 'Refined',
+  imported: 'Imported',
+  restored: 'Restored',
+};
+
+export const EMPTY_SCRIPT_HISTORY: ScriptHistory = { versions: [], currentIndex: null };
+
+// Projects saved before the history existed start with their script as the only version.
+export const createScriptHistory = (script: AdScript | null, origin: ScriptVersionOrigin = 'generated', now = Date.now()): ScriptHistory =>
+  script
+    ? { versions: [{ number: 1, script, origin, note: null, createdAt: now }], currentIndex: 0 }
+    : EMPTY_SCRIPT_HISTORY;
+
+export const getCurrentVersion = (history: ScriptHistory): ScriptVersion | null =>
+  history.currentIndex === null ? null : history.versions[history.currentIndex] ?? null;
+
+const isSameScript = (a: AdScript, b: AdScript): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Adds `script` as the newest version and makes it current. Nothing is recorded when it matches the
+ * current version, and an edit right after another edit of the newest version replaces that edit.
+ */
+export const recordVersion = (
+  history: ScriptHistory,
+  script: AdScript,
+  origin: ScriptVersionOrigin,
+  note: string | null = null,
+  now = Date.now(),
+): ScriptHistory => {
+  const current = getCurrentVersion(history);
+  if (current && isSameScript(current.script, script)) {
+    return history;
+  }
+  const lastIndex = history.versions.length - 1;
+  const last = history.versions[lastIndex];
+  if (origin === 'edited' && last?.origin === 'edited' && history.currentIndex === lastIndex && now - last.createdAt < EDIT_MERGE_WINDOW_MS) {
+    const merged: ScriptVersion = { ...last, script, createdAt: now };
+    return { versions: [...history.versions.slice(0, lastIndex), merged], currentIndex: lastIndex };
+  }
+  const version: ScriptVersion = { number: history.versions.length + 1, script, origin, note, createdAt: now };
+  return { versions: [...history.versions, version], currentIndex: history.versions.length };
+};
+
+// Hides the script without forgetting its versions, e.g. when going back to the list of concepts.
+export const closeCurrentVersion = (history: ScriptHistory): ScriptHistory => ({ ...history, currentIndex: null });
+
+export const canUndo = (history: ScriptHistory): boolean => history.currentIndex !== null && history.currentIndex > 0;
+
+export const canRedo = (history: ScriptHistory): boolean =>
+  history.currentIndex !== null && history.currentIndex < history.versions.length - 1;
+
+// Undo and redo step through the versions in the order they were recorded.
+export const undo = (history: ScriptHistory): ScriptHistory =>
+  canUndo(history) ? { ...history, currentIndex: history.currentIndex! - 1 } : history;
+
+export const redo = (history: ScriptHistory): ScriptHistory =>
+  canRedo(history) ? { ...history, currentIndex: history.currentIndex! + 1 } : history;
+
+// Restoring records a copy of the old version, so the versions in between stay where they were.
+export const restoreVersion = (history: ScriptHistory, index: number, now = Date.now()): ScriptHistory => {
+  const version = history.versions[index];
+  if (!version) return history;
+  return recordVersion(history, version.script, 'restored', `Restored version ${version.number}`, now);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ScriptImportError, importScript, parseFountain, parseScriptJson } from './scriptImport';
+
+const importIssues = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ScriptImportError) return error.issues;
+    throw error;
+  }
+  throw new Error('Expected the import to fail.');
+};
+
+describe('parseScriptJson', () => {
+  it('reports the line of a JSON syntax error', () => {
+    const text = '{\n  "title": "Morning Boost",\n  "tagline": "Wake up brighter."\n  "scenes": []\n}';
+    const [issue] = importIssues(() => parseScriptJson(text));
+    expect(issue.line).toBe(4);
+    expect(issue.message).toMatch(/^Invalid JSON/);
+  });
+
+  it('points a missing scene field at its scene', () => {
+    const text = [
+      '{',
+      '  "title": "Morning Boost",',
+      '  "tagline": "Wake up brighter.",',
+      '  "scenes": [',
+      '    { "duration": 5, "setting": "INT. KITCHEN", "action": "Pours coffee." },',
+      '    {',
+      '      "duration": 5,',
+      '      "setting": "EXT. PARK"',
+      '    }',
+      '  ]',
+      '}',
+    ].join('\n');
+    expect(importIssues(() => parseScriptJson(text))).toEqual([{ line: 6, message: 'scenes[1].action is required' }]);
+  });
+});
+
+describe('parseFountain', () => {
+  it('reports each problem with its line number', () => {
+    const text = [
+      'Title: Morning Boost',
+      '',
+      'Maya yawns.',
+      '',
+      '.KITCHEN - DAY',
+      '[[Duration: soon]]',
+      '',
+      'Maya pours coffee.',
+      '',
+      '.PARK - MORNING',
+    ].join('\n');
+    expect(importIssues(() => parseFountain(text))).toEqual([
+      { line: 3, message: expect.stringMatching(/^Content appears before the first scene heading/) },
+      { line: 6, message: 'Invalid duration "soon"; expected a number of seconds such as "5s".' },
+      { line: 10, message: 'Scene 2 has no action.' },
+    ]);
+  });
+
+  it('falls back to the title when there is no tagline', () => {
+    const result = importScript('Title: Morning Boost\n\n.KITCHEN - DAY\n[[Duration: 5s]]\n\nMaya pours coffee.\n', 'ad.fountain');
+    expect(result.script.tagline).toBe('Morning Boost');
+    expect(result.warnings).toContainEqual({ line: 1, message: 'The title page has no Tagline; using the title "Morning Boost".' });
+  });
+});
@@ -0,0 +1,340 @@
+import type { AdScript, Scene } from '../types';
+import { validateAdScript } from './adScriptValidator';
+import { retimeScenes } from './sceneTiming';
+import { VOICEOVER_CHARACTER } from './scriptExport';
+
+export interface ImportIssue {
+  // 1-based line in the source file, or null when the problem isn't tied to one line.
+  line: number | null;
+  message: string;
+}
+
+export interface ImportResult {
+  script: AdScript;
+  format: 'json' | 'fountain';
+  warnings: ImportIssue[];
+}
+
+export class ScriptImportError extends Error {
+  issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(`Could not import the script: ${formatImportIssues(issues)}`);
+    this.name = 'ScriptImportError';
+    this.issues = issues;
+  }
+}
+
+export const formatImportIssue = (issue: ImportIssue): string =>
+  issue.line === null ? issue.message : `Line ${issue.line}: ${issue.message}`;
+
+export const formatImportIssues = (issues: ImportIssue[]): string => issues.map(formatImportIssue).join('; ');
+
+// Used for Fountain scenes that carry no [[Duration]] note and can't be derived from the title page.
+const DEFAULT_SCENE_DURATION = 5;
+
+const lineAtOffset = (text: string, offset: number): number => text.slice(0, offset).split('\n').length;
+
+// JSON.parse error messages differ across engines; pull out whatever location they give.
+const lineFromJsonError = (text: string, message: string): number | null => {
+  const lineMatch = message.match(/line (\d+)/i);
+  if (lineMatch) return Number(lineMatch[1]);
+  const positionMatch = message.match(/position (\d+)/i);
+  if (positionMatch) return lineAtOffset(text, Number(positionMatch[1]));
+  return null;
+};
+
+// Returns the [start, end) offsets of each object in the top-level "scenes" array.
+const findSceneSpans = (text: string): [number, number][] => {
+  const scenesKey = text.search(/"scenes"\s*:\s*\[/);
+  if (scenesKey < 0) return [];
+  const spans: [number, number][] = [];
+  let depth = 0;
+  let inString = false;
+  let start = -1;
+  for (let i = text.indexOf('[', scenesKey) + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0) spans.push([start, i + 1]);
+    }
+  }
+  return spans;
+};
+
+// Finds the line where a validator path such as `scenes[1].action` most likely lives.
+const lineForJsonPath = (text: string, path: string): number | null => {
+  const sceneMatch = path.match(/^scenes\[(\d+)\](?:\.(\w+))?/);
+  if (!sceneMatch) {
+    const offset = text.search(new RegExp(`"${path}"\\s*:`));
+    return offset >= 0 ? lineAtOffset(text, offset) : null;
+  }
+  const span = findSceneSpans(text)[Number(sceneMatch[1])];
+  if (!span) return null;
+  // Point at the field if present, otherwise at the start of the scene that lacks it.
+  const keyOffset = sceneMatch[2] ? text.slice(span[0], span[1]).search(new RegExp(`"${sceneMatch[2]}"\\s*:`)) : -1;
+  return lineAtOffset(text, keyOffset >= 0 ? span[0] + keyOffset : span[0]);
+};
+
+export const parseScriptJson = (text: string): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON.';
+    throw new ScriptImportError([{ line: lineFromJsonError(text, message), message: `Invalid JSON: ${message}` }]);
+  }
+
+  const result = validateAdScript(parsed);
+  if (!result.script) {
+    throw new ScriptImportError(result.issues.map(issue => ({
+      line: lineForJsonPath(text, issue.path),
+      message: `${issue.path} ${issue.message}`,
+    })));
+  }
+  return {
+    script: result.script,
+    format: 'json',
+    warnings: result.repairs.map(message => ({ line: null, message })),
+  };
+};
+
+interface FountainSceneDraft {
+  line: number;
+  setting: string;
+  actions: string[];
+  dialogue: { character: string; text: string }[];
+  sound: string | null;
+  duration: number | null;
+}
+
+const SCENE_HEADING_PATTERN = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const SCENE_NUMBER_PATTERN = /\s*#[\w.-]+#\s*$/;
+// Brackets and backslashes escaped by the exporter don't end a note.
+const NOTE_PATTERN = /\[\[((?:\\[\s\S]|[^\\])*?)\]\]/g;
+const TITLE_PAGE_KEY_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+
+const isCharacterCue = (line: string): boolean => {
+  if (line.startsWith('@')) return true;
+  // An all-caps line with at least one letter, optionally with an extension like (V.O.).
+  const name = line.replace(/\s*\([^)]*\)\s*$/, '').replace(/\s*\^$/, '');
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/^[!.>=#~]/.test(line) && !line.endsWith('TO:');
+};
+
+const toDialogueLine = (character: string, text: string): string => {
+  const isVoiceover = character === VOICEOVER_CHARACTER || /\((V\.?O\.?|O\.?S\.?)\)/i.test(character);
+  const name = character.replace(/\s*\([^)]*\)\s*$/, '').trim();
+  return isVoiceover ? `VO: ${text}` : `${name}: ${text}`;
+};
+
+const parseSeconds = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:s|sec|secs|seconds)?$/i);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Parses a Fountain screenplay. Each scene heading starts a Scene; action paragraphs become its
+ * action, character cues and their lines become dialogue, and [[Sound: ...]] / [[Duration: ...]]
+ * notes (as written by the Fountain exporter) fill in sound and timing.
+ */
+export const parseFountain = (text: string): ImportResult => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  // Boneyard comments are removed but their newlines kept so line numbers stay accurate.
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''));
+  if (source.includes('/*')) {
+    errors.push({ line: lineAtOffset(source, source.indexOf('/*')), message: 'Unterminated /* boneyard comment.' });
+  }
+
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const titlePage: Record<string, string> = {};
+  let index = 0;
+
+  // Title page: key/value pairs at the very top, ended by the first blank line.
+  if (lines.length > 0 && TITLE_PAGE_KEY_PATTERN.test(lines[0]) && !SCENE_HEADING_PATTERN.test(lines[0])) {
+    let lastKey: string | null = null;
+    while (index < lines.length && lines[index].trim() !== '') {
+      const match = lines[index].match(TITLE_PAGE_KEY_PATTERN);
+      if (match) {
+        lastKey = match[1].trim().toLowerCase();
+        titlePage[lastKey] = match[2].trim();
+      } else if (lastKey) {
+        titlePage[lastKey] = `${titlePage[lastKey]} ${lines[index].trim()}`.trim();
+      }
+      index++;
+    }
+  }
+
+  const scenes: FountainSceneDraft[] = [];
+  let currentScene: FountainSceneDraft | null = null;
+  let inDialogue = false;
+
+  const handleNote = (note: string, lineNumber: number) => {
+    const match = note.match(/^\s*(\w+)\s*:\s*([\s\S]*)$/);
+    if (!match || !currentScene) return;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim().replace(/\\([\\[\]])/g, '$1');
+    if (key === 'sound') {
+      currentScene.sound = value;
+    } else if (key === 'duration') {
+      const seconds = parseSeconds(value);
+      if (seconds === null || seconds <= 0) {
+        errors.push({ line: lineNumber, message: `Invalid duration "${value}"; expected a number of seconds such as "5s".` });
+      } else {
+        currentScene.duration = seconds;
+      }
+    }
+  };
+
+  while (index < lines.length) {
+    const lineNumber = index + 1;
+    let line = lines[index];
+
+    // Notes may span lines; gather until the closing brackets.
+    if (line.includes('[[')) {
+      let combined = line;
+      let end = index;
+      while (!combined.slice(combined.lastIndexOf('[[')).includes(']]') && end + 1 < lines.length) {
+        end++;
+        combined += `\n${lines[end]}`;
+      }
+      if (!combined.slice(combined.lastIndexOf('[[')).includes(']]')) {
+        errors.push({ line: lineNumber, message: 'Unterminated [[note]].' });
+        combined += ']]';
+      }
+      for (const match of combined.matchAll(NOTE_PATTERN)) handleNote(match[1], lineNumber);
+      line = combined.replace(NOTE_PATTERN, '').trim();
+      index = end;
+    }
+
+    const trimmed = line.trim();
+    index++;
+
+    if (trimmed === '') {
+      inDialogue = false;
+      continue;
+    }
+
+    const previousBlank = lineNumber === 1 || lines[lineNumber - 2].trim() === '';
+
+    if ((trimmed.startsWith('.') && !trimmed.startsWith('..')) || (previousBlank && SCENE_HEADING_PATTERN.test(trimmed))) {
+      const setting = trimmed.replace(/^\./, '').replace(SCENE_NUMBER_PATTERN, '').trim();
+      if (!setting) {
+        errors.push({ line: lineNumber, message: 'Scene heading is empty.' });
+      }
+      currentScene = { line: lineNumber, setting, actions: [], dialogue: [], sound: null, duration: null };
+      scenes.push(currentScene);
+      inDialogue = false;
+      continue;
+    }
+
+    // Sections, synopses, page breaks and transitions carry no script content.
+    if (/^(#|=|~|>.*[^<]$)/.test(trimmed) || (trimmed.endsWith('TO:') && trimmed === trimmed.toUpperCase())) {
+      continue;
+    }
+
+    if (!currentScene) {
+      errors.push({ line: lineNumber, message: 'Content appears before the first scene heading. Start each scene with a heading such as ".KITCHEN - DAY" or "INT. KITCHEN - DAY".' });
+      continue;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(trimmed)) continue; // Parentheticals are dropped.
+      const speech = currentScene.dialogue[currentScene.dialogue.length - 1];
+      speech.text = speech.text ? `${speech.text} ${trimmed}` : trimmed;
+      continue;
+    }
+
+    const nextLine = lines[index]?.trim() ?? '';
+    if (previousBlank && nextLine !== '' && isCharacterCue(trimmed)) {
+      currentScene.dialogue.push({ character: trimmed.replace(/^@/, '').replace(/\s*\^$/, '').trim(), text: '' });
+      inDialogue = true;
+      continue;
+    }
+
+    const action = trimmed.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1');
+    const lastAction = currentScene.actions.length - 1;
+    if (!previousBlank && lastAction >= 0) {
+      currentScene.actions[lastAction] += ` ${action}`;
+    } else {
+      currentScene.actions.push(action);
+    }
+  }
+
+  if (scenes.length === 0) {
+    errors.push({ line: null, message: 'No scene headings were found. Start each scene with a heading such as ".KITCHEN - DAY" or "INT. KITCHEN - DAY".' });
+  }
+  scenes.forEach((scene, i) => {
+    if (scene.actions.length === 0) {
+      errors.push({ line: scene.line, message: `Scene ${i + 1} has no action.` });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ScriptImportError(errors.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)));
+  }
+
+  const title = titlePage.title?.replace(/^_+|_+$/g, '').replace(/\*/g, '').trim();
+  if (!title) warnings.push({ line: 1, message: 'The title page has no Title; using "Untitled Script".' });
+  const resolvedTitle = title || 'Untitled Script';
+  // Every script needs a tagline, so a missing one falls back to the title until it is edited.
+  const tagline = titlePage.tagline?.trim();
+  if (!tagline) warnings.push({ line: 1, message: `The title page has no Tagline; using the title "${resolvedTitle}".` });
+
+  // Share out any time left over from the title page's Duration between scenes without their own.
+  const knownTotal = scenes.reduce((total, scene) => total + (scene.duration ?? 0), 0);
+  const untimed = scenes.filter(scene => scene.duration === null);
+  const targetTotal = titlePage.duration ? parseSeconds(titlePage.duration) : null;
+  const fallbackDuration = targetTotal && targetTotal > knownTotal && untimed.length > 0
+    ? Math.round(((targetTotal - knownTotal) / untimed.length) * 10) / 10
+    : DEFAULT_SCENE_DURATION;
+  untimed.forEach(scene => {
+    warnings.push({ line: scene.line, message: `Scene has no [[Duration]] note; assuming ${fallbackDuration}s.` });
+  });
+
+  const parsedScenes: Scene[] = scenes.map(scene => ({
+    sceneNumber: 0,
+    startTime: 0,
+    duration: scene.duration ?? fallbackDuration,
+    setting: scene.setting,
+    action: scene.actions.join('\n\n'),
+    dialogue: scene.dialogue
+      .filter(speech => speech.text)
+      .map(speech => toDialogueLine(speech.character, speech.text))
+      .join('\n') || 'None',
+    sound: scene.sound || 'None',
+  }));
+
+  return {
+    script: { title: resolvedTitle, tagline: tagline || resolvedTitle, scenes: retimeScenes(parsedScenes) },
+    format: 'fountain',
+    warnings,
+  };
+};
+
+const looksLikeJson = (text: string) => /^\s*[{[]/.test(text);
+
+/**
+ * Imports a previously exported script. The format is picked from the file extension, falling
+ * back to sniffing the content. Throws ScriptImportError with line numbers on failure.
+ */
+export const importScript = (text: string, filename = ''): ImportResult => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json' || (extension !== 'fountain' && looksLikeJson(text))) {
+    return parseScriptJson(text);
+  }
+  return parseFountain(text);
+};
+
+export const IMPORT_ACCEPT = '.json,.fountain,.spmd,.txt,application/json,text/plain';
@@ -0,0 +1,176 @@
+export type SoundKind = 'music' | 'sfx' | 'ambience';
+
+export interface SoundPlaceholder {
+  id: string;
+  label: string;
+  kind: SoundKind;
+  // Whole words (or phrases) matched against a scene's sound cue, case-insensitively.
+  keywords: string[];
+  // Schedules the sound on any audio graph, so the same code serves live preview and WAV export.
+  schedule(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, gain: number): void;
+}
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const getNoiseBuffer = (ctx: BaseAudioContext): AudioBuffer => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+// A gain node with a short attack and release so notes and loops don't click.
+const envelope = (ctx: BaseAudioContext, destination: AudioNode, start: number, duration: number, level: number): GainNode => {
+  const gain = ctx.createGain();
+  const fade = Math.min(0.05, duration / 4);
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(level, start + fade);
+  gain.gain.setValueAtTime(level, start + duration - fade);
+  gain.gain.linearRampToValueAtTime(0, start + duration);
+  gain.connect(destination);
+  return gain;
+};
+
+const tone = (ctx: BaseAudioContext, destination: AudioNode, type: OscillatorType, frequency: number, start: number, duration: number, level: number) => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, start);
+  osc.connect(envelope(ctx, destination, start, duration, level));
+  osc.start(start);
+  osc.stop(start + duration);
+};
+
+const noise = (ctx: BaseAudioContext, destination: AudioNode, start: number, duration: number): AudioBufferSourceNode => {
+  const source = ctx.createBufferSource();
+  source.buffer = getNoiseBuffer(ctx);
+  source.loop = true;
+  source.connect(destination);
+  source.start(start);
+  source.stop(start + duration);
+  return source;
+};
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+export const SOUND_LIBRARY: SoundPlaceholder[] = [
+  {
+    id: 'upbeat-music',
+    label: 'Upbeat music bed',
+    kind: 'music',
+    keywords: ['upbeat', 'energetic', 'pop music', 'beat', 'electronic', 'uplifting', 'dance', 'rock', 'hip hop', 'funk', 'fast'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const step = 0.25; // Eighth notes at 120 bpm.
+      const arpeggio = [60, 64, 67, 72, 67, 64];
+      for (let i = 0; startTime + i * step < startTime + duration - 0.05; i++) {
+        const at = startTime + i * step;
+        tone(ctx, destination, 'triangle', midiToFrequency(arpeggio[i % arpeggio.length]), at, Math.min(step * 0.9, startTime + duration - at), gain);
+        if (i % 2 === 0) tone(ctx, destination, 'sine', 55, at, Math.min(0.12, startTime + duration - at), gain * 1.5);
+      }
+    },
+  },
+  {
+    id: 'calm-music',
+    label: 'Calm music bed',
+    kind: 'music',
+    keywords: ['music', 'piano', 'soft', 'gentle', 'calm', 'acoustic', 'strings', 'orchestral', 'cinematic', 'emotional', 'warm', 'inspiring', 'score'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const chords = [[57, 60, 64], [53, 57, 60], [55, 59, 62], [52, 55, 59]];
+      const chordLength = 2;
+      for (let i = 0; startTime + i * chordLength < startTime + duration - 0.05; i++) {
+        const at = startTime + i * chordLength;
+        const length = Math.min(chordLength, startTime + duration - at);
+        chords[i % chords.length].forEach(note => tone(ctx, destination, 'sine', midiToFrequency(note), at, length, gain / 2));
+      }
+    },
+  },
+  {
+    id: 'whoosh',
+    label: 'Whoosh',
+    kind: 'sfx',
+    keywords: ['whoosh', 'swoosh', 'swish', 'transition', 'swipe', 'zoom', 'rush'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const length = Math.min(0.8, duration);
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.Q.value = 2;
+      filter.frequency.setValueAtTime(300, startTime);
+      filter.frequency.exponentialRampToValueAtTime(4000, startTime + length);
+      filter.connect(envelope(ctx, destination, startTime, length, gain * 2));
+      noise(ctx, filter, startTime, length);
+    },
+  },
+  {
+    id: 'click',
+    label: 'Click',
+    kind: 'sfx',
+    keywords: ['click', 'tap', 'button', 'snap', 'pop', 'switch', 'beep'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      tone(ctx, destination, 'square', 1800, startTime, Math.min(0.04, duration), gain);
+    },
+  },
+  {
+    id: 'chime',
+    label: 'Chime',
+    kind: 'sfx',
+    keywords: ['chime', 'ding', 'notification', 'bell', 'sparkle', 'shimmer', 'twinkle', 'magic', 'logo'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const length = Math.min(1.5, duration);
+      [1, 2.76, 5.4].forEach((partial, i) => tone(ctx, destination, 'sine', 880 * partial, startTime, length / (i + 1), gain / (i + 1)));
+    },
+  },
+  {
+    id: 'impact',
+    label: 'Impact',
+    kind: 'sfx',
+    keywords: ['boom', 'impact', 'hit', 'thud', 'slam', 'bass drop', 'drum', 'punch', 'crash', 'explosion'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const length = Math.min(0.6, duration);
+      const osc = ctx.createOscillator();
+      osc.frequency.setValueAtTime(120, startTime);
+      osc.frequency.exponentialRampToValueAtTime(40, startTime + length);
+      osc.connect(envelope(ctx, destination, startTime, length, gain * 2));
+      osc.start(startTime);
+      osc.stop(startTime + length);
+    },
+  },
+  {
+    id: 'ambience',
+    label: 'Room tone / ambience',
+    kind: 'ambience',
+    keywords: ['ambience', 'ambient', 'crowd', 'city', 'street', 'traffic', 'nature', 'birds', 'wind', 'rain', 'ocean', 'waves', 'cafe', 'office', 'room tone', 'chatter'],
+    schedule(ctx, destination, startTime, duration, gain) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = 800;
+      filter.connect(envelope(ctx, destination, startTime, duration, gain));
+      noise(ctx, filter, startTime, duration);
+    },
+  },
+];
+
+// Used for a sound cue that names nothing in the library.
+export const FALLBACK_SOUND_ID = 'ambience';
+
+export const getSoundPlaceholder = (id: string): SoundPlaceholder | undefined =>
+  SOUND_LIBRARY.find(placeholder => placeholder.id === id);
+
+const mentions = (text: string, keyword: string): boolean =>
+  new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(e?s)?\\b`).test(text);
+
+/**
+ * Picks the placeholders a free-text sound cue asks for: at most one music bed (the first
+ * match wins, so "upbeat music" beats plain "music") plus any SFX and ambience it mentions.
+ */
+export const matchSoundPlaceholders = (cue: string): SoundPlaceholder[] => {
+  const text = cue.trim().toLowerCase();
+  if (!text || text === 'none') return [];
+  const matches = SOUND_LIBRARY.filter(placeholder => placeholder.keywords.some(keyword => mentions(text, keyword)));
+  const music = matches.find(placeholder => placeholder.kind === 'music');
+  const others = matches.filter(placeholder => placeholder.kind !== 'music');
+  const selected = music ? [music, ...others] : others;
+  return selected.length > 0 ? selected : [getSoundPlaceholder(FALLBACK_SOUND_ID)!];
+};
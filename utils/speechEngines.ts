@@ -0,0 +1,84 @@
+export type SpeechEngineId = 'browser' | 'placeholder';
+
+export interface SpeechEngine {
+  id: SpeechEngineId;
+  label: string;
+  isAvailable(): boolean;
+  // True when `schedule` can render the voice into an offline graph, i.e. into a WAV export.
+  canRender: boolean;
+  // Places a spoken line on an audio graph, fitted into `duration` seconds.
+  schedule?(ctx: BaseAudioContext, destination: AudioNode, text: string, startTime: number, duration: number): void;
+  // Speaks a line live, for engines that can't be routed through Web Audio.
+  speak?(text: string, duration: number): void;
+  // Silences anything started with `speak`.
+  cancel?(): void;
+}
+
+// The Web Speech API plays straight to the speakers, so it can be previewed but not recorded.
+const browserEngine: SpeechEngine = {
+  id: 'browser',
+  label: 'Browser voice',
+  canRender: false,
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  speak(text, duration) {
+    const utterance = new SpeechSynthesisUtterance(text);
+    // Speed up lines that would otherwise run past their scene, within reason.
+    const naturalDuration = text.split(/\s+/).filter(Boolean).length / 2.5;
+    utterance.rate = Math.min(Math.max(naturalDuration / Math.max(duration, 0.1), 1), 1.6);
+    window.speechSynthesis.speak(utterance);
+  },
+  cancel() {
+    window.speechSynthesis.cancel();
+  },
+};
+
+/**
+ * A local stand-in voice: one pitched, filtered buzz per word with a falling intonation.
+ * It carries the rhythm and timing of the read so the mix can be judged without a TTS service.
+ */
+const placeholderEngine: SpeechEngine = {
+  id: 'placeholder',
+  label: 'Placeholder voice',
+  canRender: true,
+  isAvailable: () => true,
+  schedule(ctx, destination, text, startTime, duration) {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length === 0 || duration <= 0) return;
+    const gap = 0.06;
+    const totalWeight = words.reduce((sum, word) => sum + Math.max(word.length, 2), 0);
+    const speakingTime = Math.max(duration - gap * words.length, duration / 2);
+
+    const formant = ctx.createBiquadFilter();
+    formant.type = 'bandpass';
+    formant.frequency.value = 900;
+    formant.Q.value = 1.5;
+    formant.connect(destination);
+
+    let at = startTime;
+    words.forEach((word, i) => {
+      const length = (Math.max(word.length, 2) / totalWeight) * speakingTime;
+      const pitch = 150 - (i / words.length) * 30 + (/[?]$/.test(word) ? 40 : 0);
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(pitch, at);
+      osc.frequency.linearRampToValueAtTime(pitch * 0.9, at + length);
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(0.5, at + Math.min(0.03, length / 3));
+      gain.gain.linearRampToValueAtTime(0, at + length);
+      osc.connect(gain);
+      gain.connect(formant);
+      osc.start(at);
+      osc.stop(at + length);
+      at += length + gap;
+    });
+  },
+};
+
+export const SPEECH_ENGINES: SpeechEngine[] = [browserEngine, placeholderEngine];
+
+export const getSpeechEngine = (id: SpeechEngineId): SpeechEngine =>
+  SPEECH_ENGINES.find(engine => engine.id === id) ?? placeholderEngine;
+
+// Engine used for WAV export when the selected one can't be recorded.
+export const RENDERABLE_FALLBACK_ENGINE = placeholderEngine;
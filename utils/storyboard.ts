@@ -0,0 +1,188 @@
+import type { AdScript, InlineImage, Scene, StoryboardFrame } from '../types';
+import { PdfJpegImage, createPdfDocument, wrapText } from './pdfWriter';
+import { getSceneContentKey } from './scriptEditing';
+import { formatTimecode } from './sceneTiming';
+
+export const getStoryboardFrame = (frames: StoryboardFrame[], scene: Scene): StoryboardFrame | null =>
+  frames.find(frame => frame.sceneKey === getSceneContentKey(scene)) ?? null;
+
+// Replaces the frame for the same scene content, if there is one.
+export const setStoryboardFrame = (frames: StoryboardFrame[], frame: StoryboardFrame): StoryboardFrame[] =>
+  [...frames.filter(existing => existing.sceneKey !== frame.sceneKey), frame];
+
+export const toImageDataUrl = (image: InlineImage): string => `data:${image.mimeType};base64,${image.base64Image}`;
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error("A storyboard frame could not be decoded."));
+    element.src = toImageDataUrl(image);
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode the image."))), type, quality);
+  });
+
+// The PDF writer only embeds JPEGs, so frames in other formats (PNG, SVG) are redrawn first.
+const toJpeg = async (image: InlineImage): Promise<PdfJpegImage> => {
+  const element = await loadImage(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = element.naturalWidth || 1280;
+  canvas.height = element.naturalHeight || 720;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.9);
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * scale, height: height * scale };
+};
+
+const sceneCaption = (scene: Scene) =>
+  `SCENE ${scene.sceneNumber}  ${formatTimecode(scene.startTime)} - ${formatTimecode(scene.startTime + scene.duration)}`;
+
+/**
+ * A landscape storyboard sheet: six panels per page in a 3x2 grid, each with its scene number,
+ * timing, setting and action underneath. Scenes without a frame get an empty panel.
+ */
+export const toStoryboardPdf = async (script: AdScript, frames: StoryboardFrame[]): Promise<Blob> => {
+  const pdf = createPdfDocument(792, 612);
+  const margin = 36;
+  const gutter = 18;
+  const columns = 3;
+  const rows = 2;
+  const cellWidth = (pdf.width - margin * 2 - gutter * (columns - 1)) / columns;
+  const headerHeight = 40;
+  const cellHeight = (pdf.height - margin * 2 - headerHeight - gutter * (rows - 1)) / rows;
+  const panelHeight = cellWidth * 9 / 16;
+  const captionSize = 8;
+  const captionLineHeight = 10;
+  const maxCaptionLines = Math.floor((cellHeight - panelHeight - 8) / captionLineHeight);
+
+  const jpegs = await Promise.all(script.scenes.map(scene => {
+    const frame = getStoryboardFrame(frames, scene);
+    return frame ? toJpeg(frame) : Promise.resolve(null);
+  }));
+
+  const drawHeader = (page: number) => {
+    pdf.text(script.title, margin, margin + 16, { font: 'bold', size: 16 });
+    pdf.text(`"${script.tagline}"`, margin, margin + 30, { font: 'italic', size: 10, gray: 0.3 });
+    pdf.text(`Storyboard - page ${page}`, pdf.width - margin - 100, margin + 16, { size: 9, gray: 0.4 });
+  };
+
+  script.scenes.forEach((scene, index) => {
+    const slot = index % (columns * rows);
+    if (slot === 0) {
+      if (index > 0) pdf.addPage();
+      drawHeader(index / (columns * rows) + 1);
+    }
+    const x = margin + (slot % columns) * (cellWidth + gutter);
+    const y = margin + headerHeight + Math.floor(slot / columns) * (cellHeight + gutter);
+
+    pdf.rect(x, y, cellWidth, panelHeight, 0.92);
+    const jpeg = jpegs[index];
+    if (jpeg) {
+      const size = fitWithin(jpeg.width, jpeg.height, cellWidth, panelHeight);
+      pdf.image(jpeg, x + (cellWidth - size.width) / 2, y + (panelHeight - size.height) / 2, size.width, size.height);
+    } else {
+      pdf.text('No frame', x + cellWidth / 2 - 18, y + panelHeight / 2, { size: 9, gray: 0.5 });
+    }
+
+    const caption = [
+      ...wrapText(sceneCaption(scene), cellWidth, captionSize, 'bold').map(text => ({ text, font: 'bold' as const })),
+      ...wrapText(scene.setting.toUpperCase(), cellWidth, captionSize).map(text => ({ text, font: 'regular' as const })),
+      ...wrapText(scene.action, cellWidth, captionSize, 'italic').map(text => ({ text, font: 'italic' as const })),
+    ];
+    const visible = caption.slice(0, maxCaptionLines);
+    if (caption.length > maxCaptionLines && visible.length > 0) {
+      visible[visible.length - 1] = { ...visible[visible.length - 1], text: `${visible[visible.length - 1].text}...` };
+    }
+    visible.forEach((line, i) => pdf.text(line.text, x, y + panelHeight + 12 + i * captionLineHeight, { font: line.font, size: captionSize }));
+  });
+
+  return pdf.toBlob();
+};
+
+const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// A single PNG with every frame in a grid and a short caption under each, for quick sharing.
+export const toContactSheetPng = async (script: AdScript, frames: StoryboardFrame[]): Promise<Blob> => {
+  const columns = Math.min(3, Math.max(script.scenes.length, 1));
+  const cellWidth = 480;
+  const panelHeight = 270;
+  const captionHeight = 84;
+  const padding = 24;
+  const headerHeight = 72;
+  const rows = Math.ceil(script.scenes.length / columns);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = padding + columns * (cellWidth + padding);
+  canvas.height = headerHeight + rows * (panelHeight + captionHeight + padding) + padding;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Failed to create a canvas context for the contact sheet.");
+  }
+
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#f3f4f6';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText(script.title, padding, 44);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = 'italic 16px sans-serif';
+  ctx.fillText(script.tagline, padding, 64);
+
+  const images = await Promise.all(script.scenes.map(scene => {
+    const frame = getStoryboardFrame(frames, scene);
+    return frame ? loadImage(frame) : Promise.resolve(null);
+  }));
+
+  script.scenes.forEach((scene, index) => {
+    const x = padding + (index % columns) * (cellWidth + padding);
+    const y = headerHeight + Math.floor(index / columns) * (panelHeight + captionHeight + padding);
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(x, y, cellWidth, panelHeight);
+    const image = images[index];
+    if (image) {
+      const size = fitWithin(image.naturalWidth || cellWidth, image.naturalHeight || panelHeight, cellWidth, panelHeight);
+      ctx.drawImage(image, x + (cellWidth - size.width) / 2, y + (panelHeight - size.height) / 2, size.width, size.height);
+    } else {
+      ctx.fillStyle = '#6b7280';
+      ctx.font = '16px sans-serif';
+      ctx.fillText('No frame', x + cellWidth / 2 - 34, y + panelHeight / 2);
+    }
+
+    ctx.fillStyle = '#a78bfa';
+    ctx.font = 'bold 14px sans-serif';
+    ctx.fillText(sceneCaption(scene), x, y + panelHeight + 20);
+    ctx.fillStyle = '#d1d5db';
+    ctx.font = '13px sans-serif';
+    const lines = wrapCanvasText(ctx, `${scene.setting} - ${scene.action}`, cellWidth);
+    lines.slice(0, 3).forEach((line, i) => {
+      const text = i === 2 && lines.length > 3 ? `${line}...` : line;
+      ctx.fillText(text, x, y + panelHeight + 40 + i * 17);
+    });
+  });
+
+  return canvasToBlob(canvas, 'image/png');
+};
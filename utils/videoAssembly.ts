@@ -0,0 +1,170 @@
+const DEFAULT_WIDTH = 1280;
+const DEFAULT_HEIGHT = 720;
+const FRAME_RATE = 30;
+const DEFAULT_CARD_MS = 2500;
+
+export interface AssemblyCard {
+  heading: string;
+  subheading?: string;
+  durationMs?: number;
+}
+
+export interface AssemblyOptions {
+  // Played in order.
+  clipUrls: string[];
+  intro?: AssemblyCard | null;
+  outro?: AssemblyCard | null;
+  // Called with a fraction between 0 and 1 as the assembly plays through.
+  onProgress?: (progress: number) => void;
+}
+
+// Remote clips are copied into blob URLs first; drawing a cross-origin video would taint the canvas.
+const toLocalUrl = async (url: string): Promise<{ url: string; isTemporary: boolean }> => {
+  if (url.startsWith('blob:') || url.startsWith('data:')) return { url, isTemporary: false };
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download a clip for assembly (HTTP ${response.status}).`);
+  }
+  return { url: URL.createObjectURL(await response.blob()), isTemporary: true };
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("A clip could not be loaded for assembly."));
+    video.src = url;
+  });
+
+const pickMimeType = (): string =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+const drawCard = (ctx: CanvasRenderingContext2D, card: AssemblyCard) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, width, height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#f3f4f6';
+  ctx.font = `bold ${Math.round(height / 12)}px sans-serif`;
+  ctx.fillText(card.heading, width / 2, card.subheading ? height / 2 - height / 16 : height / 2, width * 0.9);
+  if (card.subheading) {
+    ctx.fillStyle = '#a78bfa';
+    ctx.font = `italic ${Math.round(height / 22)}px sans-serif`;
+    ctx.fillText(card.subheading, width / 2, height / 2 + height / 16, width * 0.9);
+  }
+};
+
+// Letterboxes the frame so clips with a different aspect ratio aren't stretched.
+const drawVideoFrame = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Plays the clips back to back on a canvas, with optional title cards before and after, and
+ * records the result as a single WebM. Assembly runs in real time and relies on
+ * requestAnimationFrame, so the tab has to stay visible while it runs.
+ */
+export const assembleVideo = async ({ clipUrls, intro, outro, onProgress }: AssemblyOptions): Promise<Blob> => {
+  if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') {
+    throw new Error("Video assembly requires a browser with MediaRecorder support.");
+  }
+  if (clipUrls.length === 0) {
+    throw new Error("There are no clips to assemble.");
+  }
+
+  const sources = await Promise.all(clipUrls.map(toLocalUrl));
+  try {
+    const videos = await Promise.all(sources.map(source => loadVideo(source.url)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = videos[0].videoWidth || DEFAULT_WIDTH;
+    canvas.height = videos[0].videoHeight || DEFAULT_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Failed to create a canvas context for video assembly.");
+    }
+
+    const cards = [intro, outro].filter((card): card is AssemblyCard => !!card);
+    const totalMs = cards.reduce((sum, card) => sum + (card.durationMs ?? DEFAULT_CARD_MS), 0)
+      + videos.reduce((sum, video) => sum + (Number.isFinite(video.duration) ? video.duration * 1000 : 0), 0);
+    let completedMs = 0;
+    const report = (segmentMs: number) => onProgress?.(totalMs > 0 ? Math.min((completedMs + segmentMs) / totalMs, 1) : 0);
+
+    const playCard = (card: AssemblyCard) =>
+      new Promise<void>(resolve => {
+        const durationMs = card.durationMs ?? DEFAULT_CARD_MS;
+        const start = performance.now();
+        const tick = () => {
+          const elapsed = performance.now() - start;
+          drawCard(ctx, card);
+          report(elapsed);
+          if (elapsed < durationMs) {
+            requestAnimationFrame(tick);
+          } else {
+            completedMs += durationMs;
+            resolve();
+          }
+        };
+        tick();
+      });
+
+    const playClip = (video: HTMLVideoElement) =>
+      new Promise<void>((resolve, reject) => {
+        let finished = false;
+        const tick = () => {
+          drawVideoFrame(ctx, video);
+          report(video.currentTime * 1000);
+          if (!finished) requestAnimationFrame(tick);
+        };
+        video.onended = () => {
+          finished = true;
+          drawVideoFrame(ctx, video);
+          completedMs += video.currentTime * 1000;
+          resolve();
+        };
+        video.currentTime = 0;
+        video.play().then(tick, () => reject(new Error("A clip could not be played for assembly.")));
+      });
+
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(canvas.captureStream(FRAME_RATE), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // Paint the first frame before recording starts so the output doesn't open on a blank canvas.
+    if (intro) {
+      drawCard(ctx, intro);
+    } else {
+      drawVideoFrame(ctx, videos[0]);
+    }
+    recorder.start();
+    try {
+      if (intro) await playCard(intro);
+      for (const video of videos) {
+        await playClip(video);
+      }
+      if (outro) await playCard(outro);
+    } finally {
+      recorder.stop();
+      await stopped;
+    }
+
+    onProgress?.(1);
+    return new Blob(chunks, { type: 'video/webm' });
+  } finally {
+    sources.filter(source => source.isTemporary).forEach(source => URL.revokeObjectURL(source.url));
+  }
+};
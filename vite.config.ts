@@ -1,12 +1,15 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { adStudioApiPlugin } from './server/apiPlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY is deliberately not defined here: only the API server sees it.
+      plugins: [adStudioApiPlugin(env.GEMINI_API_KEY)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AD_PROVIDER': JSON.stringify(env.AD_PROVIDER),
+        'process.env.MAX_IMAGE_BYTES': JSON.stringify(env.MAX_IMAGE_BYTES)
       },
       resolve: {
         alias: {